@@ -0,0 +1,119 @@
+/**
+ * OncoGraph Graph Store Benchmark
+ * Compares the indexed GraphStore against the old linear edge/node scans on a
+ * synthetic graph, then times full KnowledgeGraphService queries on it.
+ *
+ * Usage: npm run benchmark [-- <nodeCount>]
+ */
+
+import { GraphStore } from '../src/services/graphStore'
+import { KnowledgeGraph, KnowledgeGraphService, KnowledgeNode, KnowledgeRelation } from '../src/services/knowledgeGraphService'
+
+const NODE_COUNT = Number(process.argv[2]) || 100_000
+const EDGES_PER_NODE = 3
+const LOOKUPS = 200
+
+const TYPES = ['gene', 'pathway', 'drug', 'biomarker', 'disease']
+const RELATIONS = ['participates_in', 'inhibits', 'associated_with', 'indicates', 'indicated_for', 'activates']
+
+// Small deterministic PRNG so runs are comparable
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296
+  return seed / 4294967296
+}
+
+const generateSyntheticGraph = (nodeCount: number): KnowledgeGraph => {
+  const random = createRandom(42)
+  const nodes: KnowledgeNode[] = []
+  const edges: KnowledgeRelation[] = []
+
+  for (let i = 0; i < nodeCount; i++) {
+    const type = TYPES[i % TYPES.length]
+    const label = `${type.toUpperCase()}${i}`
+    nodes.push({
+      id: `${type}:${label}`,
+      label,
+      type,
+      color: '#6c757d',
+      properties: { aliases: [`${label}-alias`] }
+    })
+  }
+
+  for (let i = 0; i < nodeCount * EDGES_PER_NODE; i++) {
+    const source = nodes[Math.floor(random() * nodeCount)]
+    const target = nodes[Math.floor(random() * nodeCount)]
+    edges.push({
+      source: source.id,
+      target: target.id,
+      relation: RELATIONS[Math.floor(random() * RELATIONS.length)]
+    })
+  }
+
+  return { meta: { description: `Synthetic benchmark graph (${nodeCount} nodes)` }, nodes, edges }
+}
+
+const time = (label: string, iterations: number, fn: () => void): number => {
+  const start = performance.now()
+  fn()
+  const elapsed = performance.now() - start
+  console.log(`   ${label.padEnd(42)} ${elapsed.toFixed(1).padStart(10)} ms total  ${(elapsed / iterations).toFixed(3).padStart(10)} ms/op`)
+  return elapsed
+}
+
+// Silence the service's per-query logging while timing it
+const quietly = <T>(fn: () => T): T => {
+  const log = console.log
+  console.log = () => {}
+  try {
+    return fn()
+  } finally {
+    console.log = log
+  }
+}
+
+console.log(`🧪 Graph store benchmark: ${NODE_COUNT} nodes, ${NODE_COUNT * EDGES_PER_NODE} edges\n`)
+
+const kg = generateSyntheticGraph(NODE_COUNT)
+const random = createRandom(7)
+const sampleNodes = Array.from({ length: LOOKUPS }, () => kg.nodes[Math.floor(random() * kg.nodes.length)])
+
+console.log('🏗️  Build')
+const buildStart = performance.now()
+const graphStore = new GraphStore(kg)
+console.log(`   GraphStore construction: ${(performance.now() - buildStart).toFixed(1)} ms`)
+
+console.log('\n🔗 Neighbour expansion')
+// Only a handful of linear scans: each one is O(E·N)
+const linearSamples = sampleNodes.slice(0, 5)
+const linear = time('Linear scan (edges × nodes.find)', linearSamples.length, () => {
+  linearSamples.forEach(target => {
+    kg.edges.forEach(relation => {
+      if (relation.source === target.id) {
+        kg.nodes.find(n => n.id === relation.target)
+      } else if (relation.target === target.id) {
+        kg.nodes.find(n => n.id === relation.source)
+      }
+    })
+  })
+})
+const indexed = time('GraphStore.getNeighbors', sampleNodes.length, () => {
+  sampleNodes.forEach(target => graphStore.getNeighbors(target.id))
+})
+console.log(`   Speed-up per lookup: ~${Math.round((linear / linearSamples.length) / (indexed / sampleNodes.length))}x`)
+
+console.log('\n🏷️  Label lookup')
+time('GraphStore.findByLabel', sampleNodes.length, () => {
+  sampleNodes.forEach(node => graphStore.findByLabel(node.label))
+})
+time('GraphStore.findMentionedNodes', sampleNodes.length, () => {
+  sampleNodes.forEach(node => graphStore.findMentionedNodes(`what drugs are related to ${node.label}?`))
+})
+
+console.log('\n🧬 KnowledgeGraphService queries')
+const service = quietly(() => new KnowledgeGraphService(kg))
+const queries = sampleNodes.slice(0, 50).map(node => `What is ${node.label}?`)
+time('queryKnowledgeGraph', queries.length, () => {
+  quietly(() => queries.forEach(query => service.queryKnowledgeGraph(query)))
+})
+
+console.log('\n✅ Benchmark complete')
@@ -0,0 +1,82 @@
+/**
+ * OncoGraph Knowledge Graph Merger
+ * Unions knowledge graph JSON files into one, unifying nodes by id and alias,
+ * resolving property conflicts with precedence rules and recording provenance.
+ * Files are listed highest priority first. Exits with status 1 when the merged
+ * graph fails validation.
+ *
+ * Usage: npm run merge-kg -- [--out merged.json] [--report report.md]
+ *          [--prefer property=strategy ...] [--default strategy] [--no-alias] files...
+ * Strategies: priority, most-detailed, union, latest
+ */
+
+import { writeFileSync } from 'node:fs'
+import { basename } from 'node:path'
+import { formatMergeReport, mergeKnowledgeGraphs, MergeSource, PropertyStrategy } from '../src/services/graphMerge'
+import { formatValidationReport } from '../src/services/graphValidator'
+import type { KnowledgeGraph } from '../src/services/knowledgeGraphService'
+import { readJson } from './readJson'
+
+const STRATEGIES: PropertyStrategy[] = ['priority', 'most-detailed', 'union', 'latest']
+
+const args = process.argv.slice(2)
+const files: string[] = []
+const propertyStrategies: { [property: string]: PropertyStrategy } = {}
+let outFile: string | undefined
+let reportFile: string | undefined
+let defaultStrategy: PropertyStrategy = 'priority'
+let matchByAlias = true
+
+const fail = (message: string): never => {
+  console.error(`❌ ${message}`)
+  process.exit(1)
+}
+
+const parseStrategy = (value: string | undefined): PropertyStrategy => {
+  if (!value || !STRATEGIES.includes(value as PropertyStrategy)) {
+    return fail(`Unknown strategy "${value}" (expected one of ${STRATEGIES.join(', ')})`)
+  }
+  return value as PropertyStrategy
+}
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i]
+  if (arg === '--out') outFile = args[++i]
+  else if (arg === '--report') reportFile = args[++i]
+  else if (arg === '--default') defaultStrategy = parseStrategy(args[++i])
+  else if (arg === '--no-alias') matchByAlias = false
+  else if (arg === '--prefer') {
+    const [property, strategy] = (args[++i] || '').split('=')
+    if (!property) fail('--prefer expects property=strategy')
+    propertyStrategies[property] = parseStrategy(strategy)
+  } else if (arg.startsWith('--')) fail(`Unknown option ${arg}`)
+  else files.push(arg)
+}
+
+if (files.length < 2) fail('Pass at least two knowledge graph files, highest priority first')
+
+const sources: MergeSource[] = files.map(file => {
+  try {
+    const graph = readJson(file) as KnowledgeGraph
+    return { name: basename(file, '.json'), graph }
+  } catch (error: any) {
+    return fail(`${file} could not be read as JSON (${error.message})`)
+  }
+})
+
+const { graph, report } = mergeKnowledgeGraphs(sources, { defaultStrategy, propertyStrategies, matchByAlias })
+const markdown = formatMergeReport(report)
+
+if (outFile) {
+  writeFileSync(outFile, JSON.stringify(graph, null, 2) + '\n')
+  console.log(`💾 Wrote merged graph to ${outFile}`)
+}
+if (reportFile) {
+  writeFileSync(reportFile, markdown)
+  console.log(`📝 Wrote merge report to ${reportFile}`)
+} else {
+  console.log(markdown)
+}
+
+console.log(formatValidationReport(report.validation, 'merged graph'))
+process.exit(report.validation.valid ? 0 : 1)
@@ -0,0 +1,5 @@
+import { readFileSync } from 'node:fs'
+
+// A JSON file as the knowledge graph scripts read it; throws on unreadable files and invalid JSON.
+// Some files are exported by Windows tools with a byte order mark
+export const readJson = (file: string): unknown => JSON.parse(readFileSync(file, 'utf8').replace(/^\uFEFF/, ''))
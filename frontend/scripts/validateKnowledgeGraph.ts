@@ -0,0 +1,79 @@
+/**
+ * OncoGraph Knowledge Graph Validator
+ * Checks knowledge graph JSON files against the schema: dangling edge references,
+ * duplicate ids, unknown entity or relation types and id-prefix/type mismatches.
+ * Exits with status 1 when any file has errors (or warnings, with --strict).
+ *
+ * Usage: npm run validate-kg [-- [--strict] [--json] [files...]]
+ * Without files, checks every graph JSON in ../kb and src.
+ */
+
+import { readdirSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { formatValidationReport, validateKnowledgeGraph, ValidationReport } from '../src/services/graphValidator'
+import { readJson } from './readJson'
+
+const DEFAULT_DIRECTORIES = ['../kb', 'src']
+
+const args = process.argv.slice(2)
+const strict = args.includes('--strict')
+const asJson = args.includes('--json')
+const explicitFiles = args.filter(arg => !arg.startsWith('--'))
+
+const listJsonFiles = (directory: string): string[] => {
+  try {
+    return readdirSync(directory)
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => join(directory, name))
+  } catch {
+    console.warn(`⚠️  Skipping missing directory ${directory}`)
+    return []
+  }
+}
+
+const looksLikeGraph = (data: unknown): boolean =>
+  typeof data === 'object' && data !== null && ('nodes' in data || 'edges' in data)
+
+const files = explicitFiles.length > 0 ? explicitFiles : DEFAULT_DIRECTORIES.flatMap(listJsonFiles)
+const results: Array<{ file: string, report: ValidationReport }> = []
+let failed = false
+
+for (const file of files) {
+  const name = relative(process.cwd(), file) || file
+  let data: unknown
+  try {
+    data = readJson(file)
+  } catch (error: any) {
+    failed = true
+    if (!asJson) console.log(`❌ ${name}: could not be read as JSON (${error.message})`)
+    results.push({
+      file: name,
+      report: {
+        valid: false,
+        errors: [{ severity: 'error', code: 'invalid-structure', path: '', message: `Invalid JSON: ${error.message}` }],
+        warnings: [],
+        stats: { nodes: 0, edges: 0 }
+      }
+    })
+    continue
+  }
+
+  // Directory scans also pick up non-graph JSON (synonym tables, configs)
+  if (explicitFiles.length === 0 && !looksLikeGraph(data)) {
+    if (!asJson) console.log(`⏭️  ${name}: not a knowledge graph file, skipped`)
+    continue
+  }
+
+  const report = validateKnowledgeGraph(data)
+  results.push({ file: name, report })
+  if (!report.valid || (strict && report.warnings.length > 0)) failed = true
+  if (!asJson) console.log(formatValidationReport(report, name))
+}
+
+if (asJson) {
+  console.log(JSON.stringify(results, null, 2))
+} else {
+  console.log(failed ? '\n❌ Validation failed' : '\n✅ All knowledge graph files are valid')
+}
+process.exit(failed ? 1 : 0)
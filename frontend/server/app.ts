@@ -0,0 +1,318 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http'
+import { knowledgeGraphService, KnowledgeGraphService, KnowledgeNode } from '../src/services/knowledgeGraphService'
+import { LLMMessage, LLMProvider } from '../src/services/llmProvider'
+import { buildSystemPrompt } from '../src/services/chatPrompt'
+import { ServerConfig } from './config'
+import { RateLimiter } from './rateLimiter'
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+const MESSAGE_ROLES = new Set(['user', 'assistant'])
+
+// Follow-ups refer back to a handful of entities at most
+const MAX_FOCUS_IDS = 20
+
+const MAX_DATASET_ID_CHARS = 200
+
+type JsonObject = { [key: string]: unknown }
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Clients may ask for less than the configured budget, never more
+const clamp = (value: unknown, min: number, max: number): number | undefined => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : undefined
+}
+
+// Ids of nodes in the dataset's graph; unknown ids are ignored
+const parseFocus = (value: unknown, service: KnowledgeGraphService): KnowledgeNode[] => {
+  if (value === undefined) return []
+  if (!Array.isArray(value) || value.length > MAX_FOCUS_IDS) {
+    throw new HttpError(400, `"focus" must be an array of at most ${MAX_FOCUS_IDS} node ids.`)
+  }
+  return value
+    .map(id => typeof id === 'string' ? service.getNode(id) : undefined)
+    .filter((node): node is KnowledgeNode => node !== undefined)
+}
+
+/**
+ * The OncoGraph API as an HTTP server, not yet listening.
+ * Answers from the bundled datasets (the ones every client also ships with); each
+ * gets its own KnowledgeGraphService, so requests for different datasets never
+ * switch a shared graph under each other.
+ */
+export const createApiServer = (config: ServerConfig, llmProvider: LLMProvider): Server => {
+  const chatLimiter = new RateLimiter(config.chatRateLimit, config.rateLimitWindowMs)
+  const graphLimiter = new RateLimiter(config.graphRateLimit, config.rateLimitWindowMs)
+
+  // Requests that name no dataset get the one the service starts with
+  const defaultDatasetId = knowledgeGraphService.getActiveDataset()?.id
+  const graphServices = new Map<string, KnowledgeGraphService>()
+
+  // Undefined for datasets the server does not have, e.g. ones a browser loaded from a URL or file
+  const graphServiceFor = (id: string | undefined): KnowledgeGraphService | undefined => {
+    const info = knowledgeGraphService.listDatasets().find(dataset => dataset.id === (id ?? defaultDatasetId) && dataset.source === 'bundled')
+    const graph = info && knowledgeGraphService.getDatasetGraph(info.id)
+    if (!info || !graph) return undefined
+    if (!graphServices.has(info.id)) {
+      graphServices.set(info.id, new KnowledgeGraphService(graph, info.name))
+    }
+    return graphServices.get(info.id)
+  }
+
+  const clientId = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for']
+    if (config.trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+      return forwarded.split(',')[0].trim()
+    }
+    return req.socket.remoteAddress || 'unknown'
+  }
+
+  const readJsonBody = (req: IncomingMessage): Promise<JsonObject> => {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      let size = 0
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > config.maxBodyBytes) {
+          reject(new HttpError(413, `Request body exceeds ${config.maxBodyBytes} bytes.`))
+          req.destroy()
+          return
+        }
+        chunks.push(chunk)
+      })
+      req.on('end', () => {
+        let body: unknown
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}')
+        } catch {
+          reject(new HttpError(400, 'Request body must be valid JSON.'))
+          return
+        }
+        // null, numbers and arrays parse fine but have none of the fields the handlers read
+        if (isJsonObject(body)) resolve(body)
+        else reject(new HttpError(400, 'Request body must be a JSON object.'))
+      })
+      req.on('error', reject)
+    })
+  }
+
+  const applyRateLimit = (limiter: RateLimiter, req: IncomingMessage, res: ServerResponse): void => {
+    const result = limiter.check(clientId(req))
+    res.setHeader('X-RateLimit-Limit', result.limit)
+    res.setHeader('X-RateLimit-Remaining', result.remaining)
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000)
+      res.setHeader('Retry-After', retryAfterSeconds)
+      throw new HttpError(429, `Rate limit exceeded. Please wait ${retryAfterSeconds}s and try again.`)
+    }
+  }
+
+  const parseMessages = (value: unknown): LLMMessage[] => {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new HttpError(400, '"messages" must be a non-empty array.')
+    }
+    if (value.length > config.maxMessages) {
+      throw new HttpError(400, `At most ${config.maxMessages} messages are allowed per request.`)
+    }
+    const messages = value.map((message: unknown, index): LLMMessage => {
+      if (!isJsonObject(message) || typeof message.content !== 'string') {
+        throw new HttpError(400, `Message ${index} must be an object with string content.`)
+      }
+      if (message.role === 'system') {
+        throw new HttpError(400, 'System messages are not accepted; the server builds the system prompt.')
+      }
+      if (typeof message.role !== 'string' || !MESSAGE_ROLES.has(message.role)) {
+        throw new HttpError(400, `Message ${index} must have the role user or assistant.`)
+      }
+      if (message.content.length > config.maxMessageChars) {
+        throw new HttpError(400, `Message ${index} exceeds ${config.maxMessageChars} characters.`)
+      }
+      return { role: message.role as LLMMessage['role'], content: message.content }
+    })
+    if (messages[messages.length - 1].role !== 'user') {
+      throw new HttpError(400, 'The last message must be from the user.')
+    }
+    return messages
+  }
+
+  const parseQuery = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new HttpError(400, `"${field}" must be a non-empty string.`)
+    }
+    if (value.length > config.maxMessageChars) {
+      throw new HttpError(400, `"${field}" exceeds ${config.maxMessageChars} characters.`)
+    }
+    return value
+  }
+
+  const parseDatasetId = (value: unknown, field: string): string | undefined => {
+    if (value === undefined) return undefined
+    if (typeof value !== 'string' || !value || value.length > MAX_DATASET_ID_CHARS) {
+      throw new HttpError(400, `"${field}" must be a dataset id.`)
+    }
+    return value
+  }
+
+  // Graph context a browser built from a dataset the server does not have
+  const parseGraphContext = (value: unknown): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new HttpError(400, '"graph.context" must be a non-empty string.')
+    }
+    if (value.length > config.maxGraphContextChars) {
+      throw new HttpError(400, `"graph.context" exceeds ${config.maxGraphContextChars} characters.`)
+    }
+    return value
+  }
+
+  // System prompt with the graph context for the question (or the resolved follow-up the client sends),
+  // looked up in the client's active dataset when it is bundled, otherwise taken from the client
+  const buildChatMessages = (body: JsonObject): LLMMessage[] => {
+    const turns = parseMessages(body.messages)
+    if (body.graph !== undefined && !isJsonObject(body.graph)) {
+      throw new HttpError(400, '"graph" must be an object.')
+    }
+    const graph = body.graph || {}
+    const datasetId = parseDatasetId(graph.dataset, 'graph.dataset')
+    const service = graphServiceFor(datasetId)
+
+    let knowledgeContext: string
+    if (service) {
+      const query = graph.query === undefined ? turns[turns.length - 1].content : parseQuery(graph.query, 'graph.query')
+      const { nodes, relations, context, paths } = service.queryKnowledgeGraph(query, { focus: parseFocus(graph.focus, service) })
+      knowledgeContext = service.formatKnowledgeForAI(nodes, relations, context, paths)
+    } else if (graph.context !== undefined) {
+      knowledgeContext = parseGraphContext(graph.context)
+    } else {
+      throw new HttpError(400, `The server does not have dataset "${datasetId}"; send the graph context built for it as "graph.context".`)
+    }
+    return [{ role: 'system', content: buildSystemPrompt(knowledgeContext) }, ...turns]
+  }
+
+  const handleChat = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    applyRateLimit(chatLimiter, req, res)
+    const body = await readJsonBody(req)
+    const messages = buildChatMessages(body)
+
+    try {
+      llmProvider.validate()
+    } catch (error: any) {
+      throw new HttpError(503, error.message)
+    }
+
+    // Stop the upstream request when the browser cancels or disconnects
+    const abortController = new AbortController()
+    res.on('close', () => {
+      if (!res.writableFinished) abortController.abort()
+    })
+
+    let started = false
+    try {
+      const stream = llmProvider.stream({
+        messages,
+        maxTokens: clamp(body.maxTokens, 1, config.llm.maxTokens),
+        temperature: clamp(body.temperature, 0, 2),
+        signal: abortController.signal
+      })
+      for await (const delta of stream) {
+        if (!started) {
+          res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no' })
+          started = true
+        }
+        res.write(delta)
+      }
+      if (!started) {
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' })
+      }
+      res.end()
+    } catch (error: any) {
+      if (abortController.signal.aborted) return
+      if (started) {
+        // Headers are gone; cut the stream so the client keeps its partial answer and reports the failure
+        console.error('❌ LLM stream failed mid-answer:', error.message)
+        res.destroy(error)
+        return
+      }
+      // Pass upstream statuses (401, 429, 500) through so the client can explain them
+      const status = typeof error.status === 'number' ? error.status : 502
+      throw new HttpError(status, error.message || 'The language model request failed.')
+    }
+  }
+
+  const handleGraphQuery = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    applyRateLimit(graphLimiter, req, res)
+    const body = await readJsonBody(req)
+    const query = parseQuery(body.query, 'query')
+    const datasetId = parseDatasetId(body.dataset, 'dataset')
+    const service = graphServiceFor(datasetId)
+    if (!service) {
+      throw new HttpError(404, `The server does not have dataset "${datasetId}".`)
+    }
+    const focus = parseFocus(body.focus, service)
+
+    const { nodes, relations, context, paths } = service.queryKnowledgeGraph(query, { focus })
+    sendJson(res, 200, {
+      nodes,
+      relations,
+      context,
+      paths,
+      knowledgeContext: service.formatKnowledgeForAI(nodes, relations, context, paths),
+      suggestions: service.suggestCorrections(query)
+    })
+  }
+
+  const routes: { [route: string]: (req: IncomingMessage, res: ServerResponse) => Promise<void> } = {
+    'POST /api/chat': handleChat,
+    'POST /api/graph/query': handleGraphQuery,
+    'GET /api/health': async (_req, res) => sendJson(res, 200, { status: 'ok', provider: llmProvider.name, model: llmProvider.model })
+  }
+
+  const server = createServer(async (req, res) => {
+    const path = (req.url || '/').split('?')[0]
+
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin)
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+      res.setHeader('Vary', 'Origin')
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204)
+      res.end()
+      return
+    }
+
+    const handler = routes[`${req.method} ${path}`]
+    try {
+      if (!handler) throw new HttpError(404, `No route for ${req.method} ${path}`)
+      await handler(req, res)
+    } catch (error: any) {
+      const status = error instanceof HttpError ? error.status : 500
+      if (status >= 500) console.error(`❌ ${req.method} ${path} failed:`, error)
+      if (!res.headersSent) {
+        sendJson(res, status, { error: error instanceof HttpError ? error.message : 'Internal server error' })
+      } else {
+        res.end()
+      }
+    }
+  })
+
+  // Drop idle clients from the rate limiters once per window
+  const pruneTimer = setInterval(() => {
+    chatLimiter.prune()
+    graphLimiter.prune()
+  }, config.rateLimitWindowMs)
+  pruneTimer.unref()
+  server.on('close', () => clearInterval(pruneTimer))
+
+  return server
+}
@@ -0,0 +1,55 @@
+import { loadEnv } from 'vite'
+import { LLMConfig, readLLMConfig } from '../src/services/llmProvider'
+
+export interface ServerConfig {
+  port: number
+  host: string
+  llm: LLMConfig
+  // Requests per client per window for each endpoint
+  chatRateLimit: number
+  graphRateLimit: number
+  rateLimitWindowMs: number
+  // Use the first X-Forwarded-For address as the client id (only behind a trusted proxy)
+  trustProxy: boolean
+  // Origin allowed to call the API cross-origin; unset means same-origin only
+  allowedOrigin?: string
+  maxBodyBytes: number
+  maxMessages: number
+  // Per chat message, and for graph queries
+  maxMessageChars: number
+  // Graph context a client sends for a dataset the server does not have
+  maxGraphContextChars: number
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value)
+  return value !== undefined && value.trim() !== '' && Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * Server settings from the environment and the frontend's .env files.
+ * Unlike the browser build, the server reads unprefixed variables such as
+ * OPENAI_API_KEY, which Vite never exposes to client code.
+ */
+export const loadServerConfig = (mode: string = process.env.NODE_ENV || 'development'): ServerConfig => {
+  const env = { ...loadEnv(mode, process.cwd(), ''), ...process.env }
+
+  if (env.VITE_OPENAI_API_KEY && !env.OPENAI_API_KEY) {
+    console.warn('⚠️ Found VITE_OPENAI_API_KEY but no OPENAI_API_KEY. VITE_ variables are bundled into the browser build; rename it to OPENAI_API_KEY.')
+  }
+
+  return {
+    port: readNumber(env.PORT, 8787),
+    host: env.HOST || '0.0.0.0',
+    llm: readLLMConfig(env, ''),
+    chatRateLimit: readNumber(env.CHAT_RATE_LIMIT, 20),
+    graphRateLimit: readNumber(env.GRAPH_RATE_LIMIT, 120),
+    rateLimitWindowMs: readNumber(env.RATE_LIMIT_WINDOW_MS, 60_000),
+    trustProxy: env.TRUST_PROXY === 'true',
+    allowedOrigin: env.ALLOWED_ORIGIN || undefined,
+    maxBodyBytes: readNumber(env.MAX_BODY_BYTES, 256 * 1024),
+    maxMessages: readNumber(env.MAX_CHAT_MESSAGES, 40),
+    maxMessageChars: readNumber(env.MAX_CHAT_MESSAGE_CHARS, 8000),
+    maxGraphContextChars: readNumber(env.MAX_GRAPH_CONTEXT_CHARS, 32000)
+  }
+}
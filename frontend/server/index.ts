@@ -0,0 +1,31 @@
+/**
+ * OncoGraph API Server
+ * Keeps the LLM API key off the browser: the frontend sends chat requests here
+ * and the server calls the configured provider, streaming the answer back as text.
+ *
+ *   POST /api/chat         { messages, graph?, maxTokens?, temperature? } -> text/plain stream
+ *   POST /api/graph/query  { query, dataset?, focus? }                    -> graph query result as JSON
+ *   GET  /api/health
+ *
+ * Chat clients send user and assistant turns only; the system prompt is built here.
+ * For a bundled dataset (`graph.dataset`, the core graph by default) the server looks up
+ * `graph.query` (the last user turn by default) in its own copy. For a dataset only the
+ * browser has, loaded from a URL or file, the client sends the context it built as
+ * `graph.context`, capped at MAX_GRAPH_CONTEXT_CHARS. Either way the context goes into the
+ * server's prompt, so the key cannot be spent on arbitrary prompts.
+ *
+ * Usage: npm run server
+ */
+
+import { createLLMProvider } from '../src/services/llmProvider'
+import { createApiServer } from './app'
+import { loadServerConfig } from './config'
+
+const config = loadServerConfig()
+const llmProvider = createLLMProvider(config.llm)
+
+createApiServer(config, llmProvider).listen(config.port, config.host, () => {
+  console.log(`🚀 OncoGraph server listening on http://${config.host}:${config.port}`)
+  console.log(`🤖 LLM provider: ${llmProvider.name} (${llmProvider.model})`)
+  console.log(`🚦 Rate limits per client: ${config.chatRateLimit} chat / ${config.graphRateLimit} graph requests per ${config.rateLimitWindowMs / 1000}s`)
+})
@@ -0,0 +1,41 @@
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Milliseconds until the client may retry (0 when allowed)
+  retryAfterMs: number
+}
+
+/**
+ * Sliding-window request limiter keyed by client.
+ * Keeps the timestamps of each client's requests inside the window, so a
+ * burst at the end of one minute cannot be followed by a full burst at the
+ * start of the next.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>()
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  public check(clientId: string, now: number = Date.now()): RateLimitResult {
+    const windowStart = now - this.windowMs
+    const recent = (this.hits.get(clientId) || []).filter(time => time > windowStart)
+
+    if (recent.length >= this.limit) {
+      this.hits.set(clientId, recent)
+      return { allowed: false, limit: this.limit, remaining: 0, retryAfterMs: recent[0] + this.windowMs - now }
+    }
+
+    recent.push(now)
+    this.hits.set(clientId, recent)
+    return { allowed: true, limit: this.limit, remaining: this.limit - recent.length, retryAfterMs: 0 }
+  }
+
+  // Forget clients with no requests inside the window, so memory stays bounded
+  public prune(now: number = Date.now()): void {
+    const windowStart = now - this.windowMs
+    this.hits.forEach((times, clientId) => {
+      if (times[times.length - 1] <= windowStart) this.hits.delete(clientId)
+    })
+  }
+}
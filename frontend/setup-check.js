@@ -98,7 +98,9 @@ const requiredFiles = [
   'src/components/ChatInput.tsx',
   'src/components/KnowledgeGraphVisualization.tsx',
   'src/services/knowledgeGraphService.ts',
-  'src/knowledge_graph_enhanced.json'
+  'src/knowledge_graph_enhanced.json',
+  'src/entity_synonyms.json',
+  'server/index.ts'
 ];
 
 for (const file of requiredFiles) {
@@ -121,11 +123,15 @@ if (envCheck.exists) {
   // Check if API key is set
   try {
     const envContent = fs.readFileSync('.env', 'utf8');
-    if (envContent.includes('VITE_OPENAI_API_KEY=') && !envContent.includes('your_openai_api_key_here')) {
+    if (/^OPENAI_API_KEY=/m.test(envContent) && !envContent.includes('your_openai_api_key_here')) {
       log(`${checkMark} OpenAI API key configured`, 'green');
     } else {
       log(`${warningMark} OpenAI API key not set properly`, 'yellow');
-      log('   Please update VITE_OPENAI_API_KEY in .env file', 'yellow');
+      log('   Please set OPENAI_API_KEY in .env file (read by the server, never bundled)', 'yellow');
+    }
+    if (/^VITE_OPENAI_API_KEY=/m.test(envContent)) {
+      log(`${warningMark} VITE_OPENAI_API_KEY would be bundled into the browser build`, 'yellow');
+      log('   Rename it to OPENAI_API_KEY', 'yellow');
     }
   } catch (error) {
     log(`${warningMark} Could not read .env file`, 'yellow');
@@ -135,7 +141,7 @@ if (envCheck.exists) {
   log('   Creating template .env file...', 'yellow');
   
   try {
-    fs.writeFileSync('.env', 'VITE_OPENAI_API_KEY=your_openai_api_key_here\n');
+    fs.writeFileSync('.env', 'OPENAI_API_KEY=your_openai_api_key_here\n');
     log(`${checkMark} Template .env file created`, 'green');
     log('   Please update with your actual OpenAI API key', 'yellow');
   } catch (error) {
@@ -1,8 +1,15 @@
 import { useState, useRef, useEffect } from 'react'
 import ChatMessage from './components/ChatMessage'
 import ChatInput from './components/ChatInput'
-import OpenAI from 'openai'
-import { knowledgeGraphService } from './services/knowledgeGraphService'
+import DatasetSelector from './components/DatasetSelector'
+import ProfileMatchPanel from './components/ProfileMatchPanel'
+import EntityDetails from './components/EntityDetails'
+import { GraphHighlight } from './components/KnowledgeGraphVisualization'
+import { AnswerVerification, DatasetInfo, EntitySuggestion, KnowledgeNode, knowledgeGraphService, ProfileMatchResult } from './services/knowledgeGraphService'
+import { ConversationMemory } from './services/conversationMemory'
+import { createLLMProvider, readLLMConfig } from './services/llmProvider'
+import { buildGraphContextRequest, buildSystemPrompt } from './services/chatPrompt'
+import { formatQueryError, formatQueryResult, GraphQueryError, QUERY_HELP, QUERY_PREFIX } from './services/graphQuery'
 
 export interface Message {
   id: string
@@ -12,45 +19,52 @@ export interface Message {
   graphData?: {
     nodes: any[]
     edges: any[]
+    highlights?: GraphHighlight[]
   }
+  suggestions?: EntitySuggestion[]
+  // True while tokens are still arriving
+  isStreaming?: boolean
+  // Why a bot answer stopped early; whatever text arrived is kept
+  interruption?: 'cancelled' | 'failed'
+  // The finished answer's claims checked against the knowledge graph
+  verification?: AnswerVerification
 }
 
-// Initialize OpenAI client with error handling
-let openai: OpenAI | null = null;
-
-try {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  if (apiKey && apiKey !== 'your_openai_api_key_here') {
-    openai = new OpenAI({
-      apiKey: apiKey,
-      dangerouslyAllowBrowser: true
-    });
-  }
-} catch (error) {
-  console.error('Failed to initialize OpenAI client:', error);
-}
+// LLM provider chosen by VITE_LLM_* settings: the OncoGraph server proxy by default, or the offline mock.
+// Only these variables are passed on, so no API key can end up in the browser bundle.
+const llmConfig = readLLMConfig({
+  VITE_LLM_PROVIDER: import.meta.env.VITE_LLM_PROVIDER,
+  VITE_LLM_BASE_URL: import.meta.env.VITE_LLM_BASE_URL,
+  VITE_LLM_MAX_TOKENS: import.meta.env.VITE_LLM_MAX_TOKENS,
+  VITE_LLM_TEMPERATURE: import.meta.env.VITE_LLM_TEMPERATURE,
+  VITE_LLM_MOCK_DELAY_MS: import.meta.env.VITE_LLM_MOCK_DELAY_MS
+}, 'VITE_', 'proxy')
+const llmProvider = createLLMProvider(llmConfig)
 
 // Enhanced debug function with system info
-const debugApiKey = () => {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY
+const debugEnvironment = () => {
   console.log('🔍 Environment Debug Info:')
   console.log('- Platform:', navigator.platform)
   console.log('- User Agent:', navigator.userAgent.substring(0, 50) + '...')
-  console.log('- API Key exists:', !!apiKey)
-  console.log('- API Key length:', apiKey?.length || 0)
-  console.log('- API Key format valid:', apiKey?.startsWith('sk-') || false)
-  console.log('- API Key is placeholder:', apiKey === 'your_openai_api_key_here')
-  console.log('- OpenAI client initialized:', !!openai)
+  console.log('- LLM provider:', llmProvider.name, `(${llmProvider.model})`)
+  console.log('- Server:', llmConfig.baseURL || 'same origin')
 }
 
 function App() {
   const [messages, setMessages] = useState<Message[]>([])
   const [isTyping, setIsTyping] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const memoryRef = useRef(new ConversationMemory(knowledgeGraphService))
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [datasets, setDatasets] = useState(() => knowledgeGraphService.listDatasets())
+  const [activeDatasetId, setActiveDatasetId] = useState(() => knowledgeGraphService.getActiveDataset()?.id)
+  const [showProfilePanel, setShowProfilePanel] = useState(false)
+  const [profileMatch, setProfileMatch] = useState<ProfileMatchResult | null>(null)
+  const [entityRequest, setEntityRequest] = useState<{ nodeId: string } | null>(null)
   
-  // Debug API key on component mount
+  // Debug environment on component mount
   useEffect(() => {
-    debugApiKey()
+    debugEnvironment()
   }, [])
 
   const scrollToBottom = () => {
@@ -61,6 +75,75 @@ function App() {
     scrollToBottom()
   }, [messages])
 
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...changes } : message))
+  }
+
+  // Entities remembered from the previous graph may not exist in the new one, so start a fresh conversation
+  const announceDataset = (info: DatasetInfo) => {
+    memoryRef.current.clear()
+    setProfileMatch(null)
+    setEntityRequest(null)
+    setDatasets(knowledgeGraphService.listDatasets())
+    setActiveDatasetId(info.id)
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      text: `📚 Now answering from **${info.name}** (${info.nodeCount} nodes, ${info.edgeCount} relationships).`,
+      isUser: false,
+      timestamp: new Date()
+    }])
+  }
+
+  const handleSelectDataset = (id: string) => {
+    announceDataset(knowledgeGraphService.setActiveDataset(id))
+  }
+
+  const handleLoadDatasetUrl = async (url: string) => {
+    announceDataset(await knowledgeGraphService.loadDatasetFromUrl(url))
+  }
+
+  const handleLoadDatasetFile = async (file: File) => {
+    announceDataset(await knowledgeGraphService.loadDatasetFromFile(file))
+  }
+
+  const handleMatchProfile = (profile: string) => {
+    setProfileMatch(knowledgeGraphService.matchPatientProfile(profile))
+  }
+
+  // The side column holds one panel at a time
+  const handleToggleProfilePanel = () => {
+    setShowProfilePanel(!showProfilePanel)
+    setEntityRequest(null)
+  }
+
+  const handleOpenProfile = (node: KnowledgeNode) => {
+    setShowProfilePanel(false)
+    setEntityRequest({ nodeId: node.id })
+  }
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // "/q MATCH ..." runs a graph query directly, without the LLM
+  const runGraphQuery = (text: string) => {
+    const query = text.slice(QUERY_PREFIX.length).trim()
+    const reply: Message = { id: (Date.now() + 1).toString(), text: QUERY_HELP, isUser: false, timestamp: new Date() }
+
+    if (query && query.toLowerCase() !== 'help') {
+      try {
+        const result = knowledgeGraphService.runQuery(query)
+        console.log('🔎 Graph query:', { query, matches: result.matches.length, truncated: result.truncated })
+        reply.text = formatQueryResult(result)
+        reply.graphData = { nodes: result.nodes, edges: result.relations }
+      } catch (error) {
+        if (!(error instanceof GraphQueryError)) throw error
+        reply.text = `⚠️ ${formatQueryError(error, query)}\n\nType ${QUERY_PREFIX} help for the syntax.`
+      }
+    }
+    setMessages(prev => [...prev, reply])
+  }
+
   const handleSendMessage = async (text: string) => {
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -70,111 +153,113 @@ function App() {
     }
 
     setMessages(prev => [...prev, userMessage])
+
+    if (text === QUERY_PREFIX || text.startsWith(`${QUERY_PREFIX} `)) {
+      runGraphQuery(text)
+      return
+    }
+
     setIsTyping(true)
 
+    const botMessageId = (Date.now() + 1).toString()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    let botMessageAdded = false
+    let botResponse = ''
+    let resolvedQuery = text
+    let graphNodes: KnowledgeNode[] = []
+
     try {
-      // Check API key first
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY
-      if (!apiKey || apiKey === 'your_openai_api_key_here') {
-        throw new Error('OpenAI API key is not configured. Please check your .env file and set VITE_OPENAI_API_KEY.')
-      }
-      
-      if (!apiKey.startsWith('sk-')) {
-        throw new Error('Invalid OpenAI API key format. The key should start with "sk-".')
-      }
+      // Check the provider configuration (API key, endpoint) first
+      llmProvider.validate()
 
-      if (!openai) {
-        throw new Error('OpenAI client is not initialized. Please check your API key configuration.')
-      }
+      // Resolve follow-ups ("what drugs target it?") against earlier turns
+      const memory = memoryRef.current
+      const resolved = memory.resolve(text)
+      resolvedQuery = resolved.query
 
       // Query the knowledge graph for relevant information
-      const { nodes, relations, context } = knowledgeGraphService.queryKnowledgeGraph(text)
-      const knowledgeContext = knowledgeGraphService.formatKnowledgeForAI(nodes, relations, context)
+      const { nodes, relations, context, paths, combination } = knowledgeGraphService.queryKnowledgeGraph(resolved.query, { focus: resolved.focus })
+      const knowledgeContext = knowledgeGraphService.formatKnowledgeForAI(nodes, relations, context, paths)
+      const suggestions = knowledgeGraphService.suggestCorrections(text)
+      graphNodes = nodes
+
+      // Attach the graph straight away; the answer streams in underneath it
+      setMessages(prev => [...prev, {
+        id: botMessageId,
+        text: '',
+        isUser: false,
+        timestamp: new Date(),
+        graphData: {
+          nodes: nodes,
+          edges: relations,
+          // Combination answers ring what each drug reaches
+          highlights: combination?.drugs.map(reach => ({ id: reach.drug.id, label: reach.drug.label, nodeIds: reach.nodeIds }))
+        },
+        suggestions,
+        isStreaming: true
+      }])
+      botMessageAdded = true
       
       console.log('🔍 Graph query results:', {
-        query: text,
+        query: resolved.query,
         nodesFound: nodes.length,
         relationsFound: relations.length,
         nodeTypes: nodes.map(n => n.type),
         nodeLabels: nodes.map(n => n.label)
       })
       
-      // Create system prompt with knowledge graph context
-      const systemPrompt = `You are a specialized biomedical AI assistant with access to a curated oncology knowledge graph. Your role is to answer questions about genes, drugs, pathways, biomarkers, and diseases based on the provided knowledge graph data.
-
-RESPONSE FORMAT REQUIREMENTS:
-- Always structure your responses with clear headings and bullet points
-- Use numbered lists for sequential information
-- Use bullet points (•) for related items
-- Include clear section headers like "Overview:", "Key Functions:", "Related Entities:", etc.
-- Break down complex information into digestible points
-- Highlight important terms and relationships
-- Use consistent formatting throughout
-
-CONTENT GUIDELINES:
-1. Use the provided knowledge graph data to answer questions about:
-   • Specific genes (e.g., FGFR1, MYC, EGFR, BRCA1, etc.)
-   • Drugs and their targets
-   • Pathways and signaling networks
-   • Biomarkers and their associations
-   • Cancer types and related entities
-
-2. Structure every response with:
-   • **Overview:** Brief introduction to the topic
-   • **Key Details:** Main points organized as bullet points
-   • **Relationships:** How entities connect to each other
-   • **Clinical Relevance:** Medical significance when applicable
-
-3. When describing entities from the knowledge graph:
-   • Explain their primary functions
-   • List their connections and relationships
-   • Highlight therapeutic targets and biomarkers
-   • Reference specific pathways and disease associations
-
-4. Format guidelines:
-   • Use **bold** for entity names and important terms
-   • Use bullet points for lists of related items
-   • Use numbered lists for processes or sequential steps
-   • Include clear section breaks with headers
-
-5. If information is incomplete, acknowledge limitations but provide available data
-6. Only respond with "I'm sorry, I can only answer questions related to the provided knowledge base" if the question is completely unrelated to oncology/biology OR if no relevant entities are found
-
-KNOWLEDGE GRAPH DATA:
-${knowledgeContext}`
-
-      // Send message to OpenAI with knowledge graph context
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      // The proxy provider drops this and sends `graph` instead: the server builds its own system prompt from the same dataset
+      const systemPrompt = buildSystemPrompt(knowledgeContext)
+
+      // Stream the answer from the LLM with knowledge graph context
+      const stream = llmProvider.stream({
         messages: [
           {
             role: "system",
             content: systemPrompt
           },
+          ...memory.getHistory(),
           {
             role: "user",
             content: text
           }
         ],
-        max_tokens: 1000,
-        temperature: 0.3
+        graph: buildGraphContextRequest(knowledgeGraphService.getActiveDataset(), resolved.query, resolved.focus, knowledgeContext),
+        signal: abortController.signal
       })
 
-      const botResponse = completion.choices[0]?.message?.content || "Sorry, I couldn't generate a response."
-      
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: botResponse,
-        isUser: false,
-        timestamp: new Date(),
-        graphData: {
-          nodes: nodes,
-          edges: relations
-        }
+      for await (const delta of stream) {
+        botResponse += delta
+        updateMessage(botMessageId, { text: botResponse })
       }
-      setMessages(prev => [...prev, botMessage])
+
+      if (!botResponse) {
+        botResponse = "Sorry, I couldn't generate a response."
+      }
+      updateMessage(botMessageId, { text: botResponse, isStreaming: false, verification: knowledgeGraphService.verifyAnswer(botResponse, graphNodes) })
+      memory.recordTurn(text, resolvedQuery, botResponse, graphNodes)
     } catch (error: any) {
-      console.error('OpenAI API error:', error)
+      // Stopped by the user: keep what arrived so far
+      if (abortController.signal.aborted) {
+        console.log('⏹️ Generation cancelled by user')
+        if (botMessageAdded) {
+          updateMessage(botMessageId, { text: botResponse, isStreaming: false, interruption: 'cancelled' })
+        }
+        if (botResponse) {
+          memoryRef.current.recordTurn(text, resolvedQuery, botResponse, graphNodes)
+        }
+        return
+      }
+
+      console.error(`LLM provider error (${llmProvider.name}):`, error)
+
+      // The connection dropped mid-answer: keep the partial text rather than replacing it
+      if (botMessageAdded && botResponse) {
+        updateMessage(botMessageId, { text: botResponse, isStreaming: false, interruption: 'failed' })
+        memoryRef.current.recordTurn(text, resolvedQuery, botResponse, graphNodes)
+        return
+      }
       
       let errorText = 'Sorry, I encountered an error.'
       
@@ -192,14 +277,21 @@ ${knowledgeContext}`
         errorText = `Error: ${error.message}`
       }
       
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: errorText,
-        isUser: false,
-        timestamp: new Date()
+      if (botMessageAdded) {
+        updateMessage(botMessageId, { text: errorText, isStreaming: false })
+      } else {
+        const errorMessage: Message = {
+          id: botMessageId,
+          text: errorText,
+          isUser: false,
+          timestamp: new Date()
+        }
+        setMessages(prev => [...prev, errorMessage])
       }
-      setMessages(prev => [...prev, errorMessage])
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
       setIsTyping(false)
     }
   }
@@ -207,72 +299,122 @@ ${knowledgeContext}`
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800">
       {/* Header */}
-      <div className="bg-black/80 border-b border-cyan-500/30 px-4 py-3 shadow-lg backdrop-blur-sm">
-        <h1 className="text-lg sm:text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 animate-pulse">OncoGraph Knowledge Assistant</h1>
-        <p className="text-xs sm:text-sm text-cyan-300/80 font-mono">Ask questions about cancer biology, pathways, drugs, and biomarkers</p>
+      <div className="bg-black/80 border-b border-cyan-500/30 px-4 py-3 shadow-lg backdrop-blur-sm flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-lg sm:text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 animate-pulse">OncoGraph Knowledge Assistant</h1>
+          <p className="text-xs sm:text-sm text-cyan-300/80 font-mono">Ask questions about cancer biology, pathways, drugs, and biomarkers</p>
+        </div>
+        <div className="flex items-start gap-2">
+          <button
+            onClick={handleToggleProfilePanel}
+            className={`px-2 py-1 border rounded-lg text-xs font-mono transition-all duration-200 touch-manipulation ${showProfilePanel ? 'bg-purple-500/20 border-purple-400/50 text-purple-200' : 'bg-cyan-500/10 border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/20'}`}
+            title="Match a tumour profile against the graph"
+            aria-pressed={showProfilePanel}
+          >
+            🧾 <span className="hidden sm:inline">Profile</span>
+          </button>
+          <DatasetSelector
+            datasets={datasets}
+            activeId={activeDatasetId}
+            onSelect={handleSelectDataset}
+            onLoadUrl={handleLoadDatasetUrl}
+            onLoadFile={handleLoadDatasetFile}
+          />
+        </div>
       </div>
 
-      {/* Messages Container */}
-      <div className="flex-1 overflow-y-auto px-2 sm:px-4 py-4 sm:py-6">
-        <div className="max-w-3xl mx-auto space-y-4">
-          {messages.length === 0 && (
-            <div className="text-center text-cyan-400 mt-8 sm:mt-20">
-              <div className="text-4xl sm:text-6xl mb-4 sm:mb-6 dna-glow">🧬</div>
-              <h2 className="text-xl sm:text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 via-purple-500 to-pink-500 mb-4">Welcome to OncoGraph Knowledge Assistant!</h2>
-              <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4 sm:p-6 mx-auto max-w-2xl backdrop-blur-sm">
-                <p className="text-cyan-300 font-mono mb-4">Ask questions about cancer biology, genes, pathways, drugs, and biomarkers.</p>
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
-                  <button 
-                    className="bg-gradient-to-r from-cyan-500/10 to-blue-500/10 border border-cyan-500/20 rounded-lg px-4 py-3 hover:from-cyan-500/20 hover:to-blue-500/20 hover:border-cyan-400/40 transition-all duration-200 cursor-pointer focus:outline-none focus:ring-2 focus:ring-cyan-400/50 active:scale-95 touch-manipulation"
-                    onClick={() => handleSendMessage("What is EGFR?")}
-                    aria-label="Ask about EGFR"
-                  >
-                    <span className="text-cyan-400">"What is EGFR?"</span>
-                  </button>
-                  <button 
-                    className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 border border-purple-500/20 rounded-lg px-4 py-3 hover:from-purple-500/20 hover:to-pink-500/20 hover:border-purple-400/40 transition-all duration-200 cursor-pointer focus:outline-none focus:ring-2 focus:ring-purple-400/50 active:scale-95 touch-manipulation"
-                    onClick={() => handleSendMessage("Tell me about PI3K pathway")}
-                    aria-label="Ask about PI3K pathway"
-                  >
-                    <span className="text-purple-400">"Tell me about PI3K pathway"</span>
-                  </button>
-                  <button 
-                    className="bg-gradient-to-r from-pink-500/10 to-red-500/10 border border-pink-500/20 rounded-lg px-4 py-3 hover:from-pink-500/20 hover:to-red-500/20 hover:border-pink-400/40 transition-all duration-200 cursor-pointer focus:outline-none focus:ring-2 focus:ring-pink-400/50 active:scale-95 touch-manipulation sm:col-span-2 lg:col-span-1"
-                    onClick={() => handleSendMessage("Drugs for lung cancer")}
-                    aria-label="Ask about drugs for lung cancer"
-                  >
-                    <span className="text-pink-400">"Drugs for lung cancer"</span>
-                  </button>
+      <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+        <div className="flex-1 flex flex-col min-h-0 min-w-0">
+          {/* Messages Container */}
+          <div className="flex-1 overflow-y-auto px-2 sm:px-4 py-4 sm:py-6">
+            <div className="max-w-3xl mx-auto space-y-4">
+              {messages.length === 0 && (
+                <div className="text-center text-cyan-400 mt-8 sm:mt-20">
+                  <div className="text-4xl sm:text-6xl mb-4 sm:mb-6 dna-glow">🧬</div>
+                  <h2 className="text-xl sm:text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 via-purple-500 to-pink-500 mb-4">Welcome to OncoGraph Knowledge Assistant!</h2>
+                  <div className="bg-black/40 border border-cyan-500/30 rounded-lg p-4 sm:p-6 mx-auto max-w-2xl backdrop-blur-sm">
+                    <p className="text-cyan-300 font-mono mb-4">Ask questions about cancer biology, genes, pathways, drugs, and biomarkers.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-sm">
+                      <button 
+                        className="bg-gradient-to-r from-cyan-500/10 to-blue-500/10 border border-cyan-500/20 rounded-lg px-4 py-3 hover:from-cyan-500/20 hover:to-blue-500/20 hover:border-cyan-400/40 transition-all duration-200 cursor-pointer focus:outline-none focus:ring-2 focus:ring-cyan-400/50 active:scale-95 touch-manipulation"
+                        onClick={() => handleSendMessage("What is EGFR?")}
+                        aria-label="Ask about EGFR"
+                      >
+                        <span className="text-cyan-400">"What is EGFR?"</span>
+                      </button>
+                      <button 
+                        className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 border border-purple-500/20 rounded-lg px-4 py-3 hover:from-purple-500/20 hover:to-pink-500/20 hover:border-purple-400/40 transition-all duration-200 cursor-pointer focus:outline-none focus:ring-2 focus:ring-purple-400/50 active:scale-95 touch-manipulation"
+                        onClick={() => handleSendMessage("Tell me about PI3K pathway")}
+                        aria-label="Ask about PI3K pathway"
+                      >
+                        <span className="text-purple-400">"Tell me about PI3K pathway"</span>
+                      </button>
+                      <button 
+                        className="bg-gradient-to-r from-pink-500/10 to-red-500/10 border border-pink-500/20 rounded-lg px-4 py-3 hover:from-pink-500/20 hover:to-red-500/20 hover:border-pink-400/40 transition-all duration-200 cursor-pointer focus:outline-none focus:ring-2 focus:ring-pink-400/50 active:scale-95 touch-manipulation sm:col-span-2 lg:col-span-1"
+                        onClick={() => handleSendMessage("Drugs for lung cancer")}
+                        aria-label="Ask about drugs for lung cancer"
+                      >
+                        <span className="text-pink-400">"Drugs for lung cancer"</span>
+                      </button>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          )}
+              )}
           
-          {messages.map((message) => (
-            <ChatMessage key={message.id} message={message} />
-          ))}
+              {messages.map((message) => (
+                <ChatMessage key={message.id} message={message} onSendMessage={handleSendMessage} onOpenProfile={handleOpenProfile} />
+              ))}
           
-          {isTyping && (
-            <div className="flex justify-start">
-              <div className="bg-gray-900/80 border border-cyan-500/30 rounded-2xl px-4 py-3 shadow-lg backdrop-blur-sm max-w-xs">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-cyan-400 rounded-full animate-bounce shadow-lg shadow-cyan-400/50"></div>
-                  <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce shadow-lg shadow-purple-400/50" style={{ animationDelay: '0.1s' }}></div>
-                  <div className="w-2 h-2 bg-pink-400 rounded-full animate-bounce shadow-lg shadow-pink-400/50" style={{ animationDelay: '0.2s' }}></div>
+              {isTyping && !messages.some(message => message.isStreaming) && (
+                <div className="flex justify-start">
+                  <div className="bg-gray-900/80 border border-cyan-500/30 rounded-2xl px-4 py-3 shadow-lg backdrop-blur-sm max-w-xs">
+                    <div className="flex space-x-1">
+                      <div className="w-2 h-2 bg-cyan-400 rounded-full animate-bounce shadow-lg shadow-cyan-400/50"></div>
+                      <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce shadow-lg shadow-purple-400/50" style={{ animationDelay: '0.1s' }}></div>
+                      <div className="w-2 h-2 bg-pink-400 rounded-full animate-bounce shadow-lg shadow-pink-400/50" style={{ animationDelay: '0.2s' }}></div>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          )}
+              )}
           
-          <div ref={messagesEndRef} />
-        </div>
-      </div>
+              <div ref={messagesEndRef} />
+            </div>
+          </div>
 
-      {/* Chat Input */}
-      <div className="bg-black/80 border-t border-cyan-500/30 px-4 py-4 shadow-lg backdrop-blur-sm">
-        <div className="max-w-3xl mx-auto">
-          <ChatInput onSendMessage={handleSendMessage} disabled={isTyping} />
+          {/* Chat Input */}
+          <div className="bg-black/80 border-t border-cyan-500/30 px-4 py-4 shadow-lg backdrop-blur-sm">
+            <div className="max-w-3xl mx-auto">
+              <ChatInput
+                onSendMessage={handleSendMessage}
+                disabled={isTyping}
+                isGenerating={messages.some(message => message.isStreaming)}
+                onCancel={handleCancelGeneration}
+              />
+            </div>
+          </div>
         </div>
+
+        {/* Profile matching sits beside the chat, below it on small screens */}
+        {showProfilePanel && (
+          <div className="lg:w-[28rem] max-h-[50vh] lg:max-h-none border-t lg:border-t-0 lg:border-l border-cyan-500/30 bg-black/70 backdrop-blur-sm p-4 overflow-hidden flex flex-col">
+            <ProfileMatchPanel
+              result={profileMatch}
+              onMatch={handleMatchProfile}
+              onClose={() => setShowProfilePanel(false)}
+            />
+          </div>
+        )}
+
+        {/* Entity profiles open from a graph node's "Full profile" button */}
+        {entityRequest && (
+          <div className="lg:w-[28rem] max-h-[50vh] lg:max-h-none border-t lg:border-t-0 lg:border-l border-cyan-500/30 bg-black/70 backdrop-blur-sm p-4 overflow-hidden flex flex-col">
+            <EntityDetails
+              request={entityRequest}
+              onAskAbout={node => handleSendMessage(`Tell me about ${node.label}`)}
+              onClose={() => setEntityRequest(null)}
+            />
+          </div>
+        )}
       </div>
     </div>
   )
@@ -3,9 +3,12 @@ import { useState, KeyboardEvent } from 'react'
 interface ChatInputProps {
   onSendMessage: (message: string) => void
   disabled?: boolean
+  // While an answer is streaming the send button becomes a stop button
+  isGenerating?: boolean
+  onCancel?: () => void
 }
 
-function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
+function ChatInput({ onSendMessage, disabled = false, isGenerating = false, onCancel }: ChatInputProps) {
   const [message, setMessage] = useState('')
 
   const handleSend = () => {
@@ -29,7 +32,7 @@ function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
           value={message}
           onChange={(e) => setMessage(e.target.value)}
           onKeyPress={handleKeyPress}
-          placeholder="Ask about cancer biology..."
+          placeholder="Ask about cancer biology, or /q help for graph queries..."
           disabled={disabled}
           rows={1}
           className="w-full px-3 sm:px-4 py-3 bg-gray-900/80 border border-cyan-500/30 rounded-2xl resize-none focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:border-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed text-cyan-100 placeholder-cyan-400/60 font-mono backdrop-blur-sm shadow-lg shadow-cyan-500/10 text-sm sm:text-base touch-manipulation"
@@ -39,6 +42,24 @@ function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
           }}
         />
       </div>
+      {isGenerating ? (
+      <button
+        onClick={onCancel}
+        className="bg-gradient-to-r from-pink-500 to-red-600 hover:from-pink-400 hover:to-red-500 text-white rounded-full p-3 transition-all duration-300 flex-shrink-0 shadow-lg shadow-pink-500/25 hover:shadow-pink-400/40 border border-pink-400/20 hover:scale-105 active:scale-95 touch-manipulation min-w-[52px] min-h-[52px]"
+        title="Stop generating"
+        aria-label="Stop generating"
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="currentColor"
+          className="drop-shadow-lg"
+        >
+          <rect x="6" y="6" width="12" height="12" rx="2"></rect>
+        </svg>
+      </button>
+      ) : (
       <button
         onClick={handleSend}
         disabled={!message.trim() || disabled}
@@ -59,6 +80,7 @@ function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
           <polygon points="22,2 15,22 11,13 2,9"></polygon>
         </svg>
       </button>
+      )}
     </div>
   )
 }
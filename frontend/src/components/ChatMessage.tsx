@@ -1,18 +1,30 @@
+import { useState } from 'react'
 import { Message } from '../App'
+import { KnowledgeNode } from '../services/knowledgeGraphService'
 import KnowledgeGraphVisualization from './KnowledgeGraphVisualization'
+import GroundingReport from './GroundingReport'
+import Markdown from './Markdown'
 
 interface ChatMessageProps {
   message: Message
+  onSendMessage?: (text: string) => void
+  onOpenProfile?: (node: KnowledgeNode) => void
 }
 
-function ChatMessage({ message }: ChatMessageProps) {
+function ChatMessage({ message, onSendMessage, onOpenProfile }: ChatMessageProps) {
   const hasGraphData = message.graphData && message.graphData.nodes.length > 0
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null)
+  const [detailsRequest, setDetailsRequest] = useState<{ nodeId: string } | null>(null)
 
-  // Function to parse markdown bold syntax and convert to HTML
-  const parseMarkdownText = (text: string) => {
-    // Replace **text** with <strong>text</strong>
-    const parsedText = text.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    return parsedText
+  const askAbout = (node: KnowledgeNode) => onSendMessage?.(`Tell me about ${node.label}`)
+
+  // Entities drawn in this message's graph open their details there; anything else becomes a follow-up
+  const handleEntityClick = (node: KnowledgeNode) => {
+    if (message.graphData?.nodes.some(candidate => candidate.id === node.id)) {
+      setDetailsRequest({ nodeId: node.id })
+    } else {
+      askAbout(node)
+    }
   }
 
   return (
@@ -24,24 +36,66 @@ function ChatMessage({ message }: ChatMessageProps) {
             : 'bg-gray-900/80 text-cyan-100 border border-purple-500/30 rounded-bl-md shadow-purple-500/20'
         }`}
       >
-        <div 
-          className="text-sm leading-relaxed whitespace-pre-wrap font-mono"
-          dangerouslySetInnerHTML={{ __html: parseMarkdownText(message.text) }}
-        />
+        {message.isStreaming && !message.text ? (
+          <div className="flex space-x-1 py-1">
+            <div className="w-2 h-2 bg-cyan-400 rounded-full animate-bounce shadow-lg shadow-cyan-400/50"></div>
+            <div className="w-2 h-2 bg-purple-400 rounded-full animate-bounce shadow-lg shadow-purple-400/50" style={{ animationDelay: '0.1s' }}></div>
+            <div className="w-2 h-2 bg-pink-400 rounded-full animate-bounce shadow-lg shadow-pink-400/50" style={{ animationDelay: '0.2s' }}></div>
+          </div>
+        ) : message.isUser ? (
+          <div className="text-sm leading-relaxed whitespace-pre-wrap font-mono">{message.text}</div>
+        ) : (
+          <div className="text-sm leading-relaxed font-mono">
+            {/* Entity chips once the answer is complete; linking every streamed token would be wasted work */}
+            {message.isStreaming
+              ? <Markdown text={message.text} />
+              : <Markdown text={message.text} onEntityHover={node => setFocusedNodeId(node?.id || null)} onEntityClick={handleEntityClick} />}
+            {message.isStreaming && <span className="animate-pulse text-cyan-400">▍</span>}
+          </div>
+        )}
+
+        {/* How much of the answer the knowledge graph backs up */}
+        {!message.isUser && !message.isStreaming && message.verification && (
+          <GroundingReport verification={message.verification} />
+        )}
+
+        {/* Partial answers are kept, with a note on why they stopped */}
+        {!message.isUser && message.interruption && (
+          <div className="mt-2 text-xs font-mono text-pink-300/80">
+            {message.interruption === 'cancelled'
+              ? '⏹️ Generation stopped.'
+              : '⚠️ Connection lost. The answer above is incomplete.'}
+          </div>
+        )}
         
+        {/* Ask the user to confirm low-confidence entity matches */}
+        {!message.isUser && message.suggestions && message.suggestions.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-2 text-xs font-mono">
+            {message.suggestions.map(suggestion => (
+              <button
+                key={suggestion.suggestion}
+                onClick={() => onSendMessage?.(suggestion.correctedQuery)}
+                className="px-2 py-1 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-300 hover:bg-purple-500/20 hover:border-purple-400/50 transition-all duration-200 touch-manipulation active:scale-95"
+                title={`Matched "${suggestion.text}" with ${Math.round(suggestion.confidence * 100)}% confidence`}
+              >
+                Did you mean <strong className="text-cyan-300">{suggestion.suggestion}</strong>?
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Show graph visualization for bot messages with graph data */}
         {!message.isUser && hasGraphData && message.graphData && (
           <div className="mt-4 border border-cyan-500/20 rounded-lg overflow-hidden">
+            {/* Pass graphData itself: a fresh object per streamed token would restart the layout */}
             <KnowledgeGraphVisualization 
-              data={{
-                nodes: message.graphData.nodes,
-                edges: message.graphData.edges
-              }}
+              data={message.graphData}
               width={700}
               height={500}
-              onNodeClick={(node) => {
-                console.log('Node clicked:', node)
-              }}
+              focusedNodeId={focusedNodeId}
+              detailsRequest={detailsRequest}
+              onAskAbout={onSendMessage && askAbout}
+              onOpenProfile={onOpenProfile}
             />
           </div>
         )}
@@ -0,0 +1,126 @@
+import { useRef, useState, ChangeEvent } from 'react'
+import { DatasetInfo } from '../services/knowledgeGraphService'
+
+interface DatasetSelectorProps {
+  datasets: DatasetInfo[]
+  activeId?: string
+  onSelect: (id: string) => void
+  onLoadUrl: (url: string) => Promise<void>
+  onLoadFile: (file: File) => Promise<void>
+}
+
+function DatasetSelector({ datasets, activeId, onSelect, onLoadUrl, onLoadFile }: DatasetSelectorProps) {
+  const [showLoader, setShowLoader] = useState(false)
+  const [url, setUrl] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const active = datasets.find(dataset => dataset.id === activeId)
+  const issueCount = active ? active.validation.errors.length + active.validation.warnings.length : 0
+
+  const runLoad = async (load: () => Promise<void>) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      await load()
+      setShowLoader(false)
+      setUrl('')
+    } catch (loadError: any) {
+      console.error('Dataset load failed:', loadError)
+      setError(loadError.message || 'Could not load the dataset.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) runLoad(() => onLoadFile(file))
+  }
+
+  const describe = (dataset: DatasetInfo) => [
+    dataset.meta.version && `v${dataset.meta.version}`,
+    dataset.meta.last_updated && `updated ${dataset.meta.last_updated}`,
+    `${dataset.nodeCount} nodes`
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div className="relative flex flex-col items-end text-xs font-mono">
+      <div className="flex items-center space-x-2">
+        <label htmlFor="dataset-select" className="text-cyan-300/80 hidden sm:inline">📚 Dataset</label>
+        <select
+          id="dataset-select"
+          value={activeId}
+          onChange={(e) => onSelect(e.target.value)}
+          disabled={isLoading}
+          className="bg-gray-900/80 border border-cyan-500/30 rounded-lg px-2 py-1 text-cyan-100 focus:outline-none focus:ring-2 focus:ring-cyan-400 max-w-[12rem] sm:max-w-xs"
+        >
+          {datasets.map(dataset => (
+            <option key={dataset.id} value={dataset.id}>
+              {dataset.name}{dataset.source !== 'bundled' ? ` (${dataset.source})` : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowLoader(!showLoader)}
+          className="px-2 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-lg text-cyan-300 hover:bg-cyan-500/20 transition-all duration-200 touch-manipulation"
+          title="Load a knowledge graph (JSON, SIF, GraphML, CSV or BioPAX) from a URL or file"
+          aria-label="Load a knowledge graph"
+        >
+          ＋
+        </button>
+      </div>
+
+      {active && (
+        <div
+          className="mt-1 text-cyan-400/70"
+          title={Array.isArray(active.meta.data_sources) ? `Sources: ${active.meta.data_sources.join(', ')}` : active.meta.description}
+        >
+          {describe(active)}
+          {issueCount > 0 && (
+            <span
+              className="ml-2 text-yellow-400"
+              title={[...active.validation.errors, ...active.validation.warnings].slice(0, 10).map(issue => `${issue.path}: ${issue.message}`).join('\n')}
+            >
+              ⚠️ {issueCount} issue{issueCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </div>
+      )}
+
+      {showLoader && (
+        <div className="absolute top-full right-0 mt-2 z-20 w-72 bg-black/95 border border-cyan-500/30 rounded-lg p-3 shadow-lg shadow-cyan-500/10 space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://…/knowledge_graph.json"
+              className="flex-1 min-w-0 bg-gray-900/80 border border-cyan-500/30 rounded px-2 py-1 text-cyan-100 placeholder-cyan-400/40 focus:outline-none focus:ring-1 focus:ring-cyan-400"
+            />
+            <button
+              onClick={() => runLoad(() => onLoadUrl(url.trim()))}
+              disabled={!url.trim() || isLoading}
+              className="px-2 py-1 bg-cyan-500/20 border border-cyan-500/30 rounded text-cyan-300 hover:bg-cyan-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Load
+            </button>
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full px-2 py-1 bg-purple-500/10 border border-purple-500/30 rounded text-purple-300 hover:bg-purple-500/20 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading…' : 'Upload graph file'}
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,.sif,.txt,.graphml,.csv,.tsv,.owl,.rdf,.biopax" onChange={handleFileChange} className="hidden" />
+          {error && <p className="text-pink-400 break-words">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DatasetSelector
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { KnowledgeNode, knowledgeGraphService, RelationGroup } from '../services/knowledgeGraphService'
+import { formatPropertyKey } from '../services/entityProfile'
+import { getEvidence } from '../services/evidence'
+import { getEdgeStyle, getNodeColor, getTypeLabel } from '../services/graphStyle'
+import EvidenceList from './EvidenceList'
+import { EntityChip } from './EntityText'
+
+interface EntityDetailsProps {
+  // A fresh object reopens the panel on that node, even when it is already shown
+  request: { nodeId: string }
+  onAskAbout?: (node: KnowledgeNode) => void
+  onClose: () => void
+}
+
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === ''
+
+// Any property value: nested objects as indented key/value lists, arrays as bullets or cards
+function PropertyValue({ value }: { value: unknown }) {
+  if (Array.isArray(value)) {
+    if (value.every(item => typeof item !== 'object' || item === null)) {
+      return (
+        <ul className="list-disc pl-4 space-y-0.5 marker:text-cyan-400">
+          {value.map((item, index) => <li key={index}>{String(item)}</li>)}
+        </ul>
+      )
+    }
+    return (
+      <div className="space-y-1">
+        {value.map((item, index) => (
+          <div key={index} className="p-1.5 rounded border border-cyan-500/20 bg-black/40">
+            <PropertyValue value={item} />
+          </div>
+        ))}
+      </div>
+    )
+  }
+  if (value && typeof value === 'object') {
+    return (
+      <dl className="space-y-1">
+        {Object.entries(value).filter(([, item]) => !isBlank(item)).map(([key, item]) => (
+          <div key={key} className="pl-2 border-l border-purple-500/30">
+            <dt className="text-purple-300">{formatPropertyKey(key)}</dt>
+            <dd className="text-cyan-200"><PropertyValue value={item} /></dd>
+          </div>
+        ))}
+      </dl>
+    )
+  }
+  if (typeof value === 'boolean') return <>{value ? 'yes' : 'no'}</>
+  return <>{String(value)}</>
+}
+
+// "EGFR inhibits …" or "… inhibits EGFR", with every neighbour a link to its own profile
+function RelationGroupItem({ node, group, onSelect }: { node: KnowledgeNode, group: RelationGroup, onSelect: (node: KnowledgeNode) => void }) {
+  const phrase = group.relation.replace(/_/g, ' ')
+  return (
+    <li>
+      <div style={{ color: getEdgeStyle(group.relation).labelColor }}>
+        {group.direction === 'out' ? `${node.label} ${phrase} …` : `… ${phrase} ${node.label}`}
+        <span className="text-cyan-400/60"> ({group.neighbors.length})</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {group.neighbors.map(({ node: neighbor, relation }, index) => {
+          const { mechanism, context } = relation.properties || {}
+          return (
+            <span key={`${neighbor.id}-${index}`} title={[mechanism, context].filter(text => typeof text === 'string' && text).join('; ') || undefined}>
+              <EntityChip node={neighbor} text={neighbor.label} onEntityClick={onSelect} />
+            </span>
+          )
+        })}
+      </div>
+    </li>
+  )
+}
+
+// Full profile of one entity: its nested properties laid out for its type, then its relations
+function EntityDetails({ request, onAskAbout, onClose }: EntityDetailsProps) {
+  // Entities visited from this panel, so "back" retraces the walk
+  const [trail, setTrail] = useState<string[]>([request.nodeId])
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setTrail([request.nodeId])
+  }, [request])
+
+  const currentId = trail[trail.length - 1]
+  const profile = useMemo(() => knowledgeGraphService.getEntityProfile(currentId), [currentId])
+  const previous = trail.length > 1 ? knowledgeGraphService.getNode(trail[trail.length - 2]) : undefined
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 })
+  }, [currentId])
+
+  const handleSelect = (node: KnowledgeNode) => {
+    if (node.id !== currentId) setTrail([...trail, node.id])
+  }
+
+  const outgoing = profile?.relations.filter(group => group.direction === 'out') || []
+  const incoming = profile?.relations.filter(group => group.direction === 'in') || []
+
+  return (
+    <div className="flex flex-col h-full text-xs font-mono text-cyan-100">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="font-bold text-sm text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">📋 Entity Profile</h2>
+        <button
+          onClick={onClose}
+          className="text-purple-400 hover:text-cyan-400 text-lg leading-none transition-colors duration-200 touch-manipulation"
+          aria-label="Close entity profile"
+        >
+          ×
+        </button>
+      </div>
+
+      {previous && (
+        <button
+          onClick={() => setTrail(trail.slice(0, -1))}
+          className="self-start mb-2 text-purple-300 hover:text-cyan-300 transition-colors duration-200 touch-manipulation"
+        >
+          ← {previous.label}
+        </button>
+      )}
+
+      {!profile ? (
+        <p className="text-cyan-400/70">{currentId} is not in the active knowledge graph.</p>
+      ) : (
+        <div ref={scrollRef} className="overflow-y-auto flex-1 space-y-3">
+          <div>
+            <h3 className="text-base font-bold" style={{ color: getNodeColor(profile.node.type) }}>{profile.node.label}</h3>
+            <p className="text-cyan-400/70">
+              <span style={{ color: getNodeColor(profile.node.type) }}>{getTypeLabel(profile.node.type)}</span> · {profile.node.id}
+            </p>
+            {profile.headline.length > 0 && (
+              <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5">
+                {profile.headline.map(field => (
+                  <div key={field.key} className="contents">
+                    <dt className="text-purple-300">{field.label}</dt>
+                    <dd className="text-cyan-200"><PropertyValue value={Array.isArray(field.value) ? field.value.join(', ') : field.value} /></dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            {profile.aliases.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {profile.aliases.map(alias => (
+                  <span key={alias} className="px-2 py-0.5 rounded-full border border-cyan-500/30 text-cyan-300">{alias}</span>
+                ))}
+              </div>
+            )}
+            {profile.description && <p className="mt-2 text-cyan-200">{profile.description}</p>}
+          </div>
+
+          {profile.sections.map(section => (
+            <section key={section.title}>
+              <h4 className="font-bold text-cyan-300 border-b border-cyan-500/20 mb-1">{section.title}</h4>
+              <dl className="space-y-1.5">
+                {section.fields.map(field => (
+                  <div key={field.key}>
+                    {/* "Pharmacology" under a "Pharmacology" heading says nothing new */}
+                    {field.label.toLowerCase() !== section.title.toLowerCase() && <dt className="text-purple-400">{field.label}</dt>}
+                    <dd className="text-cyan-200"><PropertyValue value={field.value} /></dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+
+          <EvidenceList evidence={getEvidence(profile.node)} />
+
+          {[{ title: 'Outgoing relations', groups: outgoing }, { title: 'Incoming relations', groups: incoming }]
+            .filter(({ groups }) => groups.length > 0)
+            .map(({ title, groups }) => (
+              <section key={title}>
+                <h4 className="font-bold text-cyan-300 border-b border-cyan-500/20 mb-1">{title}</h4>
+                <ul className="space-y-2">
+                  {groups.map(group => (
+                    <RelationGroupItem key={`${group.direction}:${group.relation}`} node={profile.node} group={group} onSelect={handleSelect} />
+                  ))}
+                </ul>
+              </section>
+            ))}
+          {profile.relations.length === 0 && <p className="text-cyan-400/70">No relations in the active knowledge graph.</p>}
+
+          {profile.node.provenance && profile.node.provenance.length > 0 && (
+            <p className="text-cyan-400/70">Merged from: {profile.node.provenance.map(entry => entry.source).join(', ')}</p>
+          )}
+
+          {onAskAbout && (
+            <button
+              onClick={() => onAskAbout(profile.node)}
+              className="px-2 py-1 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-300 hover:bg-purple-500/20 hover:border-purple-400/50 transition-all duration-200 touch-manipulation"
+            >
+              💬 Ask about {profile.node.label}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EntityDetails
@@ -0,0 +1,58 @@
+import { ReactNode, useMemo } from 'react'
+import { KnowledgeNode, knowledgeGraphService } from '../services/knowledgeGraphService'
+import { getNodeColor, getTypeLabel } from '../services/graphStyle'
+
+interface EntityTextProps {
+  text: string
+  onEntityHover?: (node: KnowledgeNode | null) => void
+  onEntityClick?: (node: KnowledgeNode) => void
+}
+
+interface EntityChipProps {
+  node: KnowledgeNode
+  text: string
+  onEntityHover?: (node: KnowledgeNode | null) => void
+  onEntityClick?: (node: KnowledgeNode) => void
+}
+
+export function EntityChip({ node, text, onEntityHover, onEntityClick }: EntityChipProps) {
+  const color = getNodeColor(node.type)
+  return (
+    <button
+      type="button"
+      onMouseEnter={() => onEntityHover?.(node)}
+      onMouseLeave={() => onEntityHover?.(null)}
+      onFocus={() => onEntityHover?.(node)}
+      onBlur={() => onEntityHover?.(null)}
+      onClick={() => onEntityClick?.(node)}
+      className="inline px-1 rounded border bg-black/30 hover:bg-white/10 transition-colors duration-200 touch-manipulation"
+      style={{ color, borderColor: `${color}60` }}
+      title={`${node.label} (${getTypeLabel(node.type)})`}
+    >
+      {text}
+    </button>
+  )
+}
+
+// Plain text with every recognised graph entity turned into a chip
+export function LinkedText({ text, onEntityHover, onEntityClick }: EntityTextProps) {
+  const mentions = useMemo(() => knowledgeGraphService.findEntityMentions(text), [text])
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  mentions.forEach(mention => {
+    if (mention.start > cursor) parts.push(text.slice(cursor, mention.start))
+    parts.push(
+      <EntityChip
+        key={mention.start}
+        node={mention.node}
+        text={mention.text}
+        onEntityHover={onEntityHover}
+        onEntityClick={onEntityClick}
+      />
+    )
+    cursor = mention.end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
@@ -0,0 +1,43 @@
+import { Evidence } from '../services/graphSchema'
+import { describeEvidenceLevel, evidenceUrl, formatCitation } from '../services/evidence'
+
+interface EvidenceListProps {
+  evidence: Evidence[]
+}
+
+// Citations for a node or edge, each linked to PubMed or its DOI when it has one
+function EvidenceList({ evidence }: EvidenceListProps) {
+  if (evidence.length === 0) return null
+
+  return (
+    <div>
+      <strong className="text-purple-400">Evidence:</strong>
+      <ul className="mt-1 space-y-1">
+        {evidence.map((entry, index) => {
+          const url = evidenceUrl(entry)
+          return (
+            <li key={index} className="text-xs text-cyan-300">
+              {entry.level && (
+                <span
+                  className="mr-1 px-1 rounded border border-green-400/40 text-green-300"
+                  title={describeEvidenceLevel(entry.level)}
+                >
+                  {entry.level}
+                </span>
+              )}
+              {url ? (
+                <a href={url} target="_blank" rel="noopener noreferrer" className="underline hover:text-cyan-100">
+                  {formatCitation({ ...entry, level: undefined })}
+                </a>
+              ) : (
+                formatCitation({ ...entry, level: undefined })
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export default EvidenceList
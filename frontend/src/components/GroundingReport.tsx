@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import { AnswerClaim, AnswerVerification, ClaimStatus } from '../services/knowledgeGraphService'
+
+interface GroundingReportProps {
+  verification: AnswerVerification
+}
+
+const STATUS_STYLES: { [status in ClaimStatus]: { icon: string, label: string, color: string, border: string } } = {
+  'supported': { icon: '✓', label: 'graph-supported', color: 'text-green-300', border: 'border-green-400/40' },
+  'not-in-graph': { icon: '?', label: 'not in graph', color: 'text-yellow-300', border: 'border-yellow-400/40' },
+  'contradicted': { icon: '✗', label: 'contradicted', color: 'text-pink-300', border: 'border-pink-500/50' }
+}
+
+// Worst first, so contradictions are what the reader sees on opening
+const STATUS_ORDER: ClaimStatus[] = ['contradicted', 'not-in-graph', 'supported']
+
+const scoreColor = (score: number): string => score >= 0.8 ? 'text-green-300' : score >= 0.5 ? 'text-yellow-300' : 'text-pink-300'
+
+const describeClaim = (claim: AnswerClaim): string => claim.kind === 'relation'
+  ? `${claim.source!.label} ${claim.negated ? 'not ' : ''}${claim.relations![0].replace(/_/g, ' ')} ${claim.target!.label}`
+  : claim.text
+
+// Per-message grounding score, expanding into every claim the verifier checked
+function GroundingReport({ verification }: GroundingReportProps) {
+  const [expanded, setExpanded] = useState(false)
+  if (verification.score === null) return null
+
+  const claims = STATUS_ORDER.flatMap(status => verification.claims.filter(claim => claim.status === status))
+
+  return (
+    <div className="mt-2 text-xs font-mono">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex flex-wrap items-center gap-2 text-purple-300 hover:text-cyan-300 transition-colors duration-200 touch-manipulation"
+        title="Entities and relations in this answer, checked against the knowledge graph"
+      >
+        <span>🔬 Grounding <strong className={scoreColor(verification.score)}>{Math.round(verification.score * 100)}%</strong></span>
+        {STATUS_ORDER.filter(status => verification.counts[status] > 0).map(status => (
+          <span key={status} className={STATUS_STYLES[status].color}>
+            {STATUS_STYLES[status].icon} {verification.counts[status]}
+          </span>
+        ))}
+        <span>{expanded ? '▾' : '▸'}</span>
+      </button>
+      {expanded && (
+        <ul className="mt-2 space-y-1">
+          {claims.map((claim, index) => (
+            <li key={index} className="flex items-start gap-2" title={claim.note}>
+              <span className={`px-1 rounded border ${STATUS_STYLES[claim.status].color} ${STATUS_STYLES[claim.status].border}`}>
+                {STATUS_STYLES[claim.status].icon} {STATUS_STYLES[claim.status].label}
+              </span>
+              <span className="text-cyan-200">
+                {describeClaim(claim)}
+                <span className="text-cyan-400/60"> · {claim.note}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default GroundingReport
@@ -2,10 +2,22 @@ import React, { useEffect, useRef, useState } from 'react'
 import * as d3 from 'd3'
 import html2canvas from 'html2canvas'
 import { KnowledgeNode, KnowledgeRelation } from '../services/knowledgeGraphService'
+import { EDGE_STYLES, getActiveEntityTypes, getEdgeStyle, getHighlightColor, getNodeColor, getTypeLabel, RESISTANCE_EDGE_STYLE } from '../services/graphStyle'
+import { EXPORT_FORMATS, ExportFormat, exportGraph } from '../services/graphExport'
+import { getEvidence } from '../services/evidence'
+import EvidenceList from './EvidenceList'
+
+// A named set of nodes drawn with a coloured ring, e.g. one drug's reach in a combination
+export interface GraphHighlight {
+  id: string
+  label: string
+  nodeIds: string[]
+}
 
 export interface GraphData {
   nodes: KnowledgeNode[]
   edges: KnowledgeRelation[]
+  highlights?: GraphHighlight[]
 }
 
 interface KnowledgeGraphVisualizationProps {
@@ -13,6 +25,14 @@ interface KnowledgeGraphVisualizationProps {
   width?: number
   height?: number
   onNodeClick?: (node: KnowledgeNode) => void
+  // Node to point out, e.g. while its name is hovered in the chat text
+  focusedNodeId?: string | null
+  // Opens the node's details; a new object re-opens them even for the same node
+  detailsRequest?: { nodeId: string } | null
+  // Adds an "Ask about" button to the node details
+  onAskAbout?: (node: KnowledgeNode) => void
+  // Adds a "Full profile" button to the node details
+  onOpenProfile?: (node: KnowledgeNode) => void
 }
 
 interface D3Node extends KnowledgeNode {
@@ -26,69 +46,57 @@ interface D3Link {
   source: D3Node | string
   target: D3Node | string
   relation: string
+  edge: KnowledgeRelation
+}
+
+interface D3Ring {
+  node: D3Node
+  // Position in data.highlights, which sets the ring's color and radius
+  index: number
 }
 
+const endpointId = (endpoint: D3Node | string): string => typeof endpoint === 'string' ? endpoint : endpoint.id
+
+// Edge property as display text; loaded datasets can put any JSON value here
+const edgeText = (value: unknown): string => typeof value === 'string' ? value.replace(/_/g, ' ') : ''
+
 const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> = ({
   data,
   width = 800,
   height = 600,
-  onNodeClick
+  onNodeClick,
+  focusedNodeId,
+  detailsRequest,
+  onAskAbout,
+  onOpenProfile
 }) => {
   const svgRef = useRef<SVGSVGElement>(null)
   const [selectedNode, setSelectedNode] = useState<KnowledgeNode | null>(null)
+  const [selectedEdge, setSelectedEdge] = useState<KnowledgeRelation | null>(null)
   const [isFullscreen, setIsFullscreen] = useState(false)
-
-  // Color mapping for different entity types
-  // Color mapping for different entity types - NEON THEME
-  const colorMap: { [key: string]: string } = {
-    disease: '#ff006e',    // Hot Pink
-    gene: '#00f5ff',       // Cyan
-    pathway: '#39ff14',    // Neon Green
-    biomarker: '#bf00ff',  // Electric Purple
-    drug: '#ff8500'        // Neon Orange
-  }
-
-  const getNodeColor = (type: string): string => {
-    return colorMap[type.toLowerCase()] || '#6c757d' // Default gray
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [activeHighlight, setActiveHighlight] = useState<string | null>(null)
+  const layoutNodesRef = useRef<D3Node[]>([])
+
+  const saveFile = (content: string, fileName: string, mimeType: string) => {
+    const dataBlob = new Blob([content], { type: mimeType })
+    const url = URL.createObjectURL(dataBlob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+    URL.revokeObjectURL(url)
   }
 
-  // Get unique entity types present in the current data with counts
-  const getActiveEntityTypes = (): Array<{type: string, color: string, label: string, count: number}> => {
-    const typeCounts: { [key: string]: number } = {}
-    
-    // Count occurrences of each type
-    data.nodes.forEach(node => {
-      const type = node.type.toLowerCase()
-      typeCounts[type] = (typeCounts[type] || 0) + 1
-    })
-    
-    const typeLabels: { [key: string]: string } = {
-      disease: 'Disease',
-      gene: 'Gene', 
-      pathway: 'Pathway',
-      biomarker: 'Biomarker',
-      drug: 'Drug'
-    }
-    
-    return Object.entries(typeCounts).map(([type, count]) => ({
-      type,
-      color: colorMap[type] || '#6c757d',
-      label: typeLabels[type] || type.charAt(0).toUpperCase() + type.slice(1),
-      count
-    })).sort((a, b) => a.label.localeCompare(b.label))
-  }
-
-  const downloadGraph = async (format: 'png' | 'json') => {
-    if (format === 'json') {
-      const dataStr = JSON.stringify(data, null, 2)
-      const dataBlob = new Blob([dataStr], { type: 'application/json' })
-      const url = URL.createObjectURL(dataBlob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = 'knowledge-graph.json'
-      link.click()
-      URL.revokeObjectURL(url)
-    } else if (format === 'png') {
+  const downloadGraph = async (format: ExportFormat | 'png') => {
+    setShowExportMenu(false)
+    if (format !== 'png') {
+      // Use the current layout so the SVG and Cytoscape exports look like the screen
+      const positions = new Map(layoutNodesRef.current
+        .filter(node => node.x !== undefined && node.y !== undefined)
+        .map(node => [node.id, { x: node.x!, y: node.y! }]))
+      exportGraph(data, format, { positions }).forEach(file => saveFile(file.content, file.fileName, file.mimeType))
+    } else {
       const svgElement = svgRef.current
       if (svgElement) {
         try {
@@ -130,10 +138,12 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
 
     // Prepare data with debugging
     const nodes: D3Node[] = data.nodes.map(d => ({ ...d }))
+    layoutNodesRef.current = nodes
     const links: D3Link[] = data.edges.map(d => ({
       source: d.source,
       target: d.target, 
-      relation: d.relation
+      relation: d.relation,
+      edge: d
     }))
     
     console.log('📊 Visualization Data:')
@@ -164,22 +174,24 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
       .force('center', d3.forceCenter(actualWidth / 2, actualHeight / 2))
       .force('collision', d3.forceCollide().radius(30))
 
-    // Create arrow markers for directed edges
+    // Create arrow markers for directed edges, one per edge style
     const defs = container.append('defs')
-    defs.append('marker')
-      .attr('id', 'arrowhead')
-      .attr('viewBox', '-0 -5 10 10')
-      .attr('refX', 25)
-      .attr('refY', 0)
-      .attr('orient', 'auto')
-      .attr('markerWidth', 8)
-      .attr('markerHeight', 8)
-      .attr('xoverflow', 'visible')
-      .append('svg:path')
-      .attr('d', 'M 0,-5 L 10 ,0 L 0,5')
-      .attr('fill', '#00f5ff')
-      .style('stroke', 'none')
-      .style('filter', 'drop-shadow(0 0 3px #00f5ff)')
+    EDGE_STYLES.forEach(edgeStyle => {
+      defs.append('marker')
+        .attr('id', edgeStyle.marker)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 25)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 8)
+        .attr('markerHeight', 8)
+        .attr('xoverflow', 'visible')
+        .append('svg:path')
+        .attr('d', 'M 0,-5 L 10 ,0 L 0,5')
+        .attr('fill', edgeStyle.stroke)
+        .style('stroke', 'none')
+        .style('filter', `drop-shadow(0 0 3px ${edgeStyle.stroke})`)
+    })
 
     // Create links
     const link = container.append('g')
@@ -187,11 +199,17 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
       .selectAll('line')
       .data(validLinks)
       .enter().append('line')
-      .attr('stroke', '#00f5ff')
+      .attr('stroke', (d: D3Link) => getEdgeStyle(d.relation).stroke)
       .attr('stroke-opacity', 0.8)
       .attr('stroke-width', 2)
-      .attr('marker-end', 'url(#arrowhead)')
-      .style('filter', 'drop-shadow(0 0 2px #00f5ff)')
+      .attr('stroke-dasharray', (d: D3Link) => getEdgeStyle(d.relation).dashArray)
+      .attr('marker-end', (d: D3Link) => `url(#${getEdgeStyle(d.relation).marker})`)
+      .style('filter', (d: D3Link) => `drop-shadow(0 0 2px ${getEdgeStyle(d.relation).stroke})`)
+      .style('cursor', 'pointer')
+      .on('click', (_event: any, d: D3Link) => {
+        setSelectedNode(null)
+        setSelectedEdge(d.edge)
+      })
 
     // Create link labels
     const linkLabels = container.append('g')
@@ -204,9 +222,30 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
       .attr('dy', -5)
       .attr('font-size', '10px')
       .attr('font-family', 'Monaco, monospace')
-      .attr('fill', '#39ff14')
-      .style('text-shadow', '0 0 3px #39ff14')
-      .text((d: D3Link) => d.relation?.replace('_', ' ') || '')
+      .attr('fill', (d: D3Link) => getEdgeStyle(d.relation).labelColor)
+      .style('text-shadow', (d: D3Link) => `0 0 3px ${getEdgeStyle(d.relation).labelColor}`)
+      .text((d: D3Link) => d.relation?.replace(/_/g, ' ') || '')
+      .style('cursor', 'pointer')
+      .on('click', (_event: any, d: D3Link) => {
+        setSelectedNode(null)
+        setSelectedEdge(d.edge)
+      })
+
+    // Highlight rings sit under the nodes, one concentric ring per highlight a node belongs to
+    const nodesById = new Map(nodes.map(n => [n.id, n]))
+    const rings: D3Ring[] = (data.highlights || []).flatMap((highlight, index) =>
+      highlight.nodeIds.filter(id => nodesById.has(id)).map(id => ({ node: nodesById.get(id)!, index })))
+    const ring = container.append('g')
+      .attr('class', 'highlight-rings')
+      .selectAll('circle')
+      .data(rings)
+      .enter().append('circle')
+      .attr('r', (d: D3Ring) => 25 + d.index * 4)
+      .attr('fill', 'none')
+      .attr('stroke', (d: D3Ring) => getHighlightColor(d.index))
+      .attr('stroke-width', 2.5)
+      .style('filter', (d: D3Ring) => `drop-shadow(0 0 4px ${getHighlightColor(d.index)})`)
+      .style('pointer-events', 'none')
 
     // Create nodes
     const node = container.append('g')
@@ -237,6 +276,7 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
         })
       )
       .on('click', (_event: any, d: D3Node) => {
+        setSelectedEdge(null)
         setSelectedNode(d)
         onNodeClick?.(d)
       })
@@ -260,14 +300,19 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
           .style('box-shadow', '0 0 20px rgba(0, 245, 255, 0.3)')
 
         tooltip.transition().duration(200).style('opacity', .9)
-        tooltip.html(
-          `<strong>${d.label}</strong><br/>
-          Type: ${d.type}<br/>
-          ${d.properties?.description ? `Description: ${d.properties.description}` : ''}
-          ${d.properties?.aliases ? `<br/>Aliases: ${d.properties.aliases.join(', ')}` : ''}`
-        )
-        .style('left', (event.pageX + 10) + 'px')
-        .style('top', (event.pageY - 28) + 'px')
+        // Loaded datasets supply these strings, so they go in as text, never as HTML
+        const { description, aliases } = d.properties || {}
+        tooltip.append('strong').text(d.label)
+        tooltip.append('div').text(`Type: ${getTypeLabel(d.type)}`)
+        if (typeof description === 'string' && description) {
+          tooltip.append('div').text(`Description: ${description}`)
+        }
+        if (Array.isArray(aliases) && aliases.length > 0) {
+          tooltip.append('div').text(`Aliases: ${aliases.join(', ')}`)
+        }
+        tooltip
+          .style('left', (event.pageX + 10) + 'px')
+          .style('top', (event.pageY - 28) + 'px')
       })
       .on('mouseout', function() {
         d3.select(this as any).attr('r', 20)
@@ -307,6 +352,10 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
         .attr('cx', d => d.x!)
         .attr('cy', d => d.y!)
 
+      ring
+        .attr('cx', d => d.node.x!)
+        .attr('cy', d => d.node.y!)
+
       nodeLabels
         .attr('x', d => d.x!)
         .attr('y', d => d.y!)
@@ -363,6 +412,36 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
     }
   }, [data, width, height, isFullscreen])
 
+  // Hovering a highlight in the legend dims everything outside it
+  useEffect(() => {
+    if (!svgRef.current) return
+    const highlight = data.highlights?.find(candidate => candidate.id === activeHighlight)
+    const included = new Set(highlight?.nodeIds || [])
+    const opacity = (id: string) => !highlight || included.has(id) ? 1 : 0.15
+    const svg = d3.select(svgRef.current)
+    svg.selectAll<SVGElement, D3Node>('.nodes circle, .node-labels text').style('opacity', d => opacity(d.id))
+    svg.selectAll<SVGElement, D3Link>('.links line, .link-labels text')
+      .style('opacity', d => Math.min(opacity(endpointId(d.source)), opacity(endpointId(d.target))))
+    svg.selectAll<SVGCircleElement, D3Ring>('.highlight-rings circle')
+      .style('opacity', d => !highlight || data.highlights![d.index] === highlight ? 1 : 0.1)
+  }, [activeHighlight, data, width, height, isFullscreen])
+
+  // Enlarge and outline the focused node
+  useEffect(() => {
+    if (!svgRef.current) return
+    d3.select(svgRef.current).selectAll<SVGCircleElement, D3Node>('.nodes circle')
+      .attr('r', d => d.id === focusedNodeId ? 28 : 20)
+      .attr('stroke', d => d.id === focusedNodeId ? '#ffd60a' : '#ffffff')
+      .attr('stroke-width', d => d.id === focusedNodeId ? 4 : 2)
+  }, [focusedNodeId, data, width, height, isFullscreen])
+
+  useEffect(() => {
+    const node = detailsRequest && data.nodes.find(candidate => candidate.id === detailsRequest.nodeId)
+    if (!node) return
+    setSelectedEdge(null)
+    setSelectedNode(node)
+  }, [detailsRequest, data])
+
   if (!data.nodes.length) {
     return (
       <div className="flex items-center justify-center h-64 bg-gray-900/80 rounded-lg border-2 border-dashed border-cyan-500/30 backdrop-blur-sm">
@@ -385,13 +464,32 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
           </p>
         </div>
         <div className="flex flex-wrap gap-2">
-          <button
-            onClick={() => downloadGraph('json')}
-            className="px-2 sm:px-3 py-1 text-xs sm:text-sm bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded border border-cyan-400/30 hover:from-blue-400 hover:to-cyan-400 transition-all duration-200 shadow-lg shadow-blue-500/20 font-mono touch-manipulation active:scale-95"
-            title="Download as JSON"
-          >
-            📄 JSON
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="px-2 sm:px-3 py-1 text-xs sm:text-sm bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded border border-cyan-400/30 hover:from-blue-400 hover:to-cyan-400 transition-all duration-200 shadow-lg shadow-blue-500/20 font-mono touch-manipulation active:scale-95"
+              title="Export as JSON, Cytoscape, GraphML, SVG, Markdown or CSV"
+              aria-haspopup="menu"
+              aria-expanded={showExportMenu}
+            >
+              📄 Export ▾
+            </button>
+            {showExportMenu && (
+              <div role="menu" className="absolute right-0 mt-1 z-20 w-56 bg-black/95 border border-cyan-500/30 rounded-lg shadow-lg shadow-cyan-500/10 py-1 font-mono">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    role="menuitem"
+                    onClick={() => downloadGraph(format)}
+                    className="w-full text-left px-3 py-1.5 hover:bg-cyan-500/10 transition-colors"
+                  >
+                    <span className="block text-xs sm:text-sm text-cyan-300">{EXPORT_FORMATS[format].label}</span>
+                    <span className="block text-[10px] text-cyan-100/60">{EXPORT_FORMATS[format].description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <button
             onClick={() => downloadGraph('png')}
             className="px-2 sm:px-3 py-1 text-xs sm:text-sm bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded border border-green-400/30 hover:from-green-400 hover:to-emerald-400 transition-all duration-200 shadow-lg shadow-green-500/20 font-mono touch-manipulation active:scale-95"
@@ -425,7 +523,7 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
         <div className="absolute top-2 sm:top-4 left-2 sm:left-4 bg-black/80 backdrop-blur-sm border border-cyan-500/30 p-2 sm:p-3 rounded-lg shadow-lg shadow-cyan-500/20 max-w-[160px] sm:max-w-none">
           <h4 className="text-xs sm:text-sm font-bold mb-1 sm:mb-2 text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">Entity Types</h4>
           <div className="space-y-1 text-xs font-mono">
-            {getActiveEntityTypes().map(entityType => (
+            {getActiveEntityTypes(data.nodes).map(entityType => (
               <div key={entityType.type} className="flex items-center space-x-2">
                 <div 
                   className="w-3 h-3 rounded-full shadow-lg" 
@@ -439,6 +537,33 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
               </div>
             ))}
           </div>
+          {data.edges.some(edge => getEdgeStyle(edge.relation) === RESISTANCE_EDGE_STYLE) && (
+            <div className="flex items-center space-x-2 mt-2 text-xs font-mono">
+              <svg width="18" height="6"><line x1="0" y1="3" x2="18" y2="3" stroke={RESISTANCE_EDGE_STYLE.stroke} strokeWidth="2" strokeDasharray={RESISTANCE_EDGE_STYLE.dashArray || undefined} /></svg>
+              <span className="text-cyan-100">Resistance</span>
+            </div>
+          )}
+          {data.highlights && data.highlights.length > 0 && (
+            <>
+              <h4 className="text-xs sm:text-sm font-bold mt-2 mb-1 sm:mb-2 text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">Reach</h4>
+              <div className="space-y-1 text-xs font-mono">
+                {data.highlights.map((highlight, index) => (
+                  <button
+                    key={highlight.id}
+                    onMouseEnter={() => setActiveHighlight(highlight.id)}
+                    onMouseLeave={() => setActiveHighlight(null)}
+                    onClick={() => setActiveHighlight(activeHighlight === highlight.id ? null : highlight.id)}
+                    className="flex items-center space-x-2 touch-manipulation"
+                    title={`Show only what ${highlight.label} reaches`}
+                  >
+                    <div className="w-3 h-3 rounded-full border-2" style={{ borderColor: getHighlightColor(index) }}></div>
+                    <span className="text-cyan-100">{highlight.label}</span>
+                    <span className="text-purple-400 ml-1">({highlight.nodeIds.length})</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
         </div>
 
         {/* Node details panel */}
@@ -454,7 +579,7 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
               </button>
             </div>
             <div className="text-xs sm:text-sm text-cyan-100 space-y-1 font-mono">
-              <p><strong className="text-purple-400">Type:</strong> <span className="text-cyan-300">{selectedNode.type}</span></p>
+              <p><strong className="text-purple-400">Type:</strong> <span style={{ color: getNodeColor(selectedNode.type) }}>{getTypeLabel(selectedNode.type)}</span></p>
               <p><strong className="text-purple-400">ID:</strong> <span className="text-cyan-300 text-xs">{selectedNode.id}</span></p>
               {selectedNode.properties?.description && (
                 <p><strong className="text-purple-400">Description:</strong> <span className="text-cyan-300">{selectedNode.properties.description}</span></p>
@@ -462,6 +587,59 @@ const KnowledgeGraphVisualization: React.FC<KnowledgeGraphVisualizationProps> =
               {selectedNode.properties?.aliases && (
                 <p><strong className="text-purple-400">Aliases:</strong> <span className="text-cyan-300">{Array.isArray(selectedNode.properties.aliases) ? selectedNode.properties.aliases.join(', ') : selectedNode.properties.aliases}</span></p>
               )}
+              <EvidenceList evidence={getEvidence(selectedNode)} />
+              {(onAskAbout || onOpenProfile) && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {onOpenProfile && (
+                    <button
+                      onClick={() => onOpenProfile(selectedNode)}
+                      className="px-2 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-lg text-cyan-300 hover:bg-cyan-500/20 hover:border-cyan-400/50 transition-all duration-200 touch-manipulation text-xs"
+                    >
+                      📋 Full profile
+                    </button>
+                  )}
+                  {onAskAbout && (
+                    <button
+                      onClick={() => onAskAbout(selectedNode)}
+                      className="px-2 py-1 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-300 hover:bg-purple-500/20 hover:border-purple-400/50 transition-all duration-200 touch-manipulation text-xs"
+                    >
+                      💬 Ask about {selectedNode.label}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Edge details panel: what the relationship asserts and where it comes from */}
+        {selectedEdge && (
+          <div className="absolute top-2 sm:top-4 right-2 sm:right-4 bg-black/90 backdrop-blur-sm border border-purple-500/30 p-3 sm:p-4 rounded-lg shadow-lg shadow-purple-500/20 max-w-[280px] sm:max-w-xs">
+            <div className="flex justify-between items-start mb-2">
+              <h4 className="font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 text-sm sm:text-base">
+                {data.nodes.find(n => n.id === selectedEdge.source)?.label || selectedEdge.source} → {data.nodes.find(n => n.id === selectedEdge.target)?.label || selectedEdge.target}
+              </h4>
+              <button
+                onClick={() => setSelectedEdge(null)}
+                className="text-purple-400 hover:text-cyan-400 text-lg leading-none transition-colors duration-200 touch-manipulation ml-2"
+              >
+                ×
+              </button>
+            </div>
+            <div className="text-xs sm:text-sm text-cyan-100 space-y-1 font-mono">
+              <p><strong className="text-purple-400">Relation:</strong> <span style={{ color: getEdgeStyle(selectedEdge.relation).labelColor }}>{selectedEdge.relation.replace(/_/g, ' ')}</span></p>
+              {edgeText(selectedEdge.properties?.context) && (
+                <p><strong className="text-purple-400">Context:</strong> <span className="text-cyan-300">{edgeText(selectedEdge.properties?.context)}</span></p>
+              )}
+              {edgeText(selectedEdge.properties?.mechanism) && (
+                <p><strong className="text-purple-400">Mechanism:</strong> <span className="text-cyan-300">{edgeText(selectedEdge.properties?.mechanism)}</span></p>
+              )}
+              {edgeText(selectedEdge.properties?.frequency) && (
+                <p><strong className="text-purple-400">Frequency:</strong> <span className="text-cyan-300">{edgeText(selectedEdge.properties?.frequency)}</span></p>
+              )}
+              {getEvidence(selectedEdge).length > 0
+                ? <EvidenceList evidence={getEvidence(selectedEdge)} />
+                : <p className="text-xs text-cyan-400/60">No citation recorded for this relationship.</p>}
             </div>
           </div>
         )}
@@ -0,0 +1,116 @@
+import { ReactNode, useMemo } from 'react'
+import { KnowledgeNode } from '../services/knowledgeGraphService'
+import { BlockNode, InlineNode, parseMarkdown } from '../services/markdown'
+import { LinkedText } from './EntityText'
+
+interface MarkdownProps {
+  text: string
+  // With these set, entity names in plain text become chips (not inside code or links)
+  onEntityHover?: (node: KnowledgeNode | null) => void
+  onEntityClick?: (node: KnowledgeNode) => void
+}
+
+interface RenderOptions {
+  onEntityHover?: (node: KnowledgeNode | null) => void
+  onEntityClick?: (node: KnowledgeNode) => void
+}
+
+const HEADING_CLASSES = [
+  'text-base font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500',
+  'text-base font-bold text-cyan-300',
+  'text-sm font-bold text-cyan-300',
+  'text-sm font-bold text-purple-300',
+  'text-sm font-semibold text-purple-300',
+  'text-sm font-semibold text-purple-300'
+]
+
+const renderInline = (nodes: InlineNode[], options: RenderOptions, linkEntities: boolean = true): ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return linkEntities && options.onEntityClick
+        ? <LinkedText key={index} text={node.text} onEntityHover={options.onEntityHover} onEntityClick={options.onEntityClick} />
+        : node.text
+    case 'strong':
+      return <strong key={index} className="font-bold text-cyan-50">{renderInline(node.children, options, linkEntities)}</strong>
+    case 'emphasis':
+      return <em key={index}>{renderInline(node.children, options, linkEntities)}</em>
+    case 'code':
+      return <code key={index} className="px-1 rounded bg-black/60 border border-cyan-500/20 font-mono text-xs text-green-300">{node.text}</code>
+    case 'link':
+      return (
+        <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="underline text-cyan-300 hover:text-cyan-100">
+          {renderInline(node.children, options, false)}
+        </a>
+      )
+    case 'citation':
+      return (
+        <sup key={index} className="ml-0.5 text-green-300 font-mono" title="Source from the knowledge graph's SOURCES list">
+          [{node.numbers.join(', ')}]
+        </sup>
+      )
+    case 'break':
+      return <br key={index} />
+  }
+})
+
+const renderBlocks = (blocks: BlockNode[], options: RenderOptions): ReactNode[] => blocks.map((block, index) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6'
+      return <Tag key={index} className={`${HEADING_CLASSES[block.level - 1]} mt-3 first:mt-0`}>{renderInline(block.children, options)}</Tag>
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children, options)}</p>
+    case 'list': {
+      const items = block.items.map((item, itemIndex) => <li key={itemIndex} className="pl-1">{renderBlocks(item.children, options)}</li>)
+      return block.ordered
+        ? <ol key={index} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+        : <ul key={index} className="list-disc pl-5 space-y-1 marker:text-cyan-400">{items}</ul>
+    }
+    case 'code':
+      return (
+        <pre key={index} className="p-2 rounded-lg bg-black/70 border border-cyan-500/20 overflow-x-auto" data-language={block.language || undefined}>
+          <code className="font-mono text-xs text-green-300">{block.text}</code>
+        </pre>
+      )
+    case 'table':
+      return (
+        <div key={index} className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, column) => (
+                  <th key={column} className="px-2 py-1 border border-cyan-500/30 bg-cyan-500/10 text-cyan-300" style={{ textAlign: block.alignments[column] || 'left' }}>
+                    {renderInline(cell, options)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} className="px-2 py-1 border border-cyan-500/20" style={{ textAlign: block.alignments[column] || 'left' }}>
+                      {renderInline(cell, options)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    case 'blockquote':
+      return <blockquote key={index} className="pl-3 border-l-2 border-purple-500/50 text-cyan-200/80 space-y-2">{renderBlocks(block.children, options)}</blockquote>
+    case 'rule':
+      return <hr key={index} className="border-cyan-500/20" />
+  }
+})
+
+// Assistant answer text as sanitized Markdown: React elements only, never injected HTML
+function Markdown({ text, onEntityHover, onEntityClick }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text])
+  return <div className="space-y-2">{renderBlocks(blocks, { onEntityHover, onEntityClick })}</div>
+}
+
+export default Markdown
@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react'
+import { ProfileMatchResult, TherapyMatch } from '../services/knowledgeGraphService'
+import { formatMatchPath } from '../services/patientProfile'
+import { getNodeColor } from '../services/graphStyle'
+import KnowledgeGraphVisualization from './KnowledgeGraphVisualization'
+
+interface ProfileMatchPanelProps {
+  result: ProfileMatchResult | null
+  onMatch: (profile: string) => void
+  onClose: () => void
+}
+
+const EXAMPLE_PROFILE = 'NSCLC, EGFR L858R, TP53 R273H, PD-L1 TPS 60%'
+
+const LEVEL_BADGES: { [level: string]: string } = {
+  variant: 'variant-level',
+  biomarker: 'biomarker',
+  gene: 'gene-level only'
+}
+
+function TherapyCard({ match, rank }: { match: TherapyMatch, rank: number }) {
+  const resistanceOnly = match.support.length === 0
+
+  return (
+    <li className={`border rounded-lg p-2 ${resistanceOnly ? 'border-pink-500/40 bg-pink-500/5' : 'border-cyan-500/20 bg-black/40'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-bold" style={{ color: getNodeColor(match.drug.type) }}>
+          {resistanceOnly ? '⚠️' : `#${rank}`} {match.drug.label}
+        </span>
+        <span className="text-cyan-400/70" title="Support weight plus evidence and on-label bonuses, minus resistance penalties">
+          score {match.score.toFixed(1)}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {match.onLabel !== undefined && (
+          <span className={`px-1 rounded border ${match.onLabel ? 'border-green-400/40 text-green-300' : 'border-yellow-400/40 text-yellow-300'}`}>
+            {match.onLabel ? 'indicated for this cancer' : 'other indication'}
+          </span>
+        )}
+        {Array.from(new Set(match.support.map(support => support.level))).map(level => (
+          <span key={level} className="px-1 rounded border border-purple-400/40 text-purple-300">{LEVEL_BADGES[level]}</span>
+        ))}
+      </div>
+      <ul className="mt-2 space-y-1">
+        {match.support.map((support, index) => (
+          <li key={`support-${index}`} className="text-cyan-200">
+            ✓ {formatMatchPath(support.path)}
+            {support.evidenceLevels.length > 0 && <span className="text-green-300"> ({support.evidenceLevels.join(', ')})</span>}
+            {support.strength < 1 && <span className="text-yellow-300"> (low expression: {support.alteration.value}{support.alteration.unit})</span>}
+          </li>
+        ))}
+        {match.resistance.map((resistance, index) => (
+          <li key={`resistance-${index}`} className="text-pink-300">
+            ✗ {formatMatchPath(resistance.path)}
+          </li>
+        ))}
+      </ul>
+    </li>
+  )
+}
+
+// Tumour profile in, ranked therapies out, each with the graph chains behind it
+function ProfileMatchPanel({ result, onMatch, onClose }: ProfileMatchPanelProps) {
+  const [profile, setProfile] = useState(result?.profile.text || '')
+  // One object per result: a fresh one on every keystroke would restart the layout
+  const graphData = useMemo(() => result && { nodes: result.nodes, edges: result.relations }, [result])
+
+  const handleMatch = () => {
+    if (profile.trim()) onMatch(profile.trim())
+  }
+
+  return (
+    <div className="flex flex-col h-full text-xs font-mono text-cyan-100">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="font-bold text-sm text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500">🧾 Patient Profile Matching</h2>
+        <button
+          onClick={onClose}
+          className="text-purple-400 hover:text-cyan-400 text-lg leading-none transition-colors duration-200 touch-manipulation"
+          aria-label="Close profile matching"
+        >
+          ×
+        </button>
+      </div>
+
+      <textarea
+        value={profile}
+        onChange={(e) => setProfile(e.target.value)}
+        placeholder={EXAMPLE_PROFILE}
+        rows={3}
+        className="w-full px-3 py-2 bg-gray-900/80 border border-cyan-500/30 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-cyan-400 text-cyan-100 placeholder-cyan-400/60"
+      />
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={handleMatch}
+          disabled={!profile.trim()}
+          className="px-3 py-1 bg-gradient-to-r from-cyan-500 to-purple-600 hover:from-cyan-400 hover:to-purple-500 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white rounded-lg transition-all duration-200 touch-manipulation"
+        >
+          Match therapies
+        </button>
+        {!profile && (
+          <button
+            onClick={() => setProfile(EXAMPLE_PROFILE)}
+            className="px-3 py-1 bg-cyan-500/10 border border-cyan-500/30 rounded-lg text-cyan-300 hover:bg-cyan-500/20 transition-all duration-200 touch-manipulation"
+          >
+            Use example
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div className="mt-3 overflow-y-auto flex-1 space-y-3">
+          {/* What the parser understood, so a misread profile is easy to spot */}
+          <div className="flex flex-wrap gap-1">
+            {result.profile.disease && (
+              <span className="px-2 py-0.5 rounded-full border" style={{ borderColor: getNodeColor('disease'), color: getNodeColor('disease') }}>
+                {result.profile.disease.label}
+              </span>
+            )}
+            {result.profile.alterations.map((alteration, index) => (
+              <span
+                key={index}
+                className={`px-2 py-0.5 rounded-full border border-cyan-500/40 ${alteration.negative ? 'opacity-50 line-through' : 'text-cyan-300'}`}
+                title={`${alteration.kind}${alteration.negative ? ' (negative, not used)' : ''}`}
+              >
+                {alteration.text}
+              </span>
+            ))}
+            {result.profile.unrecognized.map((text, index) => (
+              <span key={`unrecognized-${index}`} className="px-2 py-0.5 rounded-full border border-pink-500/40 text-pink-300" title="Not found in the knowledge graph">
+                ? {text}
+              </span>
+            ))}
+          </div>
+
+          {result.matches.length === 0 ? (
+            <p className="text-cyan-400/70">No therapies in the knowledge graph match this profile.</p>
+          ) : (
+            <ol className="space-y-2">
+              {result.matches.map((match, index) => (
+                <TherapyCard key={match.drug.id} match={match} rank={index + 1} />
+              ))}
+            </ol>
+          )}
+
+          {graphData && graphData.nodes.length > 0 && (
+            <div className="border border-cyan-500/20 rounded-lg overflow-hidden">
+              <KnowledgeGraphVisualization data={graphData} width={400} height={320} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProfileMatchPanel
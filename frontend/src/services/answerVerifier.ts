@@ -0,0 +1,212 @@
+import type { KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import type { EntityLinker, EntityMention } from './entityLinker'
+import type { GraphStore } from './graphStore'
+import { RESISTANCE_RELATIONS } from './graphSchema'
+import { RELATION_CUES } from './relationIntent'
+
+/**
+ * Checks an LLM answer against the knowledge graph after it has streamed in.
+ * Every entity the answer names and every "A <verb> B" statement it makes becomes
+ * a claim: supported by the graph, not in it, or contradicted by it (osimertinib
+ * "works against" a variant the graph says is resistant to it).
+ */
+
+export type ClaimStatus = 'supported' | 'not-in-graph' | 'contradicted'
+
+export interface AnswerClaim {
+  kind: 'entity' | 'relation'
+  // Answer text the claim was read from: the entity name, or the clause
+  text: string
+  status: ClaimStatus
+  // The entity named; for relation claims, the edge source as claimed
+  source?: KnowledgeNode
+  target?: KnowledgeNode
+  // Relations the verb stands for, in the graph's vocabulary
+  relations?: string[]
+  negated?: boolean
+  // Graph edge that supports or contradicts the claim
+  edge?: KnowledgeRelation
+  // Why the claim got its status, for tooltips
+  note: string
+}
+
+export interface AnswerVerification {
+  claims: AnswerClaim[]
+  counts: { [status in ClaimStatus]: number }
+  // Share of claims the graph supports, 0-1; null when the answer makes none
+  score: number | null
+}
+
+interface ClaimCue {
+  verb: RegExp
+  relations: string[]
+  // "X stops working in tumours with Y": the subject is the edge target
+  reversed?: boolean
+}
+
+// What a drug does to the gene or variant it works on; a variant `sensitive_to` the drug says the same
+const DRUG_ACTION_RELATIONS = ['targets', 'targets_gene', 'inhibits', 'blocks', 'neutralizes']
+
+// Answer-style phrasings first, then the question verbs relation intent already knows
+const CLAIM_CUES: ClaimCue[] = [
+  { verb: /\b(?:sensitive|sensitivity|respon(?:d|ds|ded|ding|sive))\s+to\b/, relations: ['sensitive_to'] },
+  { verb: /\b(?:resistant|resistance)\s+to\b|\bconfers?\s+resistance\s+to\b/, relations: RESISTANCE_RELATIONS },
+  { verb: /\b(?:stops?|stopped)\s+(?:working|responding)\b|\bno longer works?\b/, relations: RESISTANCE_RELATIONS, reversed: true },
+  { verb: /\b(?:works?|worked|working|active|effective|efficacious)\s+against\b|\bovercom(?:e|es|ing)\b/, relations: DRUG_ACTION_RELATIONS },
+  { verb: /\bvariant\s+of\b/, relations: ['variant_of'] },
+  ...RELATION_CUES.map(cue => ({ verb: cue.verb, relations: cue.relations }))
+]
+
+// Claimed relation -> relations that say the opposite
+const OPPOSING_RELATIONS: { [relation: string]: string[] } = {
+  sensitive_to: RESISTANCE_RELATIONS,
+  resistant_to: ['sensitive_to'],
+  confers_resistance_to: ['sensitive_to'],
+  inhibits: ['activates'],
+  activates: ['inhibits', 'blocks', 'neutralizes']
+}
+
+// Relations that read the same both ways round
+const SYMMETRIC_RELATIONS = ['associated_with']
+
+const NEGATION = /\b(?:not|no|never|cannot|can't|doesn't|don't|isn't|aren't|won't|without|lacks?)\b[^,.;]{0,20}$/
+const PASSIVE_AFTER_VERB = /^\s+(?:\w+\s+)?(?:by|with)\b/
+// Between two entities of a list: "EGFR C797S, MET and RAS-MAPK"
+const LIST_GAP = /^[\s,:;()]*(?:(?:and|or)\s+)?[\s,]*$/
+// International nonproprietary name stems, to catch drugs the graph has never heard of
+const DRUG_NAME = /\b[A-Za-z]{2,}(?:inib|mab|ciclib|parib|lisib|rasib|limus)\b/g
+
+// A full stop that ends one of these does not end the sentence
+const ABBREVIATION = /\b(?:al|e\.g|i\.e|vs|etc|approx|fig|ref)$/i
+
+// Sentences, bullet points and table rows; a claim never spans two of them. A full stop only
+// ends a sentence before whitespace, so "p.Thr790Met", "18.9 months" and "et al." stay whole
+const splitClauses = (text: string): string[] => {
+  const clauses: string[] = []
+  let start = 0
+  for (const match of text.matchAll(/[\n;!?]+|\.+(?=\s|$)/g)) {
+    const end = match.index!
+    if (match[0].startsWith('.') && ABBREVIATION.test(text.slice(start, end))) continue
+    clauses.push(text.slice(start, end))
+    start = end + match[0].length
+  }
+  clauses.push(text.slice(start))
+  return clauses.filter(clause => clause.trim())
+}
+
+const findEdge = (store: GraphStore, source: KnowledgeNode, target: KnowledgeNode, relations: string[]): KnowledgeRelation | undefined =>
+  store.getOutgoing(source.id, relations).find(relation => relation.target === target.id) ||
+  store.getOutgoing(target.id, relations.filter(relation => SYMMETRIC_RELATIONS.includes(relation))).find(relation => relation.target === source.id)
+
+const judgeRelation = (store: GraphStore, source: KnowledgeNode, target: KnowledgeNode, relations: string[], negated: boolean): Pick<AnswerClaim, 'status' | 'edge' | 'note'> => {
+  // "Osimertinib targets EGFR C797S" is backed by C797S being sensitive to it, and refuted by C797S resisting it
+  const drugAction = relations.every(relation => DRUG_ACTION_RELATIONS.includes(relation))
+  const supporting = findEdge(store, source, target, relations) ||
+    (drugAction ? findEdge(store, target, source, ['sensitive_to']) : undefined)
+  const opposing = findEdge(store, source, target, Array.from(new Set(relations.flatMap(relation => OPPOSING_RELATIONS[relation] || [])))) ||
+    (drugAction ? findEdge(store, target, source, RESISTANCE_RELATIONS) : undefined)
+  const describe = (edge: KnowledgeRelation) => `graph: ${edge.relation.replace(/_/g, ' ')}`
+  if (negated) {
+    if (supporting) return { status: 'contradicted', edge: supporting, note: describe(supporting) }
+    if (opposing) return { status: 'supported', edge: opposing, note: describe(opposing) }
+  } else {
+    if (supporting) return { status: 'supported', edge: supporting, note: describe(supporting) }
+    if (opposing) return { status: 'contradicted', edge: opposing, note: describe(opposing) }
+  }
+  return { status: 'not-in-graph', note: `no ${relations.join('/').replace(/_/g, ' ')} edge between ${source.label} and ${target.label}` }
+}
+
+// Mentions right after `end`, continuing while only list punctuation separates them
+const listAfter = (clause: string, mentions: EntityMention[], end: number): EntityMention[] => {
+  const list: EntityMention[] = []
+  let cursor = end
+  for (const mention of mentions.filter(candidate => candidate.start >= end)) {
+    const gap = clause.slice(cursor, mention.start)
+    // The first object may follow a few words ("in tumours with: X"), later ones only list punctuation
+    if (list.length > 0 ? !LIST_GAP.test(gap) : /[,;]/.test(gap)) break
+    list.push(mention)
+    cursor = mention.end
+  }
+  return list
+}
+
+const relationClaims = (clause: string, mentions: EntityMention[], store: GraphStore): AnswerClaim[] => {
+  const lower = clause.toLowerCase()
+  const overlapsMention = (start: number, end: number) => mentions.some(mention => start < mention.end && end > mention.start)
+  const verbs: Array<{ cue: ClaimCue, start: number, end: number }> = []
+  CLAIM_CUES.forEach(cue => {
+    for (const match of lower.matchAll(new RegExp(cue.verb.source, 'g'))) {
+      const start = match.index!
+      const end = start + match[0].length
+      // Earlier cues win a span: "resistant to" is not also "to"-anything else
+      if (overlapsMention(start, end) || verbs.some(verb => start < verb.end && end > verb.start)) continue
+      verbs.push({ cue, start, end })
+    }
+  })
+
+  const claims: AnswerClaim[] = []
+  verbs.sort((a, b) => a.start - b.start).forEach(({ cue, start, end }) => {
+    const subject = mentions.filter(mention => mention.end <= start).sort((a, b) => b.end - a.end)[0]
+    const objects = listAfter(clause, mentions, end)
+    if (!subject || objects.length === 0) return
+    const negated = NEGATION.test(lower.slice(subject.end, start))
+    // "inhibited by X": X is the subject; "stops working in tumours with X": X is the edge source
+    const flipped = PASSIVE_AFTER_VERB.test(lower.slice(end)) !== Boolean(cue.reversed)
+    objects.forEach(object => {
+      const [source, target] = flipped ? [object.node, subject.node] : [subject.node, object.node]
+      if (source.id === target.id) return
+      claims.push({
+        kind: 'relation',
+        text: clause.slice(Math.min(subject.start, start), object.end).trim(),
+        source,
+        target,
+        relations: cue.relations,
+        negated,
+        ...judgeRelation(store, source, target, cue.relations, negated)
+      })
+    })
+  })
+  return claims
+}
+
+/**
+ * Verify an answer against the subgraph it was given (`nodes`) and the whole graph
+ * (`store`). Entities outside the subgraph, and drug names the graph does not know,
+ * are not-in-graph; relations are judged against every edge in the graph.
+ */
+export const verifyAnswer = (answer: string, nodes: KnowledgeNode[], linker: EntityLinker, store: GraphStore): AnswerVerification => {
+  const given = new Set(nodes.map(node => node.id))
+  const entityClaims = new Map<string, AnswerClaim>()
+  const claims: AnswerClaim[] = []
+
+  splitClauses(answer).forEach(text => {
+    const mentions = linker.link(text, { fuzzy: false }).sort((a, b) => a.start - b.start)
+    mentions.forEach(({ node, text: mentionText }) => {
+      if (entityClaims.has(node.id)) return
+      entityClaims.set(node.id, given.has(node.id)
+        ? { kind: 'entity', text: mentionText, status: 'supported', source: node, note: 'in the graph data given for this answer' }
+        : { kind: 'entity', text: mentionText, status: 'not-in-graph', source: node, note: 'in the knowledge graph, but not in the data given for this answer' })
+    })
+    for (const match of text.matchAll(DRUG_NAME)) {
+      const start = match.index!
+      const key = `unknown:${match[0].toLowerCase()}`
+      if (entityClaims.has(key) || mentions.some(mention => start < mention.end && start + match[0].length > mention.start)) continue
+      entityClaims.set(key, { kind: 'entity', text: match[0], status: 'not-in-graph', note: 'not in the knowledge graph' })
+    }
+    claims.push(...relationClaims(text, mentions, store))
+  })
+
+  // The same statement in the summary and again in a list counts once
+  const relationKeys = new Set<string>()
+  const uniqueClaims = claims.filter(claim => {
+    const key = `${claim.source!.id}|${claim.relations!.join('|')}|${claim.target!.id}|${claim.negated}`
+    if (relationKeys.has(key)) return false
+    relationKeys.add(key)
+    return true
+  })
+
+  const all = [...entityClaims.values(), ...uniqueClaims]
+  const counts = { 'supported': 0, 'not-in-graph': 0, 'contradicted': 0 }
+  all.forEach(claim => counts[claim.status]++)
+  return { claims: all, counts, score: all.length > 0 ? counts.supported / all.length : null }
+}
@@ -0,0 +1,154 @@
+import type { EntityMention, KnowledgeNode } from './knowledgeGraphService'
+import { getEntityTypeNouns } from './graphSchema'
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+  // Entities the turn was about (linked in the question, or returned by the graph)
+  entityIds: string[]
+}
+
+export interface ResolvedQuery {
+  // The query with pronouns replaced by the entities they refer to
+  query: string
+  // Entities carried over from earlier turns, for queryKnowledgeGraph
+  focus: KnowledgeNode[]
+  // Pronoun phrase -> entity label, for logging and debugging
+  substitutions: Array<{ phrase: string, replacement: string }>
+}
+
+interface EntityLinkerLike {
+  linkEntities(text: string): EntityMention[]
+}
+
+// Rough chars-per-token ratio for English text with the OpenAI tokenizers
+const CHARS_PER_TOKEN = 4
+const DEFAULT_HISTORY_TOKEN_BUDGET = 1500
+const MAX_FOCUS_ENTITIES = 3
+
+// "this drug", "these pathways": nouns come from the entity type registry
+const ENTITY_TYPE_NOUNS = getEntityTypeNouns()
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN)
+
+/**
+ * Multi-turn state for the chat pipeline.
+ * Keeps prior turns for the LLM (trimmed to a token budget) and tracks which
+ * graph entities the conversation is currently about, so follow-ups such as
+ * "what drugs target it?" or "and the pathways?" keep their referent.
+ */
+export class ConversationMemory {
+  private turns: ConversationTurn[] = []
+  // Subject entities, most recent first
+  private focus: KnowledgeNode[] = []
+  // Entities returned by the last graph query (the "answer set")
+  private lastResult: KnowledgeNode[] = []
+
+  constructor(private linker: EntityLinkerLike, private tokenBudget: number = DEFAULT_HISTORY_TOKEN_BUDGET) {}
+
+  public getFocus(): KnowledgeNode[] {
+    return this.focus
+  }
+
+  // Replace pronouns and "this drug"-style phrases with entities from earlier turns
+  public resolve(text: string): ResolvedQuery {
+    const substitutions: Array<{ phrase: string, replacement: string }> = []
+    if (this.focus.length === 0 && this.lastResult.length === 0) {
+      return { query: text, focus: [], substitutions }
+    }
+
+    // A question that names its own entities needs no resolution
+    if (this.linker.linkEntities(text).length > 0) {
+      return { query: text, focus: [], substitutions }
+    }
+
+    let query = text.replace(/\b(this|that|these|those|the same)\s+([a-z]+)\b/gi, (phrase, determiner: string, noun: string) => {
+      const type = ENTITY_TYPE_NOUNS[noun.toLowerCase()]
+      if (!type) return phrase
+      const referent = this.findReferent(type, /^(these|those)$/i.test(determiner))
+      if (referent.length === 0) return phrase
+      const replacement = referent.map(node => node.label).join(' and ')
+      substitutions.push({ phrase, replacement })
+      return replacement
+    })
+
+    query = query.replace(/\b(it|its|they|them|their)\b/gi, (phrase: string) => {
+      const pronoun = phrase.toLowerCase()
+      const plural = pronoun === 'they' || pronoun === 'them' || pronoun === 'their'
+      const referent = plural ? this.pluralReferent() : this.focus.slice(0, 1)
+      if (referent.length === 0) return phrase
+      const labels = referent.map(node => node.label).join(' and ')
+      const replacement = pronoun === 'its' || pronoun === 'their' ? `${labels}'s` : labels
+      substitutions.push({ phrase, replacement })
+      return replacement
+    })
+
+    if (substitutions.length > 0) {
+      console.log('🧠 Resolved follow-up:', substitutions)
+    }
+
+    // Ellipsis ("and the pathways?") still carries the current focus into the graph query
+    return { query, focus: substitutions.length > 0 ? [] : this.focus, substitutions }
+  }
+
+  // Record a completed exchange and move the entity focus forward
+  public recordTurn(userText: string, resolvedQuery: string, assistantText: string, resultNodes: KnowledgeNode[]): void {
+    const mentioned = this.distinctNodes(
+      this.linker.linkEntities(resolvedQuery).sort((a, b) => a.start - b.start).map(mention => mention.node)
+    )
+
+    if (mentioned.length > 0) {
+      this.focus = this.distinctNodes([...mentioned, ...this.focus]).slice(0, MAX_FOCUS_ENTITIES)
+    } else if (this.focus.length === 0 && resultNodes.length > 0) {
+      this.focus = resultNodes.slice(0, 1)
+    }
+    this.lastResult = resultNodes
+
+    this.turns.push({ role: 'user', content: userText, entityIds: mentioned.map(node => node.id) })
+    this.turns.push({ role: 'assistant', content: assistantText, entityIds: resultNodes.map(node => node.id) })
+  }
+
+  // Most recent turns that fit in the token budget, oldest first
+  public getHistory(tokenBudget: number = this.tokenBudget): Array<{ role: 'user' | 'assistant', content: string }> {
+    const history: Array<{ role: 'user' | 'assistant', content: string }> = []
+    let used = 0
+
+    // Walk back in user/assistant pairs so the model never sees half an exchange
+    for (let i = this.turns.length - 2; i >= 0; i -= 2) {
+      const pair = this.turns.slice(i, i + 2)
+      const cost = pair.reduce((total, turn) => total + estimateTokens(turn.content), 0)
+      if (used + cost > tokenBudget) break
+      used += cost
+      history.unshift(...pair.map(turn => ({ role: turn.role, content: turn.content })))
+    }
+    return history
+  }
+
+  public clear(): void {
+    this.turns = []
+    this.focus = []
+    this.lastResult = []
+  }
+
+  // Entities for "this drug" / "these pathways": focus first, then the last answer set
+  private findReferent(type: string, plural: boolean): KnowledgeNode[] {
+    const candidates = this.distinctNodes([...this.focus, ...this.lastResult]).filter(node => node.type === type)
+    return plural ? candidates : candidates.slice(0, 1)
+  }
+
+  // "they"/"them" usually point at the answer set rather than the subject
+  private pluralReferent(): KnowledgeNode[] {
+    const focusIds = new Set(this.focus.map(node => node.id))
+    const answers = this.lastResult.filter(node => !focusIds.has(node.id))
+    return answers.length > 1 ? answers : this.focus
+  }
+
+  private distinctNodes(nodes: KnowledgeNode[]): KnowledgeNode[] {
+    const seen = new Set<string>()
+    return nodes.filter(node => {
+      if (seen.has(node.id)) return false
+      seen.add(node.id)
+      return true
+    })
+  }
+}
@@ -0,0 +1,112 @@
+import type { GraphMeta, KnowledgeGraph } from './knowledgeGraphService'
+import { formatValidationReport, validateKnowledgeGraph, ValidationCode, ValidationReport } from './graphValidator'
+import { detectImportFormat, IMPORT_FORMATS, importKnowledgeGraph } from './graphImporters'
+
+export type DatasetSource = 'bundled' | 'url' | 'file'
+
+export interface DatasetInfo {
+  id: string
+  name: string
+  source: DatasetSource
+  // Where the data came from: URL or file name; empty for bundled graphs
+  origin: string
+  meta: GraphMeta
+  nodeCount: number
+  edgeCount: number
+  loadedAt: Date
+  validation: ValidationReport
+}
+
+// Problems that make a graph unusable; anything else is loaded with a warning
+const BLOCKING_CODES = new Set<ValidationCode>(['invalid-structure', 'missing-field', 'duplicate-id'])
+
+// Some exporters (Excel, PowerShell and other Windows tools) start a file with a byte order mark
+export const stripByteOrderMark = (text: string): string => text.replace(/^\uFEFF/, '')
+
+const parseGraphJson = (text: string, origin: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch (error: any) {
+    throw new Error(`${origin} is not valid JSON: ${error.message}`)
+  }
+}
+
+// JSON graphs are parsed as-is; SIF, GraphML, CSV and BioPAX go through the importers.
+// The mark is stripped once here, so format detection and every parser see the same text
+const parseGraphText = (content: string, origin: string): unknown => {
+  const text = stripByteOrderMark(content)
+  const format = detectImportFormat(origin, text)
+  if (format === 'json') return parseGraphJson(text, origin)
+  if (!format) throw new Error(`${origin} is not a recognised graph format (JSON, ${Object.values(IMPORT_FORMATS).map(f => f.label).join(', ')})`)
+  const result = importKnowledgeGraph(text, format, { name: origin.replace(/\.[a-z]+$/i, '') })
+  if (result.warnings.length > 0) console.warn(`⚠️ Import mapping notes for ${origin}:\n   ${result.warnings.join('\n   ')}`)
+  return result.graph
+}
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/\.json$/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'dataset'
+
+/**
+ * Named knowledge graph datasets available to the app.
+ * Graphs are validated on registration and rejected only for blocking problems
+ * (malformed structure, missing required fields, duplicate ids); other issues
+ * travel with the dataset so the UI can show them.
+ */
+export class DatasetRegistry {
+  private datasets = new Map<string, { info: DatasetInfo, graph: KnowledgeGraph }>()
+
+  public register(name: string, data: unknown, source: DatasetSource, origin: string = ''): DatasetInfo {
+    const validation = validateKnowledgeGraph(data)
+    const blocking = validation.errors.filter(issue => BLOCKING_CODES.has(issue.code))
+    if (blocking.length > 0) {
+      console.error(formatValidationReport(validation, name))
+      throw new Error(`"${name}" is not a usable knowledge graph: ${blocking[0].message}${blocking.length > 1 ? ` (and ${blocking.length - 1} more)` : ''}`)
+    }
+
+    const graph = data as KnowledgeGraph
+    const id = this.uniqueId(slugify(name))
+    const info: DatasetInfo = {
+      id,
+      name,
+      source,
+      origin,
+      meta: graph.meta || {},
+      nodeCount: graph.nodes.length,
+      edgeCount: graph.edges.length,
+      loadedAt: new Date(),
+      validation
+    }
+    this.datasets.set(id, { info, graph })
+    console.log(`📚 Registered dataset "${name}" (${info.nodeCount} nodes, ${info.edgeCount} edges, ${validation.errors.length} error(s))`)
+    return info
+  }
+
+  public async loadFromUrl(url: string, name?: string): Promise<DatasetInfo> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Could not load ${url}: ${response.status} ${response.statusText}`)
+    }
+    const fileName = new URL(url, window.location.href).pathname.split('/').pop() || url
+    const data = parseGraphText(await response.text(), fileName)
+    return this.register(name || (data as KnowledgeGraph).meta?.description || fileName, data, 'url', url)
+  }
+
+  public async loadFromFile(file: File, name?: string): Promise<DatasetInfo> {
+    const data = parseGraphText(await file.text(), file.name)
+    return this.register(name || file.name.replace(/\.[a-z]+$/i, ''), data, 'file', file.name)
+  }
+
+  public list(): DatasetInfo[] {
+    return Array.from(this.datasets.values()).map(entry => entry.info)
+  }
+
+  public get(id: string): { info: DatasetInfo, graph: KnowledgeGraph } | undefined {
+    return this.datasets.get(id)
+  }
+
+  private uniqueId(base: string): string {
+    let id = base
+    for (let i = 2; this.datasets.has(id); i++) id = `${base}-${i}`
+    return id
+  }
+}
@@ -0,0 +1,151 @@
+import type { KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import type { GraphPath, GraphStore } from './graphStore'
+
+/**
+ * Mechanism overlap for two or more drugs: what each one hits directly, which pathways
+ * those targets take part in (drug -inhibits-> target -participates_in-> pathway, plus one
+ * `activates` hop downstream), and where the drugs share an indication. Two drugs on the same
+ * target are flagged as redundant; pathways only one drug reaches are its complementary reach.
+ */
+
+export interface PathwayReach {
+  pathway: KnowledgeNode
+  // drug -> target (-> pathway (-> downstream pathway))
+  path: GraphPath
+  // Reached through an `activates` edge from a pathway the drug hits
+  downstream: boolean
+}
+
+export interface DrugReach {
+  drug: KnowledgeNode
+  targets: Array<{ node: KnowledgeNode, relation: KnowledgeRelation }>
+  pathways: PathwayReach[]
+  indications: Array<{ disease: KnowledgeNode, relation: KnowledgeRelation }>
+  // Every node the drug reaches, itself included, for highlighting
+  nodeIds: string[]
+}
+
+export interface SharedEntity {
+  node: KnowledgeNode
+  drugs: KnowledgeNode[]
+}
+
+export interface CombinationAnalysis {
+  drugs: DrugReach[]
+  // The same target hit by more than one drug: redundant rather than complementary
+  redundantTargets: SharedEntity[]
+  sharedPathways: SharedEntity[]
+  // Pathways only one drug reaches
+  complementaryPathways: SharedEntity[]
+  // Diseases every drug is indicated for
+  sharedIndications: SharedEntity[]
+  nodes: KnowledgeNode[]
+  relations: KnowledgeRelation[]
+}
+
+export const DRUG_ACTION_RELATIONS = ['inhibits', 'blocks', 'neutralizes', 'targets', 'targets_gene', 'activates']
+
+const reachOf = (drug: KnowledgeNode, store: GraphStore): DrugReach => {
+  const targets = store.getNeighbors(drug.id, { direction: 'out', relations: DRUG_ACTION_RELATIONS })
+    .filter(({ node }) => node.type !== 'disease')
+    .map(({ node, relation }) => ({ node, relation }))
+
+  const pathways = new Map<string, PathwayReach>()
+  const addPathway = (pathway: KnowledgeNode, path: GraphPath, downstream: boolean) => {
+    const current = pathways.get(pathway.id)
+    // Keep the shortest chain to each pathway
+    if (!current || path.steps.length < current.path.steps.length) pathways.set(pathway.id, { pathway, path, downstream })
+  }
+  targets.forEach(({ node: target, relation }) => {
+    const toTarget: GraphPath = { nodes: [drug, target], steps: [{ relation, direction: 'out' }] }
+    const direct = target.type === 'pathway'
+      ? [{ pathway: target, path: toTarget }]
+      : store.getNeighbors(target.id, { direction: 'out', relations: ['participates_in'], types: ['pathway'] }).map(({ node: pathway, relation: participates }) => ({
+        pathway,
+        path: { nodes: [...toTarget.nodes, pathway], steps: [...toTarget.steps, { relation: participates, direction: 'out' as const }] }
+      }))
+    direct.forEach(({ pathway, path }) => {
+      addPathway(pathway, path, false)
+      store.getNeighbors(pathway.id, { direction: 'out', relations: ['activates'], types: ['pathway'] }).forEach(({ node: next, relation: activates }) => {
+        addPathway(next, { nodes: [...path.nodes, next], steps: [...path.steps, { relation: activates, direction: 'out' }] }, true)
+      })
+    })
+  })
+
+  const indications = store.getNeighbors(drug.id, { direction: 'out', relations: ['indicated_for'], types: ['disease'] })
+    .map(({ node: disease, relation }) => ({ disease, relation }))
+
+  const nodeIds = new Set<string>([drug.id])
+  targets.forEach(({ node }) => nodeIds.add(node.id))
+  pathways.forEach(({ path }) => path.nodes.forEach(node => nodeIds.add(node.id)))
+  indications.forEach(({ disease }) => nodeIds.add(disease.id))
+
+  return { drug, targets, pathways: Array.from(pathways.values()), indications, nodeIds: Array.from(nodeIds) }
+}
+
+// Group nodes by the drugs that reach them, in first-seen order
+const groupByNode = (entries: Array<{ node: KnowledgeNode, drug: KnowledgeNode }>): SharedEntity[] => {
+  const groups = new Map<string, SharedEntity>()
+  entries.forEach(({ node, drug }) => {
+    const group = groups.get(node.id) || { node, drugs: [] }
+    if (!group.drugs.some(existing => existing.id === drug.id)) group.drugs.push(drug)
+    groups.set(node.id, group)
+  })
+  return Array.from(groups.values())
+}
+
+export const analyzeCombination = (drugs: KnowledgeNode[], store: GraphStore): CombinationAnalysis => {
+  const reaches = drugs.map(drug => reachOf(drug, store))
+
+  const targets = groupByNode(reaches.flatMap(reach => reach.targets.map(({ node }) => ({ node, drug: reach.drug }))))
+  const pathways = groupByNode(reaches.flatMap(reach => reach.pathways.map(({ pathway }) => ({ node: pathway, drug: reach.drug }))))
+  const diseases = groupByNode(reaches.flatMap(reach => reach.indications.map(({ disease }) => ({ node: disease, drug: reach.drug }))))
+
+  const nodes = new Map<string, KnowledgeNode>()
+  const relations = new Set<KnowledgeRelation>()
+  reaches.forEach(reach => {
+    nodes.set(reach.drug.id, reach.drug)
+    reach.targets.forEach(({ node, relation }) => {
+      nodes.set(node.id, node)
+      relations.add(relation)
+    })
+    reach.pathways.forEach(({ path }) => {
+      path.nodes.forEach(node => nodes.set(node.id, node))
+      path.steps.forEach(step => relations.add(step.relation))
+    })
+    reach.indications.forEach(({ disease, relation }) => {
+      nodes.set(disease.id, disease)
+      relations.add(relation)
+    })
+  })
+
+  return {
+    drugs: reaches,
+    redundantTargets: targets.filter(target => target.drugs.length > 1),
+    sharedPathways: pathways.filter(pathway => pathway.drugs.length > 1),
+    complementaryPathways: pathways.filter(pathway => pathway.drugs.length === 1),
+    sharedIndications: diseases.filter(disease => disease.drugs.length === drugs.length),
+    nodes: Array.from(nodes.values()),
+    relations: Array.from(relations)
+  }
+}
+
+const labels = (nodes: KnowledgeNode[]): string => nodes.map(node => node.label).join(' + ')
+
+// Plain-text summary for the LLM context
+export const formatCombinationAnalysis = (analysis: CombinationAnalysis): string => {
+  const lines = ['COMBINATION ANALYSIS:']
+  analysis.drugs.forEach(reach => {
+    const targets = reach.targets.map(({ node, relation }) => `${relation.relation.replace(/_/g, ' ')} ${node.label}`).join(', ') || 'no targets in graph'
+    const pathways = reach.pathways.map(({ pathway, downstream }) => downstream ? `${pathway.label} (downstream)` : pathway.label).join(', ') || 'none'
+    lines.push(`- ${reach.drug.label}: ${targets}; pathways: ${pathways}`)
+  })
+  lines.push(analysis.redundantTargets.length > 0
+    ? `- REDUNDANT TARGETING: ${analysis.redundantTargets.map(target => `${target.node.label} (${labels(target.drugs)})`).join(', ')}`
+    : '- No shared direct targets')
+  lines.push(`- Shared pathways: ${analysis.sharedPathways.map(pathway => `${pathway.node.label} (${labels(pathway.drugs)})`).join(', ') || 'none'}`)
+  lines.push(`- Complementary pathways: ${analysis.complementaryPathways.map(pathway => `${pathway.node.label} (${pathway.drugs[0].label} only)`).join(', ') || 'none'}`)
+  lines.push(`- Indicated together for: ${analysis.sharedIndications.map(disease => disease.node.label).join(', ') || 'no shared indication'}`)
+  lines.push('These are mechanism overlaps in the graph, not evidence that the combination is safe or effective; say so.')
+  return lines.join('\n')
+}
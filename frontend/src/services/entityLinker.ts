@@ -0,0 +1,280 @@
+import type { KnowledgeNode } from './knowledgeGraphService'
+import { compactTerm, editDistance, normalizeTerm, similarity } from './textMatching'
+
+export interface EntityMention {
+  node: KnowledgeNode
+  // Surface text exactly as it appears in the query
+  text: string
+  // Character offsets into the original query, end exclusive
+  start: number
+  end: number
+  matchedBy: 'label' | 'alias' | 'synonym'
+  // The label, alias or synonym that was matched
+  matchedTerm: string
+  // Edits needed to turn the surface text into matchedTerm (0 for exact matches)
+  distance: number
+  // How sure we are that the text refers to this node, 0-1
+  confidence: number
+  // Ranking weight: confidence adjusted for label vs alias matches
+  score: number
+}
+
+export interface LinkOptions {
+  // Keep mentions nested inside longer ones ("EGFR" inside "EGFR Mutation")
+  allowOverlaps?: boolean
+  types?: string[]
+  // Allow edit-distance matches for misspellings (on by default)
+  fuzzy?: boolean
+}
+
+// Node id -> extra names, e.g. brand names and previous HGNC symbols
+export type SynonymTable = { [nodeId: string]: string[] }
+
+interface Token {
+  text: string
+  compact: string
+  start: number
+  end: number
+}
+
+interface IndexEntry {
+  node: KnowledgeNode
+  matchedBy: 'label' | 'alias' | 'synonym'
+  term: string
+}
+
+// Symbols this short collide with ordinary words ("met", "ar", "ret")
+const SHORT_SYMBOL_LENGTH = 3
+const MATCH_WEIGHTS = { label: 1, synonym: 0.9, alias: 0.85 }
+const AMBIGUOUS_CONFIDENCE = 0.6
+
+// Fuzzy matching only kicks in for terms at least this long, and tolerates
+// one edit up to 7 characters and two edits beyond that. Terms with digits
+// (CDK4/6, BRCA1, PIK3CA) are identifiers and never fuzzy-matched.
+const FUZZY_MIN_LENGTH = 5
+const FUZZY_LONG_TERM = 8
+const FUZZY_MAX_WORDS = 3
+// An edit-distance hit is never as certain as an exact one, however close
+const FUZZY_CONFIDENCE_WEIGHT = 0.9
+
+// Below this confidence the UI should confirm the match with the user
+export const LOW_CONFIDENCE_THRESHOLD = 0.9
+
+// Query words that must never be fuzzy-matched onto an entity on their own
+const STOP_WORDS = new Set([
+  'what', 'which', 'about', 'drugs', 'drug', 'genes', 'gene', 'cancer', 'cancers', 'therapy',
+  'therapies', 'treatment', 'treatments', 'pathway', 'pathways', 'target', 'targets', 'related',
+  'associated', 'between', 'mutation', 'mutations', 'tell', 'explain', 'show', 'there', 'their'
+])
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = []
+  const pattern = /[\p{L}\p{N}]+/gu
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const compact = compactTerm(match[0])
+    if (compact) {
+      tokens.push({ text: match[0], compact, start: match.index, end: match.index + match[0].length })
+    }
+  }
+  return tokens
+}
+
+/**
+ * Recognises graph entities in free text.
+ * The dictionary is built from the loaded graph's labels and `properties.aliases`,
+ * plus an optional synonym table, so any entity in the data can be found without
+ * code changes. Matching works on whole tokens, which keeps "MET" out of
+ * "metastatic" and "AR" out of "pancreatic"; case, hyphens and Greek letters are
+ * normalized away, and misspellings fall back to edit-distance matching.
+ */
+export class EntityLinker {
+  private index = new Map<string, IndexEntry[]>()
+  // `${length}:${firstChar}` -> index keys, to keep fuzzy lookups cheap on large graphs
+  private fuzzyBuckets = new Map<string, string[]>()
+  private maxPhraseWords = 1
+
+  constructor(nodes: KnowledgeNode[], synonyms: SynonymTable = {}) {
+    const nodesById = new Map<string, KnowledgeNode>()
+    nodes.forEach(node => {
+      if (!node?.id) return
+      nodesById.set(node.id, node)
+      if (node.label) this.addEntry(node.label, { node, matchedBy: 'label', term: node.label })
+      const aliases = node.properties?.aliases
+      if (Array.isArray(aliases)) {
+        aliases.forEach((alias: unknown) => {
+          if (typeof alias === 'string') this.addEntry(alias, { node, matchedBy: 'alias', term: alias })
+        })
+      }
+    })
+
+    // Synonyms only apply to nodes present in the loaded graph
+    Object.entries(synonyms).forEach(([nodeId, terms]) => {
+      const node = nodesById.get(nodeId)
+      if (!node || !Array.isArray(terms)) return
+      terms.forEach(term => this.addEntry(term, { node, matchedBy: 'synonym', term }))
+    })
+  }
+
+  // Ranked mentions: best score first, then by position in the text
+  public link(text: string, options: LinkOptions = {}): EntityMention[] {
+    const { fuzzy = true } = options
+    const tokens = tokenize(text)
+    const caseSensitive = this.usesCapitalisation(text, tokens)
+    let candidates: EntityMention[] = []
+
+    const maxWords = Math.max(this.maxPhraseWords, FUZZY_MAX_WORDS)
+    for (let i = 0; i < tokens.length; i++) {
+      for (let size = 1; size <= maxWords && i + size <= tokens.length; size++) {
+        const phraseTokens = tokens.slice(i, i + size)
+        const key = phraseTokens.map(t => t.compact).join('')
+        const start = phraseTokens[0].start
+        const end = phraseTokens[phraseTokens.length - 1].end
+        const surface = text.slice(start, end)
+
+        const exact = this.index.get(key)?.filter(entry => !this.needsExactCase(entry.term) || surface === entry.term)
+        if (exact && exact.length > 0) {
+          const ambiguous = this.isAmbiguousSurface(surface)
+          // A short lowercase word in an otherwise cased query is almost always plain English
+          if (ambiguous && caseSensitive) continue
+          exact.forEach(entry => {
+            candidates.push(this.createMention(entry, surface, start, end, 0, ambiguous ? AMBIGUOUS_CONFIDENCE : 1))
+          })
+        } else if (fuzzy && size <= FUZZY_MAX_WORDS && !phraseTokens.every(t => STOP_WORDS.has(t.compact))) {
+          this.fuzzyLookup(key).forEach(({ entry, distance, confidence }) => {
+            candidates.push(this.createMention(entry, surface, start, end, distance, confidence))
+          })
+        }
+      }
+    }
+
+    if (options.types) {
+      candidates = candidates.filter(mention => options.types!.includes(mention.node.type))
+    }
+    candidates = this.dedupe(candidates)
+    if (!options.allowOverlaps) {
+      candidates = this.resolveOverlaps(candidates)
+    }
+    return candidates.sort((a, b) => b.score - a.score || a.start - b.start)
+  }
+
+  // Distinct linked nodes in the order they appear in the text
+  public linkNodes(text: string, options: LinkOptions = {}): KnowledgeNode[] {
+    const seen = new Set<string>()
+    return this.link(text, options)
+      .sort((a, b) => a.start - b.start || b.score - a.score)
+      .filter(mention => {
+        if (seen.has(mention.node.id)) return false
+        seen.add(mention.node.id)
+        return true
+      })
+      .map(mention => mention.node)
+  }
+
+  private createMention(entry: IndexEntry, surface: string, start: number, end: number, distance: number, confidence: number): EntityMention {
+    return {
+      node: entry.node,
+      text: surface,
+      start,
+      end,
+      matchedBy: entry.matchedBy,
+      matchedTerm: entry.term,
+      distance,
+      confidence: Number(confidence.toFixed(3)),
+      score: Number((confidence * MATCH_WEIGHTS[entry.matchedBy]).toFixed(3))
+    }
+  }
+
+  // Closest index terms within the allowed number of edits
+  private fuzzyLookup(key: string): Array<{ entry: IndexEntry, distance: number, confidence: number }> {
+    if (key.length < FUZZY_MIN_LENGTH || /\d/.test(key)) return []
+    const maxDistance = key.length >= FUZZY_LONG_TERM ? 2 : 1
+    let best: Array<{ entry: IndexEntry, distance: number, confidence: number }> = []
+    let bestDistance = maxDistance + 1
+
+    for (let length = key.length - maxDistance; length <= key.length + maxDistance; length++) {
+      // Typos rarely touch the first letter, so only compare terms that share it
+      const bucket = this.fuzzyBuckets.get(`${length}:${key[0]}`)
+      bucket?.forEach(candidate => {
+        // One character is the whole difference between CDK4 and CDK6, or BRCA1 and BRCA2
+        if (/\d/.test(candidate)) return
+        const distance = editDistance(key, candidate, maxDistance)
+        if (distance > maxDistance || distance > bestDistance) return
+        const confidence = similarity(key, candidate, distance) * FUZZY_CONFIDENCE_WEIGHT
+        const matches = this.index.get(candidate)!.map(entry => ({ entry, distance, confidence }))
+        if (distance < bestDistance) {
+          best = matches
+          bestDistance = distance
+        } else {
+          best.push(...matches)
+        }
+      })
+    }
+    return best
+  }
+
+  private addEntry(text: string, entry: IndexEntry): void {
+    const key = compactTerm(text)
+    if (!key) return
+    let entries = this.index.get(key)
+    if (!entries) {
+      entries = []
+      this.index.set(key, entries)
+      const bucketKey = `${key.length}:${key[0]}`
+      const bucket = this.fuzzyBuckets.get(bucketKey) || []
+      bucket.push(key)
+      this.fuzzyBuckets.set(bucketKey, bucket)
+    }
+    if (!entries.some(existing => existing.node.id === entry.node.id && existing.matchedBy === entry.matchedBy)) {
+      entries.push(entry)
+    }
+    this.maxPhraseWords = Math.max(this.maxPhraseWords, normalizeTerm(text).split(' ').length)
+  }
+
+  // Whether the writer capitalises deliberately, ignoring capitals that only start a sentence
+  private usesCapitalisation(text: string, tokens: Token[]): boolean {
+    return tokens.some((token, i) => {
+      if (!/[A-Z]/.test(token.text)) return false
+      const before = text.slice(0, token.start).trimEnd()
+      const sentenceStart = i === 0 || /[.!?]$/.test(before)
+      return !sentenceStart || /[A-Z]/.test(token.text.slice(1))
+    })
+  }
+
+  // Short all-caps symbols ("MET", "RET", "AR") only match as written, never the English word
+  private needsExactCase(term: string): boolean {
+    return term.length <= SHORT_SYMBOL_LENGTH && /[A-Z]/.test(term) && term === term.toUpperCase()
+  }
+
+  private isAmbiguousSurface(surface: string): boolean {
+    return surface.length <= SHORT_SYMBOL_LENGTH && surface === surface.toLowerCase() && !/\d/.test(surface)
+  }
+
+  // One mention per node and span, keeping the strongest way it was matched
+  private dedupe(mentions: EntityMention[]): EntityMention[] {
+    const best = new Map<string, EntityMention>()
+    mentions.forEach(mention => {
+      const key = `${mention.node.id}@${mention.start}:${mention.end}`
+      const existing = best.get(key)
+      if (!existing || mention.score > existing.score) best.set(key, mention)
+    })
+    return Array.from(best.values())
+  }
+
+  // Longest span wins, exact matches beat fuzzy ones; mentions sharing the winning span are all kept
+  private resolveOverlaps(mentions: EntityMention[]): EntityMention[] {
+    const bySpan = [...mentions].sort((a, b) =>
+      (a.distance === 0 ? 0 : 1) - (b.distance === 0 ? 0 : 1) ||
+      (b.end - b.start) - (a.end - a.start) || b.score - a.score || a.start - b.start
+    )
+    const kept: EntityMention[] = []
+    bySpan.forEach(mention => {
+      const conflicts = kept.some(other =>
+        mention.start < other.end && other.start < mention.end &&
+        !(mention.start === other.start && mention.end === other.end)
+      )
+      if (!conflicts) kept.push(mention)
+    })
+    return kept
+  }
+}
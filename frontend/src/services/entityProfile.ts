@@ -0,0 +1,165 @@
+import type { KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import type { GraphStore } from './graphStore'
+
+/**
+ * Entity profiles: a node's (often deeply nested) properties arranged by a layout for
+ * its type, plus its relations grouped by relation type and direction.
+ */
+
+export interface ProfileField {
+  key: string
+  label: string
+  value: unknown
+}
+
+export interface ProfileSection {
+  title: string
+  fields: ProfileField[]
+}
+
+export interface RelationNeighbor {
+  node: KnowledgeNode
+  relation: KnowledgeRelation
+}
+
+export interface RelationGroup {
+  relation: string
+  // 'out' when the profiled node is the source
+  direction: 'out' | 'in'
+  neighbors: RelationNeighbor[]
+}
+
+export interface EntityProfile {
+  node: KnowledgeNode
+  description?: string
+  aliases: string[]
+  // Short facts shown under the title, e.g. chromosome or drug class
+  headline: ProfileField[]
+  sections: ProfileSection[]
+  relations: RelationGroup[]
+}
+
+interface ProfileLayout {
+  headline: string[]
+  sections: Array<{ title: string, keys: string[] }>
+}
+
+// Shown by the panel itself rather than as fields
+const SHARED_KEYS = ['description', 'aliases', 'evidence']
+
+// Which property goes where, per entity type; keys a node lacks are skipped
+const PROFILE_LAYOUTS: { [type: string]: ProfileLayout } = {
+  gene: {
+    headline: ['full_name', 'official_name', 'nickname', 'chromosome', 'protein_class'],
+    sections: [
+      { title: 'Function', keys: ['function', 'mechanism', 'ligands'] },
+      { title: 'Structure', keys: ['structure'] },
+      { title: 'Clinical significance', keys: ['clinical_significance', 'biomarkers'] },
+      { title: 'Therapeutics', keys: ['therapeutic_targets', 'therapeutic_implications', 'drug_resistance', 'resistance_mechanisms'] },
+      { title: 'Pathways', keys: ['pathways'] }
+    ]
+  },
+  drug: {
+    headline: ['brand_name', 'brand_names', 'drug_class', 'molecular_target', 'target', 'indication'],
+    sections: [
+      { title: 'Mechanism of action', keys: ['mechanism_of_action', 'mechanism'] },
+      { title: 'Pharmacology', keys: ['pharmacology'] },
+      { title: 'Clinical applications', keys: ['clinical_applications', 'biomarkers'] },
+      { title: 'Adverse effects', keys: ['adverse_effects'] },
+      { title: 'Resistance', keys: ['resistance_mutations', 'resistance_mechanisms'] },
+      { title: 'Approval history', keys: ['approval_history'] }
+    ]
+  },
+  disease: {
+    headline: [],
+    sections: [
+      { title: 'Epidemiology', keys: ['epidemiology', 'risk_factors'] },
+      { title: 'Subtypes', keys: ['subtypes', 'staging'] },
+      { title: 'Molecular biology', keys: ['pathogenesis', 'molecular_pathways', 'molecular_alterations', 'biomarkers'] }
+    ]
+  },
+  pathway: {
+    headline: ['full_name'],
+    sections: [
+      { title: 'Function', keys: ['function', 'cellular_functions', 'mechanism'] },
+      { title: 'Components', keys: ['components', 'regulation'] },
+      { title: 'Cancer relevance', keys: ['cancer_relevance', 'clinical_significance', 'resistance_mechanisms', 'biomarkers'] }
+    ]
+  },
+  biomarker: {
+    headline: ['full_name', 'official_name', 'biomarker_type', 'protein_class'],
+    sections: [
+      { title: 'Function', keys: ['function', 'normal_function', 'mechanism'] },
+      { title: 'Clinical use', keys: ['clinical_significance', 'clinical_applications', 'clinical_utility', 'cancer_expression', 'guidelines'] },
+      { title: 'Therapeutic implications', keys: ['therapeutic_implications'] },
+      { title: 'Limitations', keys: ['limitations', 'emerging_biomarkers'] }
+    ]
+  }
+}
+
+// Proteins, variants and imported types list their properties in file order
+const DEFAULT_LAYOUT: ProfileLayout = {
+  headline: ['full_name', 'official_name', 'gene', 'protein_change', 'hgvs_p', 'variant_type', 'exon', 'protein_class'],
+  sections: []
+}
+
+const ACRONYMS = new Set(['fda', 'ema', 'nsclc', 'cns', 'asco', 'nccn', 'dna', 'rna', 'parp', 'hgvs', 'pi3k', 'akt', 'mtor', 'egfr'])
+
+// "5_year_survival" -> "5 year survival", "fda_approval" -> "FDA approval", "EGFR_mutations" -> "EGFR mutations"
+export const formatPropertyKey = (key: string): string => key
+  .split(/[_\s]+/)
+  .filter(Boolean)
+  .map((word, index) => {
+    if (ACRONYMS.has(word.toLowerCase())) return word.toUpperCase()
+    return index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word
+  })
+  .join(' ')
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0)
+
+// Relations grouped by type, outgoing first, each group's neighbours in file order
+export const getRelationGroups = (id: string, store: GraphStore): RelationGroup[] => {
+  const groups = new Map<string, RelationGroup>()
+  store.getNeighbors(id).forEach(({ node, relation, direction }) => {
+    const key = `${direction}:${relation.relation}`
+    if (!groups.has(key)) groups.set(key, { relation: relation.relation, direction, neighbors: [] })
+    groups.get(key)!.neighbors.push({ node, relation })
+  })
+  const directionOrder = { out: 0, in: 1 }
+  return Array.from(groups.values()).sort((a, b) =>
+    directionOrder[a.direction] - directionOrder[b.direction] || a.relation.localeCompare(b.relation))
+}
+
+export const buildEntityProfile = (node: KnowledgeNode, store: GraphStore): EntityProfile => {
+  const properties = node.properties || {}
+  const layout = PROFILE_LAYOUTS[node.type] || DEFAULT_LAYOUT
+  const used = new Set(SHARED_KEYS)
+
+  const toFields = (keys: string[]): ProfileField[] => keys
+    .filter(key => !used.has(key) && !isEmpty(properties[key]))
+    .map(key => {
+      used.add(key)
+      return { key, label: formatPropertyKey(key), value: properties[key] }
+    })
+
+  const headline = toFields(layout.headline)
+  const sections = layout.sections
+    .map(section => ({ title: section.title, fields: toFields(section.keys) }))
+    .filter(section => section.fields.length > 0)
+  // Whatever the layout does not place still gets shown
+  const rest = toFields(Object.keys(properties))
+  if (rest.length > 0) sections.push({ title: layout.sections.length > 0 ? 'Other properties' : 'Properties', fields: rest })
+
+  const aliases = properties.aliases
+  return {
+    node,
+    description: typeof properties.description === 'string' ? properties.description : undefined,
+    aliases: Array.isArray(aliases) ? aliases.map(String) : typeof aliases === 'string' ? [aliases] : [],
+    headline,
+    sections,
+    relations: getRelationGroups(node.id, store)
+  }
+}
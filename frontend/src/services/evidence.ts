@@ -0,0 +1,62 @@
+import { Evidence, EVIDENCE_LEVELS } from './graphSchema'
+
+// Evidence entries on a node or edge, skipping malformed ones (the validator reports those)
+export const getEvidence = (item: { properties?: { evidence?: unknown } } | undefined): Evidence[] => {
+  const evidence = item?.properties?.evidence
+  if (!Array.isArray(evidence)) return []
+  return evidence.filter((entry): entry is Evidence => typeof entry === 'object' && entry !== null && typeof entry.source === 'string')
+}
+
+// PubMed first, then the DOI resolver
+export const evidenceUrl = (evidence: Evidence): string | undefined => {
+  if (evidence.pmid) return `https://pubmed.ncbi.nlm.nih.gov/${evidence.pmid}/`
+  if (evidence.doi) return `https://doi.org/${evidence.doi}`
+  return undefined
+}
+
+export const describeEvidenceLevel = (level: string): string => EVIDENCE_LEVELS[level] || level
+
+// One-line reference: "FLAURA, Soria et al. NEJM 2018 — FDA label, 2018-04-18, OncoKB 1, PMID 29151359"
+export const formatCitation = (evidence: Evidence): string => {
+  const details = [
+    evidence.source,
+    evidence.date,
+    evidence.level,
+    evidence.pmid && `PMID ${evidence.pmid}`,
+    !evidence.pmid && evidence.doi && `doi:${evidence.doi}`
+  ].filter(Boolean).join(', ')
+  return evidence.title ? `${evidence.title} — ${details}` : details
+}
+
+/**
+ * Numbers evidence entries for the LLM context: each distinct source gets one
+ * [n] marker however many facts it supports, and `format()` lists them.
+ */
+export class CitationIndex {
+  private entries: Evidence[] = []
+  private numbers = new Map<string, number>()
+
+  // Markers such as " [1][3]" for the evidence, or '' when there is none
+  public cite(evidence: Evidence[]): string {
+    return evidence.map(entry => `[${this.number(entry)}]`).join('').replace(/^(?=\[)/, ' ')
+  }
+
+  public get size(): number {
+    return this.entries.length
+  }
+
+  public format(): string {
+    return this.entries.map((entry, index) => `[${index + 1}] ${formatCitation(entry)}`).join('\n')
+  }
+
+  private number(entry: Evidence): number {
+    const key = entry.pmid ? `pmid:${entry.pmid}` : entry.doi ? `doi:${entry.doi.toLowerCase()}` : formatCitation(entry)
+    let number = this.numbers.get(key)
+    if (!number) {
+      this.entries.push(entry)
+      number = this.entries.length
+      this.numbers.set(key, number)
+    }
+    return number
+  }
+}
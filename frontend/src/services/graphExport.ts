@@ -0,0 +1,387 @@
+import { csvFormat } from 'd3'
+import type { GraphData } from '../components/KnowledgeGraphVisualization'
+import { EDGE_STYLES, getActiveEntityTypes, getEdgeStyle, getNodeColor } from './graphStyle'
+
+/**
+ * Exporters for the graph a visualization renders. Every format is built from
+ * the same GraphData, so what is downloaded matches what is on screen.
+ */
+
+export type ExportFormat = 'json' | 'cytoscape' | 'cx' | 'graphml' | 'svg' | 'markdown' | 'csv'
+
+export interface ExportFile {
+  fileName: string
+  mimeType: string
+  content: string
+}
+
+export interface Position {
+  x: number
+  y: number
+}
+
+export interface ExportOptions {
+  // Base file name without extension
+  name?: string
+  title?: string
+  // Node positions from the live layout; missing nodes are placed on a circle
+  positions?: Map<string, Position>
+}
+
+export const EXPORT_FORMATS: { [format in ExportFormat]: { label: string, description: string } } = {
+  json: { label: 'JSON', description: 'Raw graph data' },
+  cytoscape: { label: 'Cytoscape.js', description: 'Cytoscape.js / Cytoscape Desktop JSON (.cyjs)' },
+  cx: { label: 'CX', description: 'Cytoscape Exchange format for NDEx and Cytoscape Desktop' },
+  graphml: { label: 'GraphML', description: 'GraphML for yEd, Gephi and Cytoscape' },
+  svg: { label: 'SVG', description: 'Vector image with labels and legend' },
+  markdown: { label: 'Markdown', description: 'Entity and relationship tables for reports' },
+  csv: { label: 'CSV', description: 'Entity and relationship tables (two files)' }
+}
+
+type AttributeValue = string | number | boolean | string[]
+
+// Flatten properties to values every format can hold: scalars and string lists; anything else as JSON
+const flattenProperties = (properties: { [key: string]: unknown } = {}): { [key: string]: AttributeValue } => {
+  const flat: { [key: string]: AttributeValue } = {}
+  Object.entries(properties).forEach(([key, value]) => {
+    if (value === undefined || value === null) return
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') flat[key] = value
+    else if (Array.isArray(value) && value.every(item => typeof item === 'string')) flat[key] = value as string[]
+    else flat[key] = JSON.stringify(value)
+  })
+  return flat
+}
+
+const relationLabel = (relation: string): string => relation.replace(/_/g, ' ')
+
+const edgeId = (index: number): string => `e${index}`
+
+// Live positions where known; the rest evenly spaced on a circle
+const layoutPositions = (data: GraphData, known: Map<string, Position> = new Map()): Map<string, Position> => {
+  const positions = new Map<string, Position>()
+  const radius = Math.max(150, data.nodes.length * 18)
+  data.nodes.forEach((node, index) => {
+    const position = known.get(node.id)
+    if (position && Number.isFinite(position.x) && Number.isFinite(position.y)) {
+      positions.set(node.id, { x: position.x, y: position.y })
+    } else {
+      const angle = (2 * Math.PI * index) / Math.max(1, data.nodes.length) - Math.PI / 2
+      positions.set(node.id, { x: radius + radius * Math.cos(angle), y: radius + radius * Math.sin(angle) })
+    }
+  })
+  return positions
+}
+
+export const exportJson = (data: GraphData): string => JSON.stringify(data, null, 2)
+
+// Cytoscape.js elements JSON, which Cytoscape Desktop imports as .cyjs
+export const exportCytoscape = (data: GraphData, options: ExportOptions = {}): string => {
+  const positions = layoutPositions(data, options.positions)
+  return JSON.stringify({
+    format_version: '1.0',
+    generated_by: 'OncoGraph',
+    target_cytoscapejs_version: '~2.1',
+    data: { name: options.title || 'OncoGraph knowledge graph' },
+    elements: {
+      nodes: data.nodes.map(node => ({
+        data: { ...flattenProperties(node.properties), id: node.id, name: node.label, type: node.type, color: getNodeColor(node.type) },
+        position: positions.get(node.id)
+      })),
+      edges: data.edges.map((edge, index) => ({
+        data: {
+          ...flattenProperties(edge.properties),
+          id: edgeId(index),
+          source: edge.source,
+          target: edge.target,
+          interaction: edge.relation,
+          name: `${edge.source} (${edge.relation}) ${edge.target}`
+        }
+      }))
+    }
+  }, null, 2)
+}
+
+const cxDataType = (value: AttributeValue): string | undefined => {
+  if (Array.isArray(value)) return 'list_of_string'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'long' : 'double'
+  if (typeof value === 'boolean') return 'boolean'
+  return undefined
+}
+
+const cxAttribute = (po: number, n: string, value: AttributeValue) => {
+  const d = cxDataType(value)
+  return d ? { po, n, v: value, d } : { po, n, v: value }
+}
+
+// CX (Cytoscape Exchange) version 1: a list of aspects with numeric element ids
+export const exportCx = (data: GraphData, options: ExportOptions = {}): string => {
+  const nodeIds = new Map(data.nodes.map((node, index) => [node.id, index]))
+  const edges = data.edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+  const edgeOffset = data.nodes.length
+
+  const nodeAttributes = data.nodes.flatMap((node, index) => Object.entries({
+    ...flattenProperties(node.properties), id: node.id, type: node.type, color: getNodeColor(node.type)
+  }).map(([name, value]) => cxAttribute(index, name, value)))
+  const edgeAttributes = edges.flatMap((edge, index) =>
+    Object.entries(flattenProperties(edge.properties)).map(([name, value]) => cxAttribute(edgeOffset + index, name, value)))
+  const positions = layoutPositions(data, options.positions)
+  const cartesianLayout = data.nodes.map((node, index) => ({ node: index, x: positions.get(node.id)!.x, y: positions.get(node.id)!.y }))
+
+  const aspects: Array<[string, unknown[]]> = [
+    ['networkAttributes', [{ n: 'name', v: options.title || 'OncoGraph knowledge graph' }]],
+    ['nodes', data.nodes.map((node, index) => ({ '@id': index, n: node.label }))],
+    ['edges', edges.map((edge, index) => ({ '@id': edgeOffset + index, s: nodeIds.get(edge.source), t: nodeIds.get(edge.target), i: edge.relation }))],
+    ['nodeAttributes', nodeAttributes],
+    ['edgeAttributes', edgeAttributes],
+    ['cartesianLayout', cartesianLayout]
+  ]
+
+  return JSON.stringify([
+    { numberVerification: [{ longNumber: 281474976710655 }] },
+    {
+      metaData: aspects.map(([name, elements]) => ({
+        name,
+        elementCount: elements.length,
+        version: '1.0',
+        consistencyGroup: 1,
+        ...(name === 'nodes' || name === 'edges' ? { idCounter: edgeOffset + edges.length } : {})
+      }))
+    },
+    ...aspects.map(([name, elements]) => ({ [name]: elements })),
+    { status: [{ error: '', success: true }] }
+  ], null, 2)
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+
+// String lists are joined with ';', which the GraphML importer splits back into aliases
+const xmlValue = (value: AttributeValue): string => escapeXml(Array.isArray(value) ? value.join('; ') : String(value))
+
+const graphmlType = (values: AttributeValue[]): string => {
+  if (values.every(value => typeof value === 'boolean')) return 'boolean'
+  if (values.every(value => typeof value === 'number' && Number.isInteger(value))) return 'long'
+  if (values.every(value => typeof value === 'number')) return 'double'
+  return 'string'
+}
+
+export const exportGraphml = (data: GraphData): string => {
+  const nodeRecords = data.nodes.map(node => ({
+    id: node.id,
+    attributes: { ...flattenProperties(node.properties), label: node.label, type: node.type, color: getNodeColor(node.type) } as { [key: string]: AttributeValue }
+  }))
+  const edgeRecords = data.edges.map(edge => ({
+    source: edge.source,
+    target: edge.target,
+    attributes: { ...flattenProperties(edge.properties), relation: edge.relation } as { [key: string]: AttributeValue }
+  }))
+
+  const declareKeys = (domain: 'node' | 'edge', records: Array<{ attributes: { [key: string]: AttributeValue } }>) => {
+    const names = Array.from(new Set(records.flatMap(record => Object.keys(record.attributes))))
+    return names.map((name, index) => ({
+      id: `${domain[0]}${index}`,
+      name,
+      domain,
+      type: graphmlType(records.map(record => record.attributes[name]).filter(value => value !== undefined))
+    }))
+  }
+  const nodeKeys = declareKeys('node', nodeRecords)
+  const edgeKeys = declareKeys('edge', edgeRecords)
+
+  const dataLines = (keys: Array<{ id: string, name: string }>, attributes: { [key: string]: AttributeValue }) =>
+    keys.filter(key => attributes[key.name] !== undefined)
+      .map(key => `      <data key="${key.id}">${xmlValue(attributes[key.name])}</data>`)
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...[...nodeKeys, ...edgeKeys].map(key =>
+      `  <key id="${key.id}" for="${key.domain}" attr.name="${escapeXml(key.name)}" attr.type="${key.type}"/>`),
+    '  <graph id="G" edgedefault="directed">',
+    ...nodeRecords.flatMap(record => [
+      `    <node id="${escapeXml(record.id)}">`, ...dataLines(nodeKeys, record.attributes), '    </node>'
+    ]),
+    ...edgeRecords.flatMap((record, index) => [
+      `    <edge id="${edgeId(index)}" source="${escapeXml(record.source)}" target="${escapeXml(record.target)}">`,
+      ...dataLines(edgeKeys, record.attributes),
+      '    </edge>'
+    ]),
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n')
+}
+
+const NODE_RADIUS = 20
+
+// Standalone SVG: no scripts, filters or external fonts, so it opens anywhere and scales cleanly
+export const exportSvg = (data: GraphData, options: ExportOptions = {}): string => {
+  const positions = layoutPositions(data, options.positions)
+  const points = Array.from(positions.values())
+  const legendTypes = getActiveEntityTypes(data.nodes)
+  const legendWidth = 170
+  const legendHeight = 30 + legendTypes.length * 18
+  const padding = 60
+  const minX = Math.min(...points.map(p => p.x)) - padding
+  const minY = Math.min(...points.map(p => p.y)) - padding
+  const graphWidth = Math.max(...points.map(p => p.x)) + padding - minX
+  const graphHeight = Math.max(...points.map(p => p.y)) + padding - minY
+  // The legend and title sit in a band left of and above the graph
+  const offsetX = legendWidth + 20 - minX
+  const offsetY = 40 - minY
+  const width = Math.ceil(graphWidth + legendWidth + 20)
+  const height = Math.ceil(Math.max(graphHeight, legendHeight) + 40)
+  const at = (id: string) => {
+    const position = positions.get(id)!
+    return { x: +(position.x + offsetX).toFixed(1), y: +(position.y + offsetY).toFixed(1) }
+  }
+
+  const edges = data.edges.filter(edge => positions.has(edge.source) && positions.has(edge.target)).map(edge => {
+    const from = at(edge.source)
+    const to = at(edge.target)
+    // Stop the line at the target circle so the arrowhead stays visible
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1
+    const endX = +(to.x - ((to.x - from.x) / length) * (NODE_RADIUS + 2)).toFixed(1)
+    const endY = +(to.y - ((to.y - from.y) / length) * (NODE_RADIUS + 2)).toFixed(1)
+    const midX = +((from.x + to.x) / 2).toFixed(1)
+    const midY = +((from.y + to.y) / 2 - 5).toFixed(1)
+    const style = getEdgeStyle(edge.relation)
+    const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : ''
+    return [
+      `    <line x1="${from.x}" y1="${from.y}" x2="${endX}" y2="${endY}" stroke="${style.stroke}" stroke-opacity="0.8" stroke-width="2"${dash} marker-end="url(#${style.marker})"/>`,
+      `    <text x="${midX}" y="${midY}" text-anchor="middle" font-size="10" fill="${style.labelColor}">${escapeXml(relationLabel(edge.relation))}</text>`
+    ].join('\n')
+  })
+
+  const nodes = data.nodes.map(node => {
+    const { x, y } = at(node.id)
+    return [
+      `    <g>`,
+      `      <title>${escapeXml(`${node.label} (${node.type})`)}</title>`,
+      `      <circle cx="${x}" cy="${y}" r="${NODE_RADIUS}" fill="${getNodeColor(node.type)}" stroke="#ffffff" stroke-width="2"/>`,
+      `      <text x="${x}" y="${y + 35}" text-anchor="middle" font-size="12" font-weight="bold" fill="#ffffff">${escapeXml(node.label)}</text>`,
+      `    </g>`
+    ].join('\n')
+  })
+
+  const legend = [
+    `    <rect x="10" y="40" width="${legendWidth - 10}" height="${legendHeight}" rx="6" fill="#000000" fill-opacity="0.8" stroke="#00f5ff" stroke-opacity="0.3"/>`,
+    `    <text x="20" y="60" font-size="12" font-weight="bold" fill="#00f5ff">Entity Types</text>`,
+    ...legendTypes.map((entityType, index) => {
+      const y = 78 + index * 18
+      return `    <circle cx="26" cy="${y - 4}" r="5" fill="${entityType.color}"/>\n` +
+        `    <text x="38" y="${y}" font-size="11" fill="#e0f7ff">${escapeXml(entityType.label)} (${entityType.count})</text>`
+    })
+  ]
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Monaco, Menlo, Consolas, monospace">`,
+    '  <defs>',
+    ...EDGE_STYLES.map(style => [
+      `    <marker id="${style.marker}" viewBox="0 -5 10 10" refX="10" refY="0" orient="auto" markerWidth="8" markerHeight="8">`,
+      `      <path d="M 0,-5 L 10,0 L 0,5" fill="${style.stroke}"/>`,
+      '    </marker>'
+    ].join('\n')),
+    '  </defs>',
+    `  <rect width="100%" height="100%" fill="#000000"/>`,
+    `  <text x="10" y="24" font-size="14" font-weight="bold" fill="#00f5ff">${escapeXml(options.title || 'Knowledge Graph')} · ${data.nodes.length} entities, ${data.edges.length} relationships</text>`,
+    '  <g class="links">',
+    ...edges,
+    '  </g>',
+    '  <g class="nodes">',
+    ...nodes,
+    '  </g>',
+    '  <g class="legend">',
+    ...legend,
+    '  </g>',
+    '</svg>',
+    ''
+  ].join('\n')
+}
+
+const markdownCell = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return ''
+  const text = Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+}
+
+export const exportMarkdown = (data: GraphData, options: ExportOptions = {}): string => {
+  const labels = new Map(data.nodes.map(node => [node.id, node.label]))
+  const lines = [
+    `# ${options.title || 'Knowledge Graph'}`,
+    '',
+    `${data.nodes.length} entities, ${data.edges.length} relationships.`,
+    '',
+    '## Entities',
+    '',
+    '| Entity | Type | ID | Aliases | Description |',
+    '| --- | --- | --- | --- | --- |',
+    ...data.nodes.map(node =>
+      `| ${markdownCell(node.label)} | ${markdownCell(node.type)} | \`${node.id}\` | ${markdownCell(node.properties?.aliases)} | ${markdownCell(node.properties?.description || node.properties?.function)} |`),
+    '',
+    '## Relationships',
+    '',
+    '| Source | Relationship | Target | Details |',
+    '| --- | --- | --- | --- |',
+    ...data.edges.map(edge => {
+      const details = [edge.properties?.mechanism, edge.properties?.context].filter(Boolean).join('; ')
+      return `| ${markdownCell(labels.get(edge.source) || edge.source)} | ${relationLabel(edge.relation)} | ${markdownCell(labels.get(edge.target) || edge.target)} | ${markdownCell(details)} |`
+    }),
+    ''
+  ]
+  return lines.join('\n')
+}
+
+// Column layout matches the CSV importer, so exported tables can be loaded back
+export const exportCsv = (data: GraphData): { nodes: string, edges: string } => {
+  const labels = new Map(data.nodes.map(node => [node.id, node.label]))
+  const cell = (value: unknown): string =>
+    value === undefined || value === null ? '' : Array.isArray(value) && value.every(item => typeof item === 'string') ? value.join('; ') : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+  return {
+    nodes: csvFormat(data.nodes.map(node => ({
+      id: node.id,
+      label: node.label,
+      type: node.type,
+      aliases: cell(node.properties?.aliases),
+      description: cell(node.properties?.description || node.properties?.function)
+    })), ['id', 'label', 'type', 'aliases', 'description']),
+    edges: csvFormat(data.edges.map(edge => ({
+      source: edge.source,
+      relation: edge.relation,
+      target: edge.target,
+      source_label: labels.get(edge.source) || edge.source,
+      target_label: labels.get(edge.target) || edge.target,
+      mechanism: cell(edge.properties?.mechanism),
+      context: cell(edge.properties?.context)
+    })), ['source', 'relation', 'target', 'source_label', 'target_label', 'mechanism', 'context'])
+  }
+}
+
+// Files to download for a format; CSV produces separate entity and relationship tables
+export const exportGraph = (data: GraphData, format: ExportFormat, options: ExportOptions = {}): ExportFile[] => {
+  const name = options.name || 'knowledge-graph'
+  switch (format) {
+    case 'json':
+      return [{ fileName: `${name}.json`, mimeType: 'application/json', content: exportJson(data) }]
+    case 'cytoscape':
+      return [{ fileName: `${name}.cyjs`, mimeType: 'application/json', content: exportCytoscape(data, options) }]
+    case 'cx':
+      return [{ fileName: `${name}.cx`, mimeType: 'application/json', content: exportCx(data, options) }]
+    case 'graphml':
+      return [{ fileName: `${name}.graphml`, mimeType: 'application/xml', content: exportGraphml(data) }]
+    case 'svg':
+      return [{ fileName: `${name}.svg`, mimeType: 'image/svg+xml', content: exportSvg(data, options) }]
+    case 'markdown':
+      return [{ fileName: `${name}.md`, mimeType: 'text/markdown', content: exportMarkdown(data, options) }]
+    case 'csv': {
+      const { nodes, edges } = exportCsv(data)
+      return [
+        { fileName: `${name}-entities.csv`, mimeType: 'text/csv', content: nodes },
+        { fileName: `${name}-relationships.csv`, mimeType: 'text/csv', content: edges }
+      ]
+    }
+  }
+}
@@ -0,0 +1,560 @@
+import { csvParse, tsvParse } from 'd3'
+import type { GraphMeta, KnowledgeGraph, KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import { ENTITY_TYPE_SCHEMAS, RELATION_TYPES } from './graphSchema'
+import { compactTerm } from './textMatching'
+import { validateKnowledgeGraph, ValidationReport } from './graphValidator'
+import { parseXml, xmlAttribute, xmlChildren, xmlChildText, XmlElement } from './xmlTree'
+
+export type ImportFormat = 'sif' | 'graphml' | 'csv' | 'biopax'
+
+export const IMPORT_FORMATS: { [format in ImportFormat]: { label: string, extensions: string[] } } = {
+  sif: { label: 'Simple Interaction Format', extensions: ['.sif', '.txt'] },
+  graphml: { label: 'GraphML', extensions: ['.graphml'] },
+  csv: { label: 'CSV/TSV node and edge tables', extensions: ['.csv', '.tsv'] },
+  biopax: { label: 'BioPAX Level 3 (RDF/XML)', extensions: ['.owl', '.rdf', '.biopax'] }
+}
+
+export interface ImportOptions {
+  // Type for entities whose type is missing or not in our vocabulary
+  defaultType?: string
+  // Extra or overriding mappings, e.g. { protein: 'gene' } or { 'phosphorylates': 'activates' }
+  typeMap?: { [sourceType: string]: string }
+  relationMap?: { [sourceRelation: string]: string }
+  // CSV only: node table to go with the edge table passed as text
+  nodesCsv?: string
+  // Written to meta.description
+  name?: string
+}
+
+export interface ImportResult {
+  format: ImportFormat
+  graph: KnowledgeGraph
+  // Mapping decisions a curator should review (unknown types, relations, endpoints)
+  warnings: string[]
+  validation: ValidationReport
+}
+
+// Source vocabulary -> our entity types, keyed by compactTerm of the source type
+const TYPE_ALIASES: { [sourceType: string]: string } = {
+  gene: 'gene', dna: 'gene', dnaregion: 'gene', dnareference: 'gene', rna: 'gene', rnaregion: 'gene', rnareference: 'gene',
+  protein: 'protein', proteinreference: 'protein', complex: 'protein', enzyme: 'protein', receptor: 'protein',
+  drug: 'drug', smallmolecule: 'drug', smallmoleculereference: 'drug', compound: 'drug', chemical: 'drug', chemicalentity: 'drug',
+  pathway: 'pathway',
+  disease: 'disease', phenotype: 'disease', condition: 'disease', cancer: 'disease',
+  biomarker: 'biomarker', marker: 'biomarker'
+}
+
+// Source vocabulary -> our relations, keyed by lowercase snake_case
+const RELATION_ALIASES: { [sourceRelation: string]: string } = {
+  inhibition: 'inhibits', inhibit: 'inhibits', negative_regulation: 'inhibits', represses: 'inhibits', suppresses: 'inhibits',
+  activation: 'activates', activate: 'activates', stimulates: 'activates', positive_regulation: 'activates', induces: 'activates',
+  controls_state_change_of: 'regulates', controls_expression_of: 'regulates', controls_phosphorylation_of: 'regulates',
+  controls_transport_of: 'regulates', controls_production_of: 'regulates', catalysis_precedes: 'regulates',
+  regulation: 'regulates', pd: 'regulates',
+  in_complex_with: 'associated_with', interacts_with: 'associated_with', neighbor_of: 'associated_with',
+  binds: 'associated_with', interaction: 'associated_with', pp: 'associated_with', used_to_produce: 'associated_with',
+  consumption_controlled_by: 'associated_with', reacts_with: 'associated_with',
+  component_of: 'participates_in', member_of: 'participates_in', part_of: 'participates_in', pathway_component: 'participates_in',
+  chemical_affects: 'targets_gene', drug_target: 'targets_gene', target_of: 'targets_gene',
+  treats: 'indicated_for', treatment_for: 'indicated_for',
+  resistance: 'confers_resistance_to', confers_resistance: 'confers_resistance_to', causes_resistance_to: 'confers_resistance_to'
+}
+
+const FALLBACK_RELATION = 'associated_with'
+
+const snakeCase = (text: string): string => text.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+const splitList = (value: string): string[] => value.split(/[;|]/).map(item => item.trim()).filter(Boolean)
+
+// Assembles nodes and edges in our vocabulary and collects mapping warnings
+class GraphBuilder {
+  private nodes = new Map<string, KnowledgeNode>()
+  private nodeKeys = new Map<string, string>()
+  private edges = new Map<string, KnowledgeRelation>()
+  private warningCounts = new Map<string, number>()
+  private defaultType: string
+
+  constructor(private options: ImportOptions) {
+    this.defaultType = this.mapType(options.defaultType || 'gene') || 'gene'
+  }
+
+  public warn(message: string): void {
+    this.warningCounts.set(message, (this.warningCounts.get(message) || 0) + 1)
+  }
+
+  private mapType(sourceType: string | undefined): string | undefined {
+    if (!sourceType) return undefined
+    const key = compactTerm(sourceType)
+    const overrides = Object.entries(this.options.typeMap || {}).find(([from]) => compactTerm(from) === key)
+    if (overrides) return overrides[1]
+    if (ENTITY_TYPE_SCHEMAS[key]) return key
+    return TYPE_ALIASES[key]
+  }
+
+  // Node for a label and source type; repeated labels of the same type share one node
+  public node(label: string, sourceType?: string, properties: { [key: string]: unknown } = {}): string {
+    let type = this.mapType(sourceType)
+    if (!type) {
+      if (sourceType) this.warn(`Unknown entity type "${sourceType}" mapped to "${this.defaultType}"`)
+      type = this.defaultType
+    }
+    const cleanLabel = label.trim()
+    const key = `${type}|${compactTerm(cleanLabel)}`
+    const existingId = this.nodeKeys.get(key)
+    if (existingId) {
+      const existing = this.nodes.get(existingId)!
+      Object.entries(properties).forEach(([name, value]) => {
+        if (existing.properties![name] === undefined) existing.properties![name] = value
+      })
+      return existingId
+    }
+
+    const schema = ENTITY_TYPE_SCHEMAS[type]
+    let id = `${schema?.idPrefix || type}:${cleanLabel}`
+    for (let i = 2; this.nodes.has(id); i++) id = `${schema?.idPrefix || type}:${cleanLabel} (${i})`
+    this.nodes.set(id, { id, label: cleanLabel, type, color: schema?.color || '#6c757d', properties: { ...properties } })
+    this.nodeKeys.set(key, id)
+    return id
+  }
+
+  private mapRelation(sourceRelation: string | undefined, targetId: string): { relation: string, mapped: boolean } {
+    const key = snakeCase(sourceRelation || '')
+    const override = Object.entries(this.options.relationMap || {}).find(([from]) => snakeCase(from) === key)
+    let relation = override ? override[1] : RELATION_TYPES[key] ? key : RELATION_ALIASES[key]
+    // BioPAX control types come as ACTIVATION_ALLOSTERIC, INHIBITION_COMPETITIVE, ...
+    if (!relation && key.startsWith('activation')) relation = 'activates'
+    if (!relation && key.startsWith('inhibition')) relation = 'inhibits'
+    // `targets` is reserved for pathways; anything else a drug targets is a gene product
+    if (relation === 'targets' && this.nodes.get(targetId)?.type !== 'pathway') relation = 'targets_gene'
+    return relation ? { relation, mapped: true } : { relation: FALLBACK_RELATION, mapped: false }
+  }
+
+  public edge(source: string, target: string, sourceRelation: string | undefined, properties: { [key: string]: unknown } = {}): void {
+    if (source === target) return
+    const { relation, mapped } = this.mapRelation(sourceRelation, target)
+    const edgeProperties = { ...properties }
+    if (!mapped) {
+      this.warn(sourceRelation
+        ? `Unknown relation "${sourceRelation}" mapped to "${FALLBACK_RELATION}"`
+        : `Edge without a relation mapped to "${FALLBACK_RELATION}"`)
+      if (sourceRelation) edgeProperties.original_relation = sourceRelation
+    }
+    const key = `${source}|${relation}|${target}`
+    if (this.edges.has(key)) return
+    this.edges.set(key, { source, target, relation, properties: edgeProperties })
+  }
+
+  public build(format: ImportFormat, meta: GraphMeta = {}): ImportResult {
+    const graph: KnowledgeGraph = {
+      meta: {
+        description: this.options.name || `Imported from ${IMPORT_FORMATS[format].label}`,
+        last_updated: new Date().toISOString().slice(0, 10),
+        imported_from: format,
+        ...meta
+      },
+      nodes: Array.from(this.nodes.values()),
+      edges: Array.from(this.edges.values())
+    }
+    const warnings = Array.from(this.warningCounts.entries()).map(([message, count]) => count > 1 ? `${message} (${count}×)` : message)
+    return { format, graph, warnings, validation: validateKnowledgeGraph(graph) }
+  }
+}
+
+/**
+ * SIF: `source <relation> target [target ...]` per line, tab or space separated.
+ * Also reads Pathway Commons extended SIF, whose PARTICIPANT_A/INTERACTION_TYPE
+ * edge section carries data sources and PubMed ids and whose PARTICIPANT node
+ * section supplies entity types and names.
+ */
+const importSif = (text: string, builder: GraphBuilder): ImportResult => {
+  const rows: string[][] = []
+  const participants = new Map<string, { type?: string, name?: string, xrefs?: string[] }>()
+  let section: 'edges' | 'nodes' = 'edges'
+  let columns: string[] = []
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim() || line.startsWith('#')) return
+    const cells = (line.includes('\t') ? line.split('\t') : line.trim().split(/\s+/)).map(cell => cell.trim())
+    if (cells[0] === 'PARTICIPANT_A') {
+      section = 'edges'
+      columns = cells
+      return
+    }
+    if (cells[0] === 'PARTICIPANT') {
+      section = 'nodes'
+      columns = cells
+      return
+    }
+    if (section === 'nodes') {
+      const cell = (name: string) => cells[columns.indexOf(name)] || undefined
+      participants.set(cells[0], {
+        type: cell('PARTICIPANT_TYPE'),
+        name: cell('PARTICIPANT_NAME'),
+        xrefs: splitList(cell('UNIFICATION_XREF') || '')
+      })
+      return
+    }
+    rows.push(cells)
+  })
+
+  const nodeFor = (participant: string): string => {
+    const info = participants.get(participant)
+    // Pathway Commons uses ids like CHEBI:15422 for small molecules and gives the name separately
+    const label = participant.includes(':') && info?.name ? info.name : participant
+    const type = info?.type || (/^chebi:/i.test(participant) ? 'SmallMolecule' : undefined)
+    const properties: { [key: string]: unknown } = {}
+    if (label !== participant) properties.source_id = participant
+    if (info?.xrefs?.length) properties.xrefs = info.xrefs
+    return builder.node(label, type, properties)
+  }
+
+  rows.forEach(cells => {
+    if (cells.length === 1) {
+      nodeFor(cells[0])
+      return
+    }
+    if (cells.length === 2) {
+      builder.warn('Line with a relation but no target skipped')
+      return
+    }
+    const [source, relation, ...rest] = cells
+    const extended = columns.length > 0
+    const targets = extended ? [rest[0]] : rest
+    const properties: { [key: string]: unknown } = {}
+    if (extended) {
+      const cell = (name: string) => cells[columns.indexOf(name)] || undefined
+      const dataSources = cell('INTERACTION_DATA_SOURCE')
+      const pubmed = cell('INTERACTION_PUBMED_ID')
+      const pathways = cell('PATHWAY_NAMES')
+      if (dataSources) properties.data_sources = splitList(dataSources)
+      if (pubmed) properties.pubmed_ids = splitList(pubmed)
+      if (pathways) properties.pathways = splitList(pathways)
+    }
+    const sourceId = nodeFor(source)
+    targets.filter(Boolean).forEach(target => builder.edge(sourceId, nodeFor(target), relation, properties))
+  })
+
+  return builder.build('sif')
+}
+
+const LABEL_KEYS = ['label', 'name', 'displayname', 'symbol', 'title']
+const TYPE_KEYS = ['type', 'entitytype', 'nodetype', 'category', 'class', 'kind']
+const RELATION_KEYS = ['relation', 'interaction', 'interactiontype', 'predicate', 'edgetype', 'type', 'label']
+
+const findKey = (names: string[], candidates: string[]): string | undefined =>
+  candidates.map(candidate => names.find(name => compactTerm(name) === candidate)).find(Boolean)
+
+// Keep list-like columns as arrays so they match the schema (aliases: string[])
+const propertyValue = (name: string, value: string): unknown =>
+  ['aliases', 'synonyms', 'xrefs', 'brandnames'].includes(compactTerm(name)) ? splitList(value) : value
+
+const collectProperties = (record: { [name: string]: string | undefined }, skip: Array<string | undefined>): { [key: string]: unknown } => {
+  const properties: { [key: string]: unknown } = {}
+  Object.entries(record).forEach(([name, value]) => {
+    if (skip.includes(name) || value === undefined || value.trim() === '') return
+    const key = compactTerm(name) === 'synonyms' ? 'aliases' : snakeCase(name)
+    properties[key] = propertyValue(name, value.trim())
+  })
+  return properties
+}
+
+// Text of a GraphML <data> value; yEd nests labels in <y:NodeLabel> elements
+const deepText = (element: XmlElement): string =>
+  (element.text + element.children.map(deepText).join(' ')).trim()
+
+const importGraphml = (text: string, builder: GraphBuilder): ImportResult => {
+  const root = parseXml(text)
+  if (root.localName !== 'graphml') throw new Error(`Expected a <graphml> document, found <${root.name}>`)
+
+  const keys = new Map<string, { name: string, domain: string, defaultValue?: string }>()
+  xmlChildren(root, 'key').forEach(key => {
+    keys.set(xmlAttribute(key, 'id') || '', {
+      name: xmlAttribute(key, 'attr.name') || xmlAttribute(key, 'id') || '',
+      domain: xmlAttribute(key, 'for') || 'all',
+      defaultValue: xmlChildText(key, 'default')
+    })
+  })
+
+  const readData = (element: XmlElement): { [name: string]: string } => {
+    const values: { [name: string]: string } = {}
+    keys.forEach(key => {
+      if (key.defaultValue !== undefined && (key.domain === element.localName || key.domain === 'all')) values[key.name] = key.defaultValue
+    })
+    xmlChildren(element, 'data').forEach(data => {
+      const key = keys.get(xmlAttribute(data, 'key') || '')
+      values[key?.name || xmlAttribute(data, 'key') || 'data'] = deepText(data)
+    })
+    return values
+  }
+
+  // Nodes and edges may sit in nested <graph> elements
+  const nodes: XmlElement[] = []
+  const edges: XmlElement[] = []
+  const walk = (element: XmlElement) => element.children.forEach(child => {
+    if (child.localName === 'node') nodes.push(child)
+    if (child.localName === 'edge') edges.push(child)
+    walk(child)
+  })
+  walk(root)
+
+  const idMap = new Map<string, string>()
+  nodes.forEach(element => {
+    const id = xmlAttribute(element, 'id') || ''
+    const data = readData(element)
+    const names = Object.keys(data)
+    const labelKey = findKey(names, LABEL_KEYS)
+    const typeKey = findKey(names, TYPE_KEYS)
+    const label = (labelKey && data[labelKey]) || id
+    const properties = collectProperties(data, [labelKey, typeKey])
+    if (label !== id) properties.source_id = id
+    idMap.set(id, builder.node(label, typeKey ? data[typeKey] : undefined, properties))
+  })
+
+  edges.forEach(element => {
+    const data = readData(element)
+    const relationKey = findKey(Object.keys(data), RELATION_KEYS)
+    const endpoint = (end: 'source' | 'target'): string => {
+      const ref = xmlAttribute(element, end) || ''
+      if (!idMap.has(ref)) {
+        builder.warn(`Edge endpoint "${ref}" is not a declared node; created with the default type`)
+        idMap.set(ref, builder.node(ref))
+      }
+      return idMap.get(ref)!
+    }
+    builder.edge(endpoint('source'), endpoint('target'), relationKey ? data[relationKey] : undefined, collectProperties(data, [relationKey]))
+  })
+
+  return builder.build('graphml')
+}
+
+const parseTable = (text: string) => {
+  const header = text.split('\n', 1)[0]
+  return header.includes('\t') && !header.includes(',') ? tsvParse(text) : csvParse(text)
+}
+
+const SOURCE_COLUMNS = ['source', 'from', 'subject', 'sourceid', 'node1', 'participanta']
+const TARGET_COLUMNS = ['target', 'to', 'object', 'targetid', 'node2', 'participantb']
+const NODE_ID_COLUMNS = ['id', 'nodeid', 'node', 'participant']
+
+/**
+ * CSV or TSV tables. The edge table needs source and target columns (relation,
+ * source_type and target_type optional); an optional node table supplies
+ * id, label, type and extra properties. A lone node table is also accepted.
+ */
+const importCsv = (text: string, builder: GraphBuilder, nodesCsv?: string): ImportResult => {
+  let edgeTable = parseTable(text)
+  let nodeTable = nodesCsv ? parseTable(nodesCsv) : undefined
+  if (!findKey(edgeTable.columns, SOURCE_COLUMNS) && findKey(edgeTable.columns, [...NODE_ID_COLUMNS, ...LABEL_KEYS])) {
+    nodeTable = edgeTable
+    edgeTable = Object.assign([], { columns: [] as string[] })
+  }
+
+  const idMap = new Map<string, string>()
+  if (nodeTable) {
+    const idKey = findKey(nodeTable.columns, NODE_ID_COLUMNS)
+    const labelKey = findKey(nodeTable.columns, LABEL_KEYS)
+    const typeKey = findKey(nodeTable.columns, TYPE_KEYS)
+    if (!idKey && !labelKey) throw new Error('Node table needs an id or label column')
+    nodeTable.forEach(row => {
+      const id = (idKey && row[idKey]?.trim()) || (labelKey && row[labelKey]?.trim())
+      if (!id) return
+      const label = (labelKey && row[labelKey]?.trim()) || id
+      const properties = collectProperties(row, [idKey, labelKey, typeKey])
+      if (label !== id) properties.source_id = id
+      idMap.set(id, builder.node(label, typeKey ? row[typeKey] : undefined, properties))
+    })
+  }
+
+  if (edgeTable.length > 0) {
+    const sourceKey = findKey(edgeTable.columns, SOURCE_COLUMNS)
+    const targetKey = findKey(edgeTable.columns, TARGET_COLUMNS)
+    if (!sourceKey || !targetKey) throw new Error(`Edge table needs source and target columns, found: ${edgeTable.columns.join(', ')}`)
+    const relationKey = findKey(edgeTable.columns, RELATION_KEYS.filter(key => key !== 'label'))
+    const sourceTypeKey = findKey(edgeTable.columns, ['sourcetype'])
+    const targetTypeKey = findKey(edgeTable.columns, ['targettype'])
+
+    const endpoint = (value: string, type: string | undefined): string => {
+      if (!idMap.has(value)) {
+        if (nodeTable) builder.warn(`Edge endpoint "${value}" is not in the node table; created with the default type`)
+        idMap.set(value, builder.node(value, type))
+      }
+      return idMap.get(value)!
+    }
+
+    edgeTable.forEach((row, index) => {
+      const source = row[sourceKey]?.trim()
+      const target = row[targetKey]?.trim()
+      if (!source || !target) {
+        builder.warn(`Edge row ${index + 2} without a source or target skipped`)
+        return
+      }
+      builder.edge(
+        endpoint(source, sourceTypeKey ? row[sourceTypeKey] : undefined),
+        endpoint(target, targetTypeKey ? row[targetTypeKey] : undefined),
+        relationKey ? row[relationKey] : undefined,
+        collectProperties(row, [sourceKey, targetKey, relationKey, sourceTypeKey, targetTypeKey])
+      )
+    })
+  }
+
+  return builder.build('csv')
+}
+
+const BIOPAX_ENTITY_CLASSES = ['Protein', 'SmallMolecule', 'Dna', 'DnaRegion', 'Rna', 'RnaRegion', 'Complex', 'PhysicalEntity', 'Gene']
+const BIOPAX_CONTROL_CLASSES = ['Control', 'Catalysis', 'Modulation', 'TemplateReactionRegulation']
+
+/**
+ * BioPAX Level 3 subset: physical entities (proteins, small molecules, DNA/RNA,
+ * complexes), pathways and their components, and interactions. Controls become
+ * activates/inhibits/regulates edges from each controller to what the controlled
+ * interaction produces; molecular interactions link their participants; complex
+ * components are associated with the complex; every entity taking part in a
+ * pathway's interactions participates_in the pathway. Conversions themselves do
+ * not add edges, so cofactors like ATP only appear as pathway participants.
+ */
+const importBiopax = (text: string, builder: GraphBuilder): ImportResult => {
+  const root = parseXml(text)
+  if (root.localName !== 'RDF') throw new Error(`Expected an RDF/XML BioPAX document, found <${root.name}>`)
+
+  // Index every identified element, including ones defined inline as property values
+  const elements = new Map<string, XmlElement>()
+  const fragment = (ref: string) => ref.slice(ref.lastIndexOf('#') + 1)
+  const index = (element: XmlElement) => {
+    const id = xmlAttribute(element, 'ID') || xmlAttribute(element, 'about')
+    if (id) {
+      elements.set(id, element)
+      elements.set(fragment(id), element)
+    }
+    element.children.forEach(index)
+  }
+  root.children.forEach(index)
+
+  const refs = (element: XmlElement, property: string): XmlElement[] =>
+    xmlChildren(element, property).flatMap(child => {
+      if (child.children.length > 0) return child.children
+      const resource = xmlAttribute(child, 'resource')
+      const target = resource && (elements.get(resource) || elements.get(fragment(resource)))
+      return target ? [target] : []
+    })
+
+  const texts = (element: XmlElement, property: string): string[] =>
+    xmlChildren(element, property).map(child => child.text.trim()).filter(Boolean)
+
+  const nameOf = (element: XmlElement): string => {
+    const reference = refs(element, 'entityReference')[0]
+    return [element, reference].filter(Boolean).flatMap(source => [
+      ...texts(source, 'displayName'), ...texts(source, 'standardName'), ...texts(source, 'name')
+    ])[0] || fragment(xmlAttribute(element, 'ID') || xmlAttribute(element, 'about') || element.localName)
+  }
+
+  const xrefsOf = (element: XmlElement): string[] =>
+    [element, ...refs(element, 'entityReference')].flatMap(source => refs(source, 'xref'))
+      .filter(xref => xref.localName === 'UnificationXref')
+      .map(xref => `${xmlChildText(xref, 'db') || 'xref'}:${xmlChildText(xref, 'id') || ''}`)
+
+  const nodeIds = new Map<XmlElement, string>()
+  const nodeFor = (element: XmlElement): string => {
+    if (!nodeIds.has(element)) {
+      const label = nameOf(element)
+      const names = [element, ...refs(element, 'entityReference')].flatMap(source => [...texts(source, 'name'), ...texts(source, 'standardName')])
+      const aliases = Array.from(new Set(names.filter(name => name !== label)))
+      const xrefs = xrefsOf(element)
+      const properties: { [key: string]: unknown } = {}
+      if (aliases.length) properties.aliases = aliases
+      if (xrefs.length) properties.xrefs = xrefs
+      const comment = texts(element, 'comment')[0]
+      if (comment) properties.description = comment
+      nodeIds.set(element, builder.node(label, element.localName === 'PhysicalEntity' ? undefined : element.localName, properties))
+    }
+    return nodeIds.get(element)!
+  }
+
+  const isEntity = (element: XmlElement) => BIOPAX_ENTITY_CLASSES.includes(element.localName)
+
+  // Entities an interaction involves, and what a control acts on
+  const participantsOf = (interaction: XmlElement, seen = new Set<XmlElement>()): XmlElement[] => {
+    if (seen.has(interaction)) return []
+    seen.add(interaction)
+    if (BIOPAX_CONTROL_CLASSES.includes(interaction.localName)) {
+      return [...refs(interaction, 'controller'), ...refs(interaction, 'controlled').flatMap(c => isEntity(c) ? [c] : participantsOf(c, seen))].filter(isEntity)
+    }
+    return ['left', 'right', 'participant', 'template', 'product'].flatMap(property => refs(interaction, property)).filter(isEntity)
+  }
+  // Controlling a reaction acts on its products; controlling another control (a drug
+  // inhibiting a catalysis) acts on that control's controllers
+  const controlTargetsOf = (control: XmlElement): XmlElement[] =>
+    refs(control, 'controlled').flatMap(controlled => {
+      if (BIOPAX_CONTROL_CLASSES.includes(controlled.localName)) return refs(controlled, 'controller')
+      if (controlled.localName === 'Pathway' || isEntity(controlled)) return [controlled]
+      const products = [...refs(controlled, 'right'), ...refs(controlled, 'product')]
+      return products.length > 0 ? products : refs(controlled, 'participant')
+    }).filter(target => isEntity(target) || target.localName === 'Pathway')
+
+  const all = Array.from(new Set(elements.values()))
+  all.filter(element => element.localName === 'Pathway').forEach(nodeFor)
+
+  all.forEach(element => {
+    if (BIOPAX_CONTROL_CLASSES.includes(element.localName)) {
+      const controlType = xmlChildText(element, 'controlType') || (element.localName === 'Catalysis' ? 'ACTIVATION' : 'regulates')
+      const targets = controlTargetsOf(element)
+      refs(element, 'controller').filter(c => isEntity(c) || c.localName === 'Pathway').forEach(controller => {
+        targets.forEach(target => builder.edge(nodeFor(controller), nodeFor(target), controlType, { biopax_interaction: element.localName }))
+      })
+    } else if (element.localName === 'MolecularInteraction' || element.localName === 'GeneticInteraction') {
+      const participants = refs(element, 'participant').filter(isEntity)
+      participants.forEach((a, i) => participants.slice(i + 1).forEach(b => builder.edge(nodeFor(a), nodeFor(b), 'interacts_with')))
+    } else if (element.localName === 'Complex') {
+      refs(element, 'component').filter(isEntity).forEach(component => builder.edge(nodeFor(component), nodeFor(element), 'in_complex_with'))
+    } else if (element.localName === 'Pathway') {
+      const pathwayId = nodeFor(element)
+      refs(element, 'pathwayComponent').forEach(component => {
+        const members = component.localName === 'Pathway' ? [component] : participantsOf(component)
+        members.forEach(member => builder.edge(nodeFor(member), pathwayId, 'participates_in'))
+      })
+    }
+  })
+
+  const dataSources = Array.from(new Set(all.filter(element => element.localName === 'Provenance').map(nameOf)))
+  return builder.build('biopax', dataSources.length > 0 ? { data_sources: dataSources } : {})
+}
+
+// Guess the format from the file extension, then from the content
+export const detectImportFormat = (fileName: string, text: string): ImportFormat | 'json' | undefined => {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.json')) return 'json'
+  const byExtension = (Object.keys(IMPORT_FORMATS) as ImportFormat[])
+    .find(format => IMPORT_FORMATS[format].extensions.some(extension => lower.endsWith(extension)))
+  if (byExtension && byExtension !== 'sif') return byExtension
+
+  const head = text.slice(0, 4000).trimStart()
+  if (head.startsWith('{')) return 'json'
+  if (head.startsWith('<')) {
+    if (/<graphml[\s>]/.test(head)) return 'graphml'
+    if (/biopax-level3|<bp:|<rdf:RDF/i.test(head)) return 'biopax'
+    return undefined
+  }
+  const firstLine = head.split(/\r?\n/)[0]
+  if (byExtension === 'sif' || firstLine.startsWith('PARTICIPANT_A')) return 'sif'
+  if (firstLine.includes(',')) return 'csv'
+  return firstLine.includes('\t') && firstLine.split('\t').length !== 3 ? 'csv' : 'sif'
+}
+
+/**
+ * Convert SIF, GraphML, CSV/TSV tables or BioPAX Level 3 into a KnowledgeGraph.
+ * Entity types and relations are mapped to the vocabulary in graphSchema.ts;
+ * anything unmapped falls back to the default type or `associated_with` and is
+ * listed in `warnings`. The result is validated but never rejected here.
+ */
+export const importKnowledgeGraph = (text: string, format: ImportFormat, options: ImportOptions = {}): ImportResult => {
+  const builder = new GraphBuilder(options)
+  switch (format) {
+    case 'sif':
+      return importSif(text, builder)
+    case 'graphml':
+      return importGraphml(text, builder)
+    case 'csv':
+      return importCsv(text, builder, options.nodesCsv)
+    case 'biopax':
+      return importBiopax(text, builder)
+  }
+}
@@ -0,0 +1,321 @@
+import type { GraphMeta, KnowledgeGraph, KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import { compactTerm } from './textMatching'
+import { validateKnowledgeGraph, ValidationReport } from './graphValidator'
+
+/**
+ * How a conflicting property is resolved:
+ * - priority: the value from the highest-priority source wins
+ * - most-detailed: the longest string, longest array or object with the most keys wins
+ * - union: arrays are concatenated without duplicates and objects merged key by key
+ *   (higher priority wins on nested clashes); other values fall back to priority
+ * - latest: the value from the source with the newest `meta.last_updated` wins
+ */
+export type PropertyStrategy = 'priority' | 'most-detailed' | 'union' | 'latest'
+
+export interface MergeSource {
+  name: string
+  graph: KnowledgeGraph
+}
+
+export interface MergeOptions {
+  // Strategy for properties without a specific rule
+  defaultStrategy?: PropertyStrategy
+  // Per-property rules, e.g. { description: 'most-detailed', aliases: 'union' };
+  // label, type and color always follow source priority
+  propertyStrategies?: { [property: string]: PropertyStrategy }
+  // Also unify nodes of the same type whose labels or aliases match (on by default)
+  matchByAlias?: boolean
+  // Name written to the merged graph's meta.description
+  description?: string
+}
+
+export interface MergeConflict {
+  kind: 'node' | 'edge'
+  // Merged node id, or `source -[relation]-> target` for edges
+  id: string
+  field: string
+  values: Array<{ source: string, value: unknown }>
+  strategy: PropertyStrategy
+  resolvedFrom: string
+}
+
+export interface NodeMatch {
+  id: string
+  matches: Array<{ source: string, id: string, matchedBy: 'id' | 'alias' }>
+}
+
+export interface MergeReport {
+  sources: Array<{ name: string, nodes: number, edges: number }>
+  merged: { nodes: number, edges: number }
+  // Merged nodes that combine entries from more than one source
+  matchedNodes: NodeMatch[]
+  duplicateEdges: number
+  conflicts: MergeConflict[]
+  validation: ValidationReport
+}
+
+export interface MergeResult {
+  graph: KnowledgeGraph
+  report: MergeReport
+}
+
+const DEFAULT_PROPERTY_STRATEGIES: { [property: string]: PropertyStrategy } = {
+  aliases: 'union',
+  description: 'most-detailed',
+  function: 'most-detailed',
+  mechanism: 'most-detailed'
+}
+
+interface Contribution {
+  source: string
+  // Position in the source list: 0 is the highest priority
+  rank: number
+  updated: string
+  value: unknown
+}
+
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b)
+
+const detail = (value: unknown): number => {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length
+  if (isPlainObject(value)) return Object.keys(value).length
+  return 0
+}
+
+const unionValues = (values: unknown[]): unknown => {
+  if (values.every(Array.isArray)) {
+    const seen = new Set<string>()
+    return (values as unknown[][]).flat().filter(item => {
+      const key = typeof item === 'string' ? compactTerm(item) : JSON.stringify(item)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+  if (values.every(isPlainObject)) {
+    // Lowest priority first so higher-priority keys overwrite
+    return [...values].reverse().reduce((merged: { [key: string]: unknown }, value) => ({ ...merged, ...(value as object) }), {})
+  }
+  return values[0]
+}
+
+// Pick the winning value; contributions arrive in priority order
+const resolve = (contributions: Contribution[], strategy: PropertyStrategy): { value: unknown, from: Contribution } => {
+  switch (strategy) {
+    case 'most-detailed': {
+      const best = contributions.reduce((winner, c) => detail(c.value) > detail(winner.value) ? c : winner)
+      return { value: best.value, from: best }
+    }
+    case 'latest': {
+      const best = contributions.reduce((winner, c) => c.updated > winner.updated ? c : winner)
+      return { value: best.value, from: best }
+    }
+    case 'union':
+      return { value: unionValues(contributions.map(c => c.value)), from: contributions[0] }
+    default:
+      return { value: contributions[0].value, from: contributions[0] }
+  }
+}
+
+const nodeTerms = (node: KnowledgeNode): string[] => {
+  const aliases = Array.isArray(node.properties?.aliases) ? node.properties!.aliases : []
+  return [node.label, ...aliases].filter(term => typeof term === 'string').map(term => compactTerm(term)).filter(Boolean)
+}
+
+/**
+ * Union several knowledge graphs into one.
+ * Sources are listed highest priority first. Nodes are unified by id and, within
+ * the same entity type, by label or alias (so `gene:HER2` joins `gene:ERBB2`);
+ * the merged node keeps the id from the highest-priority source and edges are
+ * rewritten to it. Every node and edge records which sources contributed it,
+ * and every disagreement is listed in the report with how it was resolved.
+ */
+export const mergeKnowledgeGraphs = (sources: MergeSource[], options: MergeOptions = {}): MergeResult => {
+  const { defaultStrategy = 'priority', matchByAlias = true } = options
+  const strategies = { ...DEFAULT_PROPERTY_STRATEGIES, ...options.propertyStrategies }
+  const strategyFor = (field: string): PropertyStrategy => strategies[field] || defaultStrategy
+
+  const conflicts: MergeConflict[] = []
+  const mergedNodes = new Map<string, { contributions: Array<{ source: MergeSource, rank: number, node: KnowledgeNode, matchedBy: 'id' | 'alias' }> }>()
+  const termIndex = new Map<string, string>()
+  // `${sourceRank}|${originalId}` -> merged id
+  const idMap = new Map<string, string>()
+
+  sources.forEach((source, rank) => {
+    const nodes = Array.isArray(source.graph.nodes) ? source.graph.nodes : []
+    nodes.forEach(node => {
+      if (!node?.id) return
+      let mergedId = mergedNodes.has(node.id) ? node.id : undefined
+      let matchedBy: 'id' | 'alias' = 'id'
+      if (!mergedId && matchByAlias) {
+        mergedId = nodeTerms(node).map(term => termIndex.get(`${node.type}|${term}`)).find(Boolean)
+        matchedBy = 'alias'
+      }
+      if (!mergedId) {
+        mergedId = node.id
+        mergedNodes.set(mergedId, { contributions: [] })
+        matchedBy = 'id'
+      }
+
+      const entry = mergedNodes.get(mergedId)!
+      // A source listing the same id twice keeps its first entry
+      if (entry.contributions.some(c => c.rank === rank)) return
+      entry.contributions.push({ source, rank, node, matchedBy })
+      idMap.set(`${rank}|${node.id}`, mergedId)
+      nodeTerms(node).forEach(term => {
+        const key = `${node.type}|${term}`
+        if (!termIndex.has(key)) termIndex.set(key, mergedId!)
+      })
+    })
+  })
+
+  const updatedOf = (source: MergeSource): string => String(source.graph.meta?.last_updated || '')
+
+  // Resolve one field across contributions, logging a conflict when they disagree
+  const mergeField = (kind: 'node' | 'edge', id: string, field: string, contributions: Contribution[], strategy: PropertyStrategy): unknown => {
+    const present = contributions.filter(c => c.value !== undefined)
+    if (present.length === 0) return undefined
+    const { value, from } = resolve(present, strategy)
+    const distinct = present.filter((c, i) => present.findIndex(other => isEqual(other.value, c.value)) === i)
+    if (distinct.length > 1) {
+      conflicts.push({ kind, id, field, values: present.map(c => ({ source: c.source, value: c.value })), strategy, resolvedFrom: from.source })
+    }
+    return value
+  }
+
+  const mergeProperties = (kind: 'node' | 'edge', id: string, items: Array<{ source: string, rank: number, updated: string, properties?: { [key: string]: unknown } }>) => {
+    const keys = Array.from(new Set(items.flatMap(item => Object.keys(item.properties || {}))))
+    const properties: { [key: string]: unknown } = {}
+    keys.forEach(key => {
+      const contributions = items.map(item => ({ ...item, value: item.properties?.[key] }))
+      const value = mergeField(kind, id, `properties.${key}`, contributions, strategyFor(key))
+      if (value !== undefined) properties[key] = value
+    })
+    return properties
+  }
+
+  const matchedNodes: NodeMatch[] = []
+  const nodes: KnowledgeNode[] = Array.from(mergedNodes.entries()).map(([id, { contributions }]) => {
+    const base = contributions.map(c => ({ source: c.source.name, rank: c.rank, updated: updatedOf(c.source) }))
+    const field = (name: 'label' | 'type' | 'color') =>
+      mergeField('node', id, name, contributions.map((c, i) => ({ ...base[i], value: c.node[name] })), 'priority')
+
+    if (contributions.length > 1) {
+      matchedNodes.push({ id, matches: contributions.map(c => ({ source: c.source.name, id: c.node.id, matchedBy: c.matchedBy })) })
+    }
+
+    const properties = mergeProperties('node', id, contributions.map((c, i) => ({ ...base[i], properties: c.node.properties })))
+    return {
+      id,
+      label: field('label') as string,
+      type: field('type') as string,
+      color: field('color') as string,
+      properties,
+      provenance: contributions.map(c => ({ source: c.source.name, id: c.node.id }))
+    }
+  })
+
+  // Edges: rewrite endpoints to merged ids, then combine identical source/relation/target triples
+  // `originalId` is the edge as its source file wrote it, before the endpoints are rewritten
+  const mergedEdges = new Map<string, Array<{ source: MergeSource, rank: number, edge: KnowledgeRelation, originalId: string }>>()
+  let duplicateEdges = 0
+  sources.forEach((source, rank) => {
+    const edges = Array.isArray(source.graph.edges) ? source.graph.edges : []
+    edges.forEach(edge => {
+      if (!edge) return
+      const from = idMap.get(`${rank}|${edge.source}`) || edge.source
+      const to = idMap.get(`${rank}|${edge.target}`) || edge.target
+      const key = `${from}|${edge.relation}|${to}`
+      const list = mergedEdges.get(key) || []
+      if (list.length > 0) duplicateEdges++
+      list.push({ source, rank, edge: { ...edge, source: from, target: to }, originalId: `${edge.source}|${edge.relation}|${edge.target}` })
+      mergedEdges.set(key, list)
+    })
+  })
+
+  const edges: KnowledgeRelation[] = Array.from(mergedEdges.values()).map(list => {
+    const { edge } = list[0]
+    const id = `${edge.source} -[${edge.relation}]-> ${edge.target}`
+    const properties = mergeProperties('edge', id, list.map(item => ({
+      source: item.source.name, rank: item.rank, updated: updatedOf(item.source), properties: item.edge.properties
+    })))
+    return {
+      source: edge.source,
+      target: edge.target,
+      relation: edge.relation,
+      properties,
+      provenance: list.map(item => ({ source: item.source.name, id: item.originalId }))
+    }
+  })
+
+  const metas = sources.map(source => source.graph.meta || {})
+  const meta: GraphMeta = {
+    description: options.description || `Merged knowledge graph (${sources.map(source => source.name).join(' + ')})`,
+    version: metas.map(m => m.version).find(Boolean),
+    last_updated: metas.map(m => m.last_updated || '').sort().pop() || undefined,
+    data_sources: Array.from(new Set(metas.flatMap(m => Array.isArray(m.data_sources) ? m.data_sources : []))),
+    merged_from: sources.map(source => source.name)
+  }
+
+  const graph: KnowledgeGraph = { meta, nodes, edges }
+  return {
+    graph,
+    report: {
+      sources: sources.map(source => ({
+        name: source.name,
+        nodes: Array.isArray(source.graph.nodes) ? source.graph.nodes.length : 0,
+        edges: Array.isArray(source.graph.edges) ? source.graph.edges.length : 0
+      })),
+      merged: { nodes: nodes.length, edges: edges.length },
+      matchedNodes,
+      duplicateEdges,
+      conflicts,
+      validation: validateKnowledgeGraph(graph)
+    }
+  }
+}
+
+const preview = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  const oneLine = (text ?? 'undefined').replace(/\s+/g, ' ').replace(/\|/g, '\\|')
+  return oneLine.length > 80 ? `${oneLine.slice(0, 77)}...` : oneLine
+}
+
+// Markdown report for curators: sources, unified nodes and every conflict with its resolution
+export const formatMergeReport = (report: MergeReport): string => {
+  const lines = [
+    '# Knowledge Graph Merge Report',
+    '',
+    '## Sources (highest priority first)',
+    ...report.sources.map((source, i) => `${i + 1}. **${source.name}**: ${source.nodes} nodes, ${source.edges} edges`),
+    '',
+    `**Result:** ${report.merged.nodes} nodes, ${report.merged.edges} edges ` +
+    `(${report.matchedNodes.length} nodes unified, ${report.duplicateEdges} duplicate edges combined, ${report.conflicts.length} conflicts)`,
+    ''
+  ]
+
+  if (report.matchedNodes.length > 0) {
+    lines.push('## Unified Nodes', '')
+    report.matchedNodes.forEach(match => {
+      lines.push(`- \`${match.id}\`: ${match.matches.map(m => `${m.source} \`${m.id}\`${m.matchedBy === 'alias' ? ' (by alias)' : ''}`).join(', ')}`)
+    })
+    lines.push('')
+  }
+
+  if (report.conflicts.length > 0) {
+    lines.push('## Conflicts', '', '| Entity | Field | Values | Strategy | Kept |', '| --- | --- | --- | --- | --- |')
+    report.conflicts.forEach(conflict => {
+      const values = conflict.values.map(v => `${v.source}: ${preview(v.value)}`).join('<br>')
+      lines.push(`| \`${conflict.id}\` | ${conflict.field} | ${values} | ${conflict.strategy} | ${conflict.strategy === 'union' ? 'union of all' : conflict.resolvedFrom} |`)
+    })
+    lines.push('')
+  }
+
+  const { errors, warnings } = report.validation
+  lines.push('## Validation', '', `${errors.length} error(s), ${warnings.length} warning(s)`)
+  ;[...errors, ...warnings].forEach(issue => lines.push(`- ${issue.severity} [${issue.code}] ${issue.path}: ${issue.message}`))
+  return lines.join('\n') + '\n'
+}
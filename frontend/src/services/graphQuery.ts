@@ -0,0 +1,661 @@
+import type { KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import type { EdgeDirection, GraphStore } from './graphStore'
+import { ENTITY_TYPE_SCHEMAS, RELATION_TYPES } from './graphSchema'
+import { similarity } from './textMatching'
+
+/**
+ * Small typed query language over the knowledge graph, for when natural-language
+ * routing is too unpredictable:
+ *
+ *   MATCH drug -[inhibits]-> gene -[participates_in]-> pathway
+ *   WHERE pathway.label CONTAINS "RAS-MAPK"
+ *   RETURN drug, gene LIMIT 10
+ *
+ * A bare type name is a variable of that type; `(d:drug)` names it explicitly and
+ * `()` matches any node. Edges are `-[rel]->`, `<-[rel]-` or `-[rel]-` (either
+ * direction); `-[a|b]->` allows several relations and `-[]->` any. Several
+ * patterns can be separated by commas and share variables. WHERE compares
+ * `variable.field` with =, !=, <, >, <=, >=, CONTAINS, STARTS WITH, ENDS WITH or
+ * IN [...], combined with AND, OR, NOT and parentheses. Fields are id, label,
+ * type, name (label or any alias) or any property. String comparisons ignore case.
+ */
+
+export interface NodePattern {
+  variable: string
+  type?: string
+  // Generated name for `()`; hidden from result columns
+  anonymous: boolean
+}
+
+export interface EdgePattern {
+  // Empty: any relation
+  relations: string[]
+  direction: EdgeDirection
+}
+
+export interface PathPattern {
+  nodes: NodePattern[]
+  // edges[i] joins nodes[i] and nodes[i + 1]
+  edges: EdgePattern[]
+}
+
+export type ComparisonOperator = '=' | '!=' | '<' | '>' | '<=' | '>=' | 'contains' | 'starts with' | 'ends with' | 'in'
+
+export type QueryValue = string | number | boolean | QueryValue[]
+
+export type QueryCondition =
+  | { kind: 'and' | 'or', left: QueryCondition, right: QueryCondition }
+  | { kind: 'not', operand: QueryCondition }
+  | { kind: 'compare', variable: string, field: string, operator: ComparisonOperator, value: QueryValue }
+
+export interface GraphQuery {
+  patterns: PathPattern[]
+  where?: QueryCondition
+  returns?: string[]
+  limit: number
+}
+
+export interface QueryMatch {
+  bindings: { [variable: string]: KnowledgeNode }
+  edges: KnowledgeRelation[]
+}
+
+export interface QueryResult {
+  query: GraphQuery
+  // Variables shown per match: RETURN list, or every named variable
+  columns: string[]
+  matches: QueryMatch[]
+  // Subgraph of the returned variables, for the visualization
+  nodes: KnowledgeNode[]
+  relations: KnowledgeRelation[]
+  // 'limit': more matches exist than LIMIT allowed; 'budget': the search stopped before finishing
+  truncated: false | 'limit' | 'budget'
+}
+
+export class GraphQueryError extends Error {
+  // Character offset in the query text, when the error points at a token
+  public position?: number
+
+  constructor(message: string, position?: number) {
+    super(message)
+    this.name = 'GraphQueryError'
+    this.position = position
+  }
+}
+
+// Chat messages starting with this run as a query instead of going to the LLM
+export const QUERY_PREFIX = '/q'
+
+export const DEFAULT_QUERY_LIMIT = 25
+export const MAX_QUERY_LIMIT = 500
+
+// Upper bound on partial matches explored, so a broad pattern cannot stall the UI
+const MAX_QUERY_EXPANSIONS = 50000
+
+// Markdown, like every chat answer
+export const QUERY_HELP = `Graph query syntax (prefix a chat message with \`${QUERY_PREFIX}\`):
+\`\`\`
+MATCH drug -[inhibits]-> gene -[participates_in]-> pathway WHERE pathway.label CONTAINS "RAS-MAPK"
+MATCH (d:drug) -[targets_gene|inhibits]-> (g:gene) WHERE g.name IN ["HER2", "EGFR"] RETURN d LIMIT 10
+MATCH biomarker -[indicates]- disease WHERE NOT disease.label CONTAINS "lung"
+\`\`\`
+- Node: a type name, \`(var:type)\`, \`(var)\` or \`()\`.
+- Edge: \`-[rel]->\`, \`<-[rel]-\`, \`-[rel]-\` (any direction), \`-[a|b]->\`, \`-[]->\`.
+- WHERE: \`var.field\` with \`= != < > <= >=\`, \`CONTAINS\`, \`STARTS WITH\`, \`ENDS WITH\`, \`IN [...]\`; \`AND\`, \`OR\`, \`NOT\`, \`( )\`.
+- Fields: \`id\`, \`label\`, \`type\`, \`name\` (label or alias), or any property.`
+
+type TokenKind = 'word' | 'string' | 'number' | 'symbol' | 'end'
+
+interface Token {
+  kind: TokenKind
+  text: string
+  position: number
+}
+
+const SYMBOLS = ['<-', '->', '!=', '<>', '<=', '>=', '-', '[', ']', '(', ')', ',', '.', ':', '|', '=', '<', '>']
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const char = source[i]
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+    if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++
+        value += source[j++]
+      }
+      if (j >= source.length) throw new GraphQueryError('Unterminated string', i)
+      tokens.push({ kind: 'string', text: value, position: i })
+      i = j + 1
+      continue
+    }
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i))
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: i })
+      i += number[0].length
+      continue
+    }
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))
+    if (word) {
+      tokens.push({ kind: 'word', text: word[0], position: i })
+      i += word[0].length
+      continue
+    }
+    const symbol = SYMBOLS.find(s => source.startsWith(s, i))
+    if (!symbol) throw new GraphQueryError(`Unexpected character "${char}"`, i)
+    tokens.push({ kind: 'symbol', text: symbol, position: i })
+    i += symbol.length
+  }
+  tokens.push({ kind: 'end', text: '', position: source.length })
+  return tokens
+}
+
+const KEYWORDS = new Set(['match', 'where', 'return', 'limit', 'and', 'or', 'not', 'contains', 'starts', 'ends', 'with', 'in', 'true', 'false'])
+
+// Recursive-descent parser over the token list
+class QueryParser {
+  private index = 0
+  private anonymousCount = 0
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): GraphQuery {
+    this.expectKeyword('match')
+    const patterns = [this.parsePattern()]
+    while (this.acceptSymbol(',')) patterns.push(this.parsePattern())
+
+    let where: QueryCondition | undefined
+    let returns: string[] | undefined
+    let limit = DEFAULT_QUERY_LIMIT
+    if (this.acceptKeyword('where')) where = this.parseOr()
+    if (this.acceptKeyword('return')) {
+      returns = [this.expectVariable()]
+      while (this.acceptSymbol(',')) returns.push(this.expectVariable())
+    }
+    if (this.acceptKeyword('limit')) {
+      const token = this.next()
+      if (token.kind !== 'number' || !Number.isInteger(Number(token.text)) || Number(token.text) < 1) {
+        throw new GraphQueryError('LIMIT expects a positive whole number', token.position)
+      }
+      limit = Math.min(Number(token.text), MAX_QUERY_LIMIT)
+    }
+    const rest = this.peek()
+    if (rest.kind !== 'end') throw new GraphQueryError(`Unexpected "${rest.text}"`, rest.position)
+    return { patterns, where, returns, limit }
+  }
+
+  private parsePattern(): PathPattern {
+    const nodes = [this.parseNode()]
+    const edges: EdgePattern[] = []
+    while (this.isSymbol('-') || this.isSymbol('<-')) {
+      edges.push(this.parseEdge())
+      nodes.push(this.parseNode())
+    }
+    return { nodes, edges }
+  }
+
+  private parseNode(): NodePattern {
+    const token = this.peek()
+    if (this.acceptSymbol('(')) {
+      let variable: string | undefined
+      let type: string | undefined
+      if (this.peek().kind === 'word') variable = this.expectVariable()
+      if (this.acceptSymbol(':')) type = this.expectWord('an entity type')
+      this.expectSymbol(')')
+      if (variable) return { variable, type, anonymous: false }
+      return { variable: `_${++this.anonymousCount}`, type, anonymous: true }
+    }
+    if (token.kind === 'word' && !KEYWORDS.has(token.text.toLowerCase())) {
+      this.index++
+      return { variable: token.text, type: token.text, anonymous: false }
+    }
+    throw new GraphQueryError(`Expected a node (a type name or "(var:type)"), found ${this.describe(token)}`, token.position)
+  }
+
+  private parseEdge(): EdgePattern {
+    const leftArrow = this.acceptSymbol('<-')
+    if (!leftArrow) this.expectSymbol('-')
+    this.expectSymbol('[')
+    const relations: string[] = []
+    if (!this.isSymbol(']')) {
+      relations.push(this.expectWord('a relation'))
+      while (this.acceptSymbol('|')) relations.push(this.expectWord('a relation'))
+    }
+    this.expectSymbol(']')
+    const rightArrow = this.acceptSymbol('->')
+    if (!rightArrow) this.expectSymbol('-')
+    if (leftArrow && rightArrow) throw new GraphQueryError('An edge cannot point both ways; use -[rel]- for either direction', this.peek().position)
+    return { relations, direction: rightArrow ? 'out' : leftArrow ? 'in' : 'both' }
+  }
+
+  private parseOr(): QueryCondition {
+    let left = this.parseAnd()
+    while (this.acceptKeyword('or')) left = { kind: 'or', left, right: this.parseAnd() }
+    return left
+  }
+
+  private parseAnd(): QueryCondition {
+    let left = this.parseNot()
+    while (this.acceptKeyword('and')) left = { kind: 'and', left, right: this.parseNot() }
+    return left
+  }
+
+  private parseNot(): QueryCondition {
+    if (this.acceptKeyword('not')) return { kind: 'not', operand: this.parseNot() }
+    if (this.acceptSymbol('(')) {
+      const inner = this.parseOr()
+      this.expectSymbol(')')
+      return inner
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): QueryCondition {
+    const variable = this.expectVariable()
+    this.expectSymbol('.')
+    const field = this.expectWord('a field name')
+    const token = this.peek()
+    let operator: ComparisonOperator
+    if (token.kind === 'symbol' && ['=', '!=', '<>', '<', '>', '<=', '>='].includes(token.text)) {
+      this.index++
+      operator = token.text === '<>' ? '!=' : token.text as ComparisonOperator
+    } else if (this.acceptKeyword('contains')) {
+      operator = 'contains'
+    } else if (this.acceptKeyword('starts')) {
+      this.expectKeyword('with')
+      operator = 'starts with'
+    } else if (this.acceptKeyword('ends')) {
+      this.expectKeyword('with')
+      operator = 'ends with'
+    } else if (this.acceptKeyword('in')) {
+      operator = 'in'
+    } else {
+      throw new GraphQueryError(`Expected a comparison (=, !=, CONTAINS, IN, ...), found ${this.describe(token)}`, token.position)
+    }
+
+    const value = this.parseValue()
+    if (operator === 'in' && !Array.isArray(value)) {
+      throw new GraphQueryError('IN expects a list, e.g. ["EGFR", "KRAS"]', token.position)
+    }
+    return { kind: 'compare', variable, field, operator, value }
+  }
+
+  private parseValue(): QueryValue {
+    const token = this.next()
+    if (token.kind === 'string') return token.text
+    if (token.kind === 'number') return Number(token.text)
+    if (token.kind === 'word' && ['true', 'false'].includes(token.text.toLowerCase())) return token.text.toLowerCase() === 'true'
+    if (token.kind === 'symbol' && token.text === '[') {
+      const values: QueryValue[] = []
+      if (!this.acceptSymbol(']')) {
+        values.push(this.parseValue())
+        while (this.acceptSymbol(',')) values.push(this.parseValue())
+        this.expectSymbol(']')
+      }
+      return values
+    }
+    throw new GraphQueryError(`Expected a value (a "string", number, true/false or [list]), found ${this.describe(token)}`, token.position)
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.kind !== 'end') this.index++
+    return token
+  }
+
+  private describe(token: Token): string {
+    if (token.kind === 'end') return 'the end of the query'
+    return token.kind === 'string' ? `"${token.text}" (a string)` : `"${token.text}"`
+  }
+
+  private isSymbol(symbol: string): boolean {
+    const token = this.peek()
+    return token.kind === 'symbol' && token.text === symbol
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false
+    this.index++
+    return true
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.peek()
+    if (!this.acceptSymbol(symbol)) throw new GraphQueryError(`Expected "${symbol}", found ${this.describe(token)}`, token.position)
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token.kind !== 'word' || token.text.toLowerCase() !== keyword) return false
+    this.index++
+    return true
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.peek()
+    if (!this.acceptKeyword(keyword)) throw new GraphQueryError(`Expected ${keyword.toUpperCase()}, found ${this.describe(token)}`, token.position)
+  }
+
+  private expectWord(what: string): string {
+    const token = this.peek()
+    if (token.kind !== 'word') throw new GraphQueryError(`Expected ${what}, found ${this.describe(token)}`, token.position)
+    this.index++
+    return token.text
+  }
+
+  private expectVariable(): string {
+    const token = this.peek()
+    if (token.kind === 'word' && KEYWORDS.has(token.text.toLowerCase())) {
+      throw new GraphQueryError(`"${token.text}" is a keyword and cannot be a variable`, token.position)
+    }
+    return this.expectWord('a variable')
+  }
+}
+
+export const parseGraphQuery = (text: string): GraphQuery => new QueryParser(tokenize(text)).parse()
+
+const closestName = (name: string, candidates: string[]): string | undefined => {
+  const scored = candidates.map(candidate => ({ candidate, score: similarity(name.toLowerCase(), candidate.toLowerCase()) }))
+  const best = scored.sort((a, b) => b.score - a.score)[0]
+  return best && best.score >= 0.6 ? best.candidate : undefined
+}
+
+// Check types, relations and variables against the schema and the loaded graph
+const checkQuery = (query: GraphQuery, store: GraphStore): void => {
+  const types = Array.from(new Set([...Object.keys(ENTITY_TYPE_SCHEMAS), ...store.getNodes().map(node => node.type)]))
+  const relations = Array.from(new Set([...Object.keys(RELATION_TYPES), ...store.getEdges().map(edge => edge.relation)]))
+  const variableTypes = new Map<string, string | undefined>()
+  const hint = (name: string, candidates: string[]) => {
+    const suggestion = closestName(name, candidates)
+    return suggestion ? ` Did you mean "${suggestion}"?` : ''
+  }
+
+  query.patterns.forEach(pattern => {
+    pattern.nodes.forEach(node => {
+      if (node.type && !types.includes(node.type)) {
+        throw new GraphQueryError(`Unknown entity type "${node.type}". Known types: ${types.join(', ')}.${hint(node.type, types)}`)
+      }
+      const earlier = variableTypes.get(node.variable)
+      if (earlier && node.type && earlier !== node.type) {
+        throw new GraphQueryError(`Variable "${node.variable}" is used as both ${earlier} and ${node.type}`)
+      }
+      variableTypes.set(node.variable, earlier || node.type)
+    })
+    pattern.edges.forEach(edge => edge.relations.forEach(relation => {
+      if (!relations.includes(relation)) {
+        throw new GraphQueryError(`Unknown relation "${relation}".${hint(relation, relations)}`)
+      }
+    }))
+  })
+
+  const checkVariable = (variable: string, clause: string) => {
+    if (!variableTypes.has(variable)) {
+      throw new GraphQueryError(`${clause} uses "${variable}", which is not in the MATCH pattern.${hint(variable, Array.from(variableTypes.keys()))}`)
+    }
+  }
+  const walk = (condition: QueryCondition) => {
+    if (condition.kind === 'compare') checkVariable(condition.variable, 'WHERE')
+    else if (condition.kind === 'not') walk(condition.operand)
+    else {
+      walk(condition.left)
+      walk(condition.right)
+    }
+  }
+  if (query.where) walk(query.where)
+  query.returns?.forEach(variable => checkVariable(variable, 'RETURN'))
+}
+
+const fieldValues = (node: KnowledgeNode, field: string): unknown[] => {
+  const aliases = Array.isArray(node.properties?.aliases) ? node.properties!.aliases : []
+  switch (field.toLowerCase()) {
+    case 'id': return [node.id]
+    case 'label': return [node.label]
+    case 'type': return [node.type]
+    case 'name': return [node.label, ...aliases]
+  }
+  const value = node.properties?.[field]
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.toLowerCase() : String(value).toLowerCase()
+
+const compareValue = (actual: unknown, operator: ComparisonOperator, expected: QueryValue): boolean => {
+  switch (operator) {
+    case '=': return typeof expected === 'number' ? Number(actual) === expected : asText(actual) === asText(expected)
+    case 'contains': return asText(actual).includes(asText(expected))
+    case 'starts with': return asText(actual).startsWith(asText(expected))
+    case 'ends with': return asText(actual).endsWith(asText(expected))
+    case 'in': return (expected as QueryValue[]).some(item => compareValue(actual, '=', item))
+    default: {
+      const [a, b] = [Number(actual), Number(expected)]
+      if (Number.isNaN(a) || Number.isNaN(b)) return false
+      return operator === '<' ? a < b : operator === '>' ? a > b : operator === '<=' ? a <= b : a >= b
+    }
+  }
+}
+
+const evaluate = (condition: QueryCondition, bindings: { [variable: string]: KnowledgeNode }): boolean => {
+  switch (condition.kind) {
+    case 'and': return evaluate(condition.left, bindings) && evaluate(condition.right, bindings)
+    case 'or': return evaluate(condition.left, bindings) || evaluate(condition.right, bindings)
+    case 'not': return !evaluate(condition.operand, bindings)
+    case 'compare': {
+      const values = fieldValues(bindings[condition.variable], condition.field)
+      // != means no value matches, so a node without the property passes
+      if (condition.operator === '!=') return !values.some(value => compareValue(value, '=', condition.value))
+      return values.some(value => compareValue(value, condition.operator, condition.value))
+    }
+  }
+}
+
+const conditionVariables = (condition: QueryCondition): Set<string> => {
+  if (condition.kind === 'compare') return new Set([condition.variable])
+  if (condition.kind === 'not') return conditionVariables(condition.operand)
+  return new Set([...conditionVariables(condition.left), ...conditionVariables(condition.right)])
+}
+
+const splitConjunction = (condition?: QueryCondition): QueryCondition[] => {
+  if (!condition) return []
+  if (condition.kind === 'and') return [...splitConjunction(condition.left), ...splitConjunction(condition.right)]
+  return [condition]
+}
+
+interface EdgeConstraint {
+  from: string
+  to: string
+  pattern: EdgePattern
+}
+
+/**
+ * Find every binding of the pattern variables to nodes that satisfies the edges
+ * and WHERE clause. Starts from the most selective variable and walks edges out
+ * of already-bound variables through the adjacency index; WHERE conditions that
+ * mention a single variable are applied as soon as it is bound.
+ */
+export const executeGraphQuery = (query: GraphQuery, store: GraphStore): QueryResult => {
+  checkQuery(query, store)
+
+  const variables = new Map<string, NodePattern>()
+  const constraints: EdgeConstraint[] = []
+  query.patterns.forEach(pattern => {
+    pattern.nodes.forEach(node => {
+      const existing = variables.get(node.variable)
+      variables.set(node.variable, existing?.type ? existing : node)
+    })
+    pattern.edges.forEach((edge, i) => constraints.push({ from: pattern.nodes[i].variable, to: pattern.nodes[i + 1].variable, pattern: edge }))
+  })
+
+  const localFilters = new Map<string, QueryCondition[]>()
+  const globalFilters: QueryCondition[] = []
+  splitConjunction(query.where).forEach(condition => {
+    const used = Array.from(conditionVariables(condition))
+    if (used.length === 1) localFilters.set(used[0], [...(localFilters.get(used[0]) || []), condition])
+    else globalFilters.push(condition)
+  })
+
+  const accepts = (variable: string, node: KnowledgeNode): boolean => {
+    const type = variables.get(variable)!.type
+    if (type && node.type !== type) return false
+    return (localFilters.get(variable) || []).every(condition => evaluate(condition, { [variable]: node }))
+  }
+  const candidates = (variable: string): KnowledgeNode[] => {
+    const type = variables.get(variable)!.type
+    return (type ? store.getNodesByType(type) : store.getNodes()).filter(node => accepts(variable, node))
+  }
+
+  // Plan: bind the most selective variable, then follow edges out of bound variables
+  const order: Array<{ kind: 'scan', variable: string } | { kind: 'edge', constraint: EdgeConstraint, bound: 'from' | 'to' | 'both' }> = []
+  const bound = new Set<string>()
+  const pending = [...constraints]
+  const scanSizes = new Map(Array.from(variables.keys()).map(variable => [variable, candidates(variable).length]))
+  while (bound.size < variables.size || pending.length > 0) {
+    const nextIndex = pending.findIndex(c => bound.has(c.from) || bound.has(c.to))
+    if (nextIndex >= 0) {
+      const [constraint] = pending.splice(nextIndex, 1)
+      const both = bound.has(constraint.from) && bound.has(constraint.to)
+      order.push({ kind: 'edge', constraint, bound: both ? 'both' : bound.has(constraint.from) ? 'from' : 'to' })
+      bound.add(constraint.from)
+      bound.add(constraint.to)
+      continue
+    }
+    const variable = Array.from(variables.keys()).filter(v => !bound.has(v)).sort((a, b) => scanSizes.get(a)! - scanSizes.get(b)!)[0]
+    order.push({ kind: 'scan', variable })
+    bound.add(variable)
+  }
+
+  // Every named variable; `() -[]- ()` has none, so its generated names are shown instead
+  const named = Array.from(variables.values()).filter(node => !node.anonymous).map(node => node.variable)
+  const columns = query.returns || (named.length > 0 ? named : Array.from(variables.keys()))
+  const matches: QueryMatch[] = []
+  const seen = new Set<string>()
+  let expansions = 0
+  let truncated: QueryResult['truncated'] = false
+  const bindings: { [variable: string]: KnowledgeNode } = {}
+  const edges: KnowledgeRelation[] = []
+
+  const relationsFor = (pattern: EdgePattern) => pattern.relations.length > 0 ? pattern.relations : undefined
+
+  const search = (step: number): void => {
+    if (truncated) return
+    if (++expansions > MAX_QUERY_EXPANSIONS) {
+      truncated = 'budget'
+      return
+    }
+    if (step === order.length) {
+      if (!globalFilters.every(condition => evaluate(condition, bindings))) return
+      // Matches that bind the same nodes through different edges are one row
+      const key = Array.from(variables.keys()).map(variable => bindings[variable].id).join('|')
+      if (seen.has(key)) return
+      seen.add(key)
+      if (matches.length >= query.limit) {
+        truncated = 'limit'
+        return
+      }
+      matches.push({ bindings: { ...bindings }, edges: [...edges] })
+      return
+    }
+
+    const current = order[step]
+    if (current.kind === 'scan') {
+      for (const node of candidates(current.variable)) {
+        bindings[current.variable] = node
+        search(step + 1)
+        if (truncated) break
+      }
+      delete bindings[current.variable]
+      return
+    }
+
+    const { constraint } = current
+    // Walk from the bound end; `direction` is relative to the pattern's left node
+    const fromLeft = current.bound !== 'to'
+    const start = fromLeft ? constraint.from : constraint.to
+    const other = fromLeft ? constraint.to : constraint.from
+    const direction: EdgeDirection = constraint.pattern.direction === 'both' ? 'both'
+      : fromLeft ? constraint.pattern.direction : constraint.pattern.direction === 'out' ? 'in' : 'out'
+    const neighbors = store.getNeighbors(bindings[start].id, { direction, relations: relationsFor(constraint.pattern) })
+
+    for (const neighbor of neighbors) {
+      // A match walks each edge once, so -[]- cannot go out and straight back along it
+      if (edges.includes(neighbor.relation)) continue
+      if (current.bound === 'both') {
+        if (neighbor.node.id !== bindings[other].id) continue
+      } else if (!accepts(other, neighbor.node)) {
+        continue
+      }
+      const wasBound = current.bound === 'both'
+      bindings[other] = neighbor.node
+      edges.push(neighbor.relation)
+      search(step + 1)
+      edges.pop()
+      if (!wasBound) delete bindings[other]
+      if (truncated) break
+    }
+  }
+  search(0)
+
+  const visible = new Set(query.returns || Array.from(variables.keys()))
+  const nodes = new Map<string, KnowledgeNode>()
+  const relations = new Map<string, KnowledgeRelation>()
+  matches.forEach(match => {
+    Object.entries(match.bindings).forEach(([variable, node]) => {
+      if (visible.has(variable)) nodes.set(node.id, node)
+    })
+  })
+  matches.forEach(match => match.edges.forEach(edge => {
+    if (nodes.has(edge.source) && nodes.has(edge.target)) relations.set(`${edge.source}|${edge.relation}|${edge.target}`, edge)
+  }))
+
+  return {
+    query,
+    columns,
+    matches,
+    nodes: store.sortByDataOrder(Array.from(nodes.values())),
+    relations: Array.from(relations.values()),
+    truncated
+  }
+}
+
+export const runGraphQuery = (text: string, store: GraphStore): QueryResult => executeGraphQuery(parseGraphQuery(text), store)
+
+// Backslash-escape what Markdown would otherwise read as formatting or a cell boundary
+const escapeMarkdown = (text: string): string => text.replace(/[\\`*_[\]|]/g, '\\$&')
+
+// A Markdown fence longer than any backtick run inside the text
+const fenceFor = (text: string): string => '`'.repeat(Math.max(3, ...(text.match(/`+/g) || []).map(run => run.length + 1)))
+
+const truncationNote = ({ truncated, query }: QueryResult): string => {
+  if (truncated === 'budget') return ' (the search stopped early on a broad pattern, so there may be more; add types, relations or WHERE conditions to narrow it)'
+  if (truncated !== 'limit') return ''
+  if (query.limit >= MAX_QUERY_LIMIT) return ` (stopped at the maximum of ${MAX_QUERY_LIMIT} rows; add WHERE conditions to narrow the query)`
+  return ` (stopped at the limit of ${query.limit}; raise LIMIT, up to ${MAX_QUERY_LIMIT}, for more)`
+}
+
+// Matches as a Markdown table, one column per returned variable
+export const formatQueryResult = (result: QueryResult): string => {
+  if (result.matches.length === 0) return `No matches${truncationNote(result)}.`
+  const header = result.columns
+  const rows = result.matches.map(match => header.map(variable => escapeMarkdown(match.bindings[variable]?.label || '')))
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`
+  const summary = `**${result.matches.length} match${result.matches.length === 1 ? '' : 'es'}**` + truncationNote(result)
+  return [summary, '', line(header), line(header.map(() => '---')), ...rows.map(line)].join('\n')
+}
+
+// Error text with the query in a code block and a caret under the offending position
+export const formatQueryError = (error: GraphQueryError, text: string): string => {
+  if (error.position === undefined) return error.message
+  const excerpt = `${text}\n${' '.repeat(error.position)}^`
+  const fence = fenceFor(excerpt)
+  return `${error.message}\n\n${fence}\n${excerpt}\n${fence}`
+}
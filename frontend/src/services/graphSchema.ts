@@ -0,0 +1,244 @@
+/**
+ * Typed schema for knowledge graph files.
+ * Node and edge shapes, the known entity and relation types, and the expected
+ * value type of each well-known property. Properties not listed here are
+ * allowed (the enhanced graph carries many nested annotations); listed ones
+ * must have the declared type.
+ */
+
+import entityTypeRegistry from '../entity_types.json'
+
+export type PropertyValueType = 'string' | 'number' | 'boolean' | 'string[]' | 'array' | 'object'
+
+// Where a node or edge comes from: a database record, a paper, or both
+export interface Evidence {
+  // Source database or document, e.g. "OncoKB", "FDA label", "CIViC"
+  source: string
+  pmid?: string
+  doi?: string
+  // Key of EVIDENCE_LEVELS, e.g. "OncoKB 1" or "ESCAT I-A"
+  level?: string
+  // ISO date (YYYY, YYYY-MM or YYYY-MM-DD) of the approval, publication or curation
+  date?: string
+  // Short human-readable reference, e.g. "FLAURA, Soria et al. NEJM 2018"
+  title?: string
+}
+
+// Shared by every node type
+export interface BaseNodeProperties {
+  aliases?: string[]
+  evidence?: Evidence[]
+  description?: string
+  full_name?: string
+  official_name?: string
+  function?: string
+  [key: string]: unknown
+}
+
+export interface GeneProperties extends BaseNodeProperties {
+  chromosome?: string
+  protein_class?: string
+  nickname?: string
+}
+
+export interface ProteinProperties extends BaseNodeProperties {
+  // Symbol of the encoding gene
+  gene?: string
+  protein_class?: string
+}
+
+export interface DrugProperties extends BaseNodeProperties {
+  mechanism?: string
+  target?: string
+  indication?: string
+  drug_class?: string
+  molecular_target?: string
+  brand_name?: string
+  brand_names?: string[]
+  // Plain mutation names or { mutation, mechanism, frequency } records
+  resistance_mutations?: unknown[]
+}
+
+export interface PathwayProperties extends BaseNodeProperties {
+  cellular_functions?: string[]
+}
+
+export interface BiomarkerProperties extends BaseNodeProperties {
+  biomarker_type?: string
+  protein_class?: string
+  normal_function?: string
+}
+
+export interface DiseaseProperties extends BaseNodeProperties {
+  // Plain names or { name, frequency, subtypes } records
+  subtypes?: unknown[]
+  risk_factors?: string[]
+  pathogenesis?: string
+}
+
+export interface VariantProperties extends BaseNodeProperties {
+  // Symbol of the gene the variant is in
+  gene?: string
+  // One-letter protein change, e.g. T790M; absent for exon-level variants
+  protein_change?: string
+  hgvs_p?: string
+  exon?: number
+  // missense, deletion, insertion, skipping, ...
+  variant_type?: string
+}
+
+// Property schema per entity type; `TypedNode<'disease'>` is a node with DiseaseProperties
+export interface NodePropertiesByType {
+  gene: GeneProperties
+  protein: ProteinProperties
+  drug: DrugProperties
+  pathway: PathwayProperties
+  biomarker: BiomarkerProperties
+  disease: DiseaseProperties
+  variant: VariantProperties
+}
+
+export type NodeProperties = BaseNodeProperties
+
+export interface EdgeProperties {
+  mechanism?: string
+  context?: string
+  strength?: string
+  frequency?: string
+  evidence?: Evidence[]
+  [key: string]: unknown
+}
+
+// Which input graph contributed a merged node or edge, and under what id
+export interface Provenance {
+  source: string
+  id: string
+}
+
+export interface GraphMeta {
+  description?: string
+  version?: string
+  last_updated?: string
+  data_sources?: string[]
+  [key: string]: unknown
+}
+
+export interface EntityTypeSchema {
+  // Display name for legends, tables and detail panels
+  label: string
+  // What nodes of this type carry, for the LLM context
+  description: string
+  // Words users call the type by ("drugs", "therapies"), for query intent
+  nouns: string[]
+  // Id prefix nodes of this type must use, e.g. `gene:EGFR`
+  idPrefix: string
+  // Node color used by the bundled graphs, applied to imported nodes
+  color: string
+  // Node color in the app's neon theme
+  displayColor: string
+  // Types that frame a question ("drugs for lung cancer") rather than being what it asks for
+  context?: boolean
+  // Types drugs act on, shown for "what does X target" questions
+  drugTarget?: boolean
+  properties: { [key: string]: PropertyValueType }
+}
+
+type EntityTypeDefinition = Omit<EntityTypeSchema, 'properties'> & { properties?: { [key: string]: PropertyValueType } }
+
+const BASE_PROPERTIES: { [key: string]: PropertyValueType } = {
+  aliases: 'string[]',
+  evidence: 'array',
+  description: 'string',
+  full_name: 'string',
+  official_name: 'string',
+  function: 'string'
+}
+
+// The registry lives in src/entity_types.json, so a new entity type is a data change
+export const ENTITY_TYPE_SCHEMAS: { [type: string]: EntityTypeSchema } = Object.fromEntries(
+  Object.entries(entityTypeRegistry.types as { [type: string]: EntityTypeDefinition }).map(([type, definition]) => [
+    type,
+    { ...definition, properties: { ...BASE_PROPERTIES, ...definition.properties } }
+  ])
+)
+
+// Entity types answers list unless the question narrows them down
+export const getAnswerEntityTypes = (): string[] =>
+  Object.keys(ENTITY_TYPE_SCHEMAS).filter(type => !ENTITY_TYPE_SCHEMAS[type].context)
+
+// Lower-case noun -> entity type, from every type's `nouns`
+export const getEntityTypeNouns = (): { [noun: string]: string } => {
+  const nouns: { [noun: string]: string } = {}
+  Object.entries(ENTITY_TYPE_SCHEMAS).forEach(([type, schema]) => {
+    [type, ...schema.nouns].forEach(noun => { nouns[noun.toLowerCase()] = type })
+  })
+  return nouns
+}
+
+// Relation types used across the graph files, with what they assert
+export const RELATION_TYPES: { [relation: string]: string } = {
+  participates_in: 'entity is a component of a pathway',
+  associated_with: 'entity is linked to a disease or another entity',
+  indicates: 'biomarker points to a pathway state or disease',
+  indicated_for: 'drug is approved or used for a disease',
+  inhibits: 'entity reduces the activity of the target',
+  activates: 'entity increases the activity of the target',
+  blocks: 'drug prevents signalling through the target',
+  neutralizes: 'drug binds and inactivates the target',
+  targets: 'drug acts on a pathway',
+  targets_gene: 'drug acts on a gene product',
+  drives: 'pathway promotes a disease',
+  regulates: 'entity controls the target',
+  essential_for: 'entity is required for the target to function',
+  predicts_response: 'biomarker predicts response to therapy in a disease',
+  monitors: 'biomarker is used to track a disease',
+  variant_of: 'variant is a change in the gene',
+  sensitive_to: 'tumours with the variant respond to the drug',
+  resistant_to: 'tumours with the variant do not respond to the drug',
+  confers_resistance_to: 'variant, gene or pathway change makes tumours stop responding to the drug'
+}
+
+// Relations saying that the source makes a drug stop working
+export const RESISTANCE_RELATIONS = ['confers_resistance_to', 'resistant_to']
+
+export const EDGE_PROPERTY_TYPES: { [key: string]: PropertyValueType } = {
+  mechanism: 'string',
+  context: 'string',
+  strength: 'string',
+  // How often a resistance mechanism is seen, e.g. "~15% of acquired resistance"
+  frequency: 'string',
+  evidence: 'array'
+}
+
+// OncoKB therapeutic levels and ESCAT tiers, with what each asserts
+export const EVIDENCE_LEVELS: { [level: string]: string } = {
+  'OncoKB 1': 'FDA-recognized biomarker predictive of response to an FDA-approved drug in this indication',
+  'OncoKB 2': 'Standard-care biomarker recommended by guidelines as predictive of response in this indication',
+  'OncoKB 3A': 'Compelling clinical evidence supports the biomarker as predictive of response in this indication',
+  'OncoKB 3B': 'Standard-care or investigational biomarker predictive of response in another indication',
+  'OncoKB 4': 'Compelling biological evidence supports the biomarker as predictive of response',
+  'OncoKB R1': 'Standard-care biomarker predictive of resistance to an FDA-approved drug in this indication',
+  'OncoKB R2': 'Compelling clinical evidence supports the biomarker as predictive of resistance',
+  'ESCAT I-A': 'Prospective randomised trials show clinical benefit',
+  'ESCAT I-B': 'Prospective non-randomised trials show clinical benefit',
+  'ESCAT I-C': 'Clinical benefit across tumour types in basket trials',
+  'ESCAT II-A': 'Retrospective analysis of trials suggests benefit',
+  'ESCAT II-B': 'Prospective trials show antitumour activity without proven benefit',
+  'ESCAT III-A': 'Clinical benefit shown in another tumour type',
+  'ESCAT III-B': 'Clinical benefit shown for a similar alteration',
+  'ESCAT IV': 'Preclinical evidence of actionability',
+  'ESCAT X': 'No evidence of actionability'
+}
+
+export const valueMatchesType = (value: unknown, type: PropertyValueType): boolean => {
+  switch (type) {
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    default:
+      return typeof value === type
+  }
+}
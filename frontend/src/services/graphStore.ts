@@ -0,0 +1,345 @@
+import type { KnowledgeGraph, KnowledgeNode, KnowledgeRelation, TypedNode } from './knowledgeGraphService'
+import type { NodePropertiesByType } from './graphSchema'
+import { normalizeTerm } from './textMatching'
+
+export type EdgeDirection = 'out' | 'in' | 'both'
+
+export interface NeighborOptions {
+  direction?: EdgeDirection
+  relations?: string[]
+  types?: string[]
+}
+
+export interface Neighbor {
+  node: KnowledgeNode
+  relation: KnowledgeRelation
+  direction: 'out' | 'in'
+}
+
+export interface LabelMention {
+  node: KnowledgeNode
+  // Word offsets into the normalized text, end exclusive
+  start: number
+  end: number
+  viaAlias: boolean
+}
+
+export interface PathStep {
+  relation: KnowledgeRelation
+  // 'out' when the edge is walked source -> target, 'in' when walked backwards
+  direction: 'out' | 'in'
+}
+
+export interface GraphPath {
+  nodes: KnowledgeNode[]
+  steps: PathStep[]
+}
+
+export interface PathOptions {
+  maxHops?: number
+  relationFilter?: string[]
+  k?: number
+  directed?: boolean
+}
+
+// Relation type -> edge indices, kept in file order
+type AdjacencyBucket = Map<string, number[]>
+
+// Normalize labels and aliases so "PD-L1", "pd l1" and "PD L1" share one index key
+export const normalizeLabel = (text: string): string => {
+  return normalizeTerm(text)
+}
+
+// Longest label (in words) we try to match when scanning free text
+const MAX_LABEL_WORDS = 8
+
+// Upper bound on partial paths explored by findPaths, so dense hubs cannot stall the UI
+const MAX_PATH_EXPANSIONS = 50000
+
+/**
+ * In-memory indexed view of a KnowledgeGraph.
+ * Nodes are looked up by id in O(1), edges are reached through per-node adjacency
+ * lists split by direction and relation type, and labels/aliases go through a
+ * normalized text index. Edge lists are always returned in the original file order
+ * so callers that apply per-type limits keep their existing behaviour.
+ */
+export class GraphStore {
+  private nodes: KnowledgeNode[]
+  private edges: KnowledgeRelation[]
+  private nodesById = new Map<string, KnowledgeNode>()
+  private nodeOrder = new Map<string, number>()
+  private nodesByType = new Map<string, KnowledgeNode[]>()
+  private outgoing = new Map<string, AdjacencyBucket>()
+  private incoming = new Map<string, AdjacencyBucket>()
+  private labelIndex = new Map<string, Set<string>>()
+  private aliasIndex = new Map<string, Set<string>>()
+  private maxLabelWords = 1
+
+  constructor(kg: KnowledgeGraph) {
+    this.nodes = Array.isArray(kg.nodes) ? kg.nodes : []
+    this.edges = Array.isArray(kg.edges) ? kg.edges : []
+
+    this.nodes.forEach((node, index) => {
+      if (!node?.id || this.nodesById.has(node.id)) return
+      this.nodesById.set(node.id, node)
+      this.nodeOrder.set(node.id, index)
+
+      const typeList = this.nodesByType.get(node.type) || []
+      typeList.push(node)
+      this.nodesByType.set(node.type, typeList)
+
+      if (node.label) {
+        this.addToIndex(this.labelIndex, node.label, node.id)
+      }
+      const aliases = node.properties?.aliases
+      if (Array.isArray(aliases)) {
+        aliases.forEach((alias: unknown) => {
+          if (typeof alias === 'string') this.addToIndex(this.aliasIndex, alias, node.id)
+        })
+      }
+    })
+
+    this.edges.forEach((edge, index) => {
+      if (!edge) return
+      this.addAdjacency(this.outgoing, edge.source, edge.relation, index)
+      this.addAdjacency(this.incoming, edge.target, edge.relation, index)
+    })
+  }
+
+  public get nodeCount(): number {
+    return this.nodesById.size
+  }
+
+  public get edgeCount(): number {
+    return this.edges.length
+  }
+
+  public getNode(id: string): KnowledgeNode | undefined {
+    return this.nodesById.get(id)
+  }
+
+  public hasNode(id: string): boolean {
+    return this.nodesById.has(id)
+  }
+
+  public getNodes(): KnowledgeNode[] {
+    return this.nodes
+  }
+
+  public getEdges(): KnowledgeRelation[] {
+    return this.edges
+  }
+
+  // Schema types come back with their typed properties, e.g. DiseaseProperties for 'disease'
+  public getNodesByType<T extends keyof NodePropertiesByType>(type: T): TypedNode<T>[]
+  public getNodesByType(type: string): KnowledgeNode[]
+  public getNodesByType(type: string): KnowledgeNode[] {
+    return this.nodesByType.get(type) || []
+  }
+
+  // Edges leaving a node, optionally restricted to some relation types
+  public getOutgoing(id: string, relations?: string[]): KnowledgeRelation[] {
+    return this.collectEdges(this.outgoing.get(id), relations)
+  }
+
+  // Edges pointing at a node, optionally restricted to some relation types
+  public getIncoming(id: string, relations?: string[]): KnowledgeRelation[] {
+    return this.collectEdges(this.incoming.get(id), relations)
+  }
+
+  // All edges touching any of the given nodes, de-duplicated and in file order
+  public getIncidentEdges(ids: string | Iterable<string>, relations?: string[]): KnowledgeRelation[] {
+    const idList = typeof ids === 'string' ? [ids] : Array.from(ids)
+    const indices = new Set<number>()
+    idList.forEach(id => {
+      this.collectIndices(this.outgoing.get(id), relations).forEach(i => indices.add(i))
+      this.collectIndices(this.incoming.get(id), relations).forEach(i => indices.add(i))
+    })
+    return Array.from(indices).sort((a, b) => a - b).map(i => this.edges[i])
+  }
+
+  // Nodes one hop away, in the order their connecting edges appear in the data
+  public getNeighbors(id: string, options: NeighborOptions = {}): Neighbor[] {
+    const { direction = 'both', relations, types } = options
+    const entries: Array<{ index: number, direction: 'out' | 'in' }> = []
+
+    if (direction !== 'in') {
+      this.collectIndices(this.outgoing.get(id), relations).forEach(index => entries.push({ index, direction: 'out' }))
+    }
+    if (direction !== 'out') {
+      this.collectIndices(this.incoming.get(id), relations).forEach(index => entries.push({ index, direction: 'in' }))
+    }
+    entries.sort((a, b) => a.index - b.index)
+
+    const neighbors: Neighbor[] = []
+    entries.forEach(entry => {
+      const relation = this.edges[entry.index]
+      const otherId = entry.direction === 'out' ? relation.target : relation.source
+      const node = this.nodesById.get(otherId)
+      if (!node) return
+      if (types && !types.includes(node.type)) return
+      neighbors.push({ node, relation, direction: entry.direction })
+    })
+    return neighbors
+  }
+
+  public getDegree(id: string): number {
+    return this.countIndices(this.outgoing.get(id)) + this.countIndices(this.incoming.get(id))
+  }
+
+  // Exact (normalized) lookup against labels, and optionally aliases
+  public findByLabel(text: string, includeAliases: boolean = true): KnowledgeNode[] {
+    const key = normalizeLabel(text)
+    const ids = new Set<string>(this.labelIndex.get(key) || [])
+    if (includeAliases) {
+      this.aliasIndex.get(key)?.forEach(id => ids.add(id))
+    }
+    return this.sortByNodeOrder(ids)
+  }
+
+  /**
+   * Find every node whose label (or alias) appears as a whole phrase in free text.
+   * Scans word n-grams of the text against the index, so the cost depends on the
+   * length of the query rather than the size of the graph.
+   */
+  public findMentionedNodes(text: string, includeAliases: boolean = true): KnowledgeNode[] {
+    const ids = new Set(this.findMentions(text, includeAliases).map(mention => mention.node.id))
+    return this.sortByNodeOrder(ids)
+  }
+
+  // Same scan as findMentionedNodes, but keeps every hit with its word position
+  public findMentions(text: string, includeAliases: boolean = true): LabelMention[] {
+    const words = normalizeLabel(text).split(' ').filter(Boolean)
+    const mentions: LabelMention[] = []
+    const maxWords = Math.min(this.maxLabelWords, MAX_LABEL_WORDS)
+
+    for (let start = 0; start < words.length; start++) {
+      for (let size = 1; size <= maxWords && start + size <= words.length; size++) {
+        const phrase = words.slice(start, start + size).join(' ')
+        this.labelIndex.get(phrase)?.forEach(id => {
+          mentions.push({ node: this.nodesById.get(id)!, start, end: start + size, viaAlias: false })
+        })
+        if (includeAliases) {
+          this.aliasIndex.get(phrase)?.forEach(id => {
+            mentions.push({ node: this.nodesById.get(id)!, start, end: start + size, viaAlias: true })
+          })
+        }
+      }
+    }
+    return mentions
+  }
+
+  /**
+   * K shortest simple paths between two nodes, shortest first.
+   * Edges may be walked against their direction unless `directed` is set; each step
+   * records which way it was taken. A BFS from the target bounds the search so only
+   * partial paths that can still reach it within the hop budget are expanded.
+   */
+  public findPaths(sourceId: string, targetId: string, options: PathOptions = {}): GraphPath[] {
+    const { maxHops = 4, relationFilter, k = 3, directed = false } = options
+    if (sourceId === targetId || !this.hasNode(sourceId) || !this.hasNode(targetId)) return []
+
+    const distanceToTarget = this.distancesTo(targetId, maxHops, relationFilter, directed)
+    const shortest = distanceToTarget.get(sourceId)
+    if (shortest === undefined) return []
+
+    const paths: GraphPath[] = []
+    let budget = MAX_PATH_EXPANSIONS
+
+    const extend = (nodeIds: string[], steps: PathStep[], length: number): void => {
+      if (paths.length >= k || budget-- <= 0) return
+      const current = nodeIds[nodeIds.length - 1]
+      if (current === targetId) {
+        if (steps.length === length) {
+          paths.push({ nodes: nodeIds.map(id => this.nodesById.get(id)!), steps })
+        }
+        return
+      }
+
+      const neighbors = this.getNeighbors(current, { direction: directed ? 'out' : 'both', relations: relationFilter })
+      for (const neighbor of neighbors) {
+        const nextId = neighbor.node.id
+        const remaining = distanceToTarget.get(nextId)
+        if (remaining === undefined || nodeIds.includes(nextId)) continue
+        if (steps.length + 1 + remaining > length) continue
+        extend([...nodeIds, nextId], [...steps, { relation: neighbor.relation, direction: neighbor.direction }], length)
+      }
+    }
+
+    for (let length = shortest; length <= maxHops && paths.length < k && budget > 0; length++) {
+      extend([sourceId], [], length)
+    }
+    return paths
+  }
+
+  // Order nodes the way they appear in the source graph
+  public sortByDataOrder(nodes: KnowledgeNode[]): KnowledgeNode[] {
+    return [...nodes].sort((a, b) => (this.nodeOrder.get(a.id) ?? 0) - (this.nodeOrder.get(b.id) ?? 0))
+  }
+
+  // Hop distance from every node that can reach `targetId` within maxHops
+  private distancesTo(targetId: string, maxHops: number, relations: string[] | undefined, directed: boolean): Map<string, number> {
+    const distances = new Map<string, number>([[targetId, 0]])
+    let frontier = [targetId]
+
+    for (let hops = 1; hops <= maxHops && frontier.length > 0; hops++) {
+      const next: string[] = []
+      frontier.forEach(id => {
+        // Walking backwards from the target: a directed path needs incoming edges
+        this.getNeighbors(id, { direction: directed ? 'in' : 'both', relations }).forEach(({ node }) => {
+          if (distances.has(node.id)) return
+          distances.set(node.id, hops)
+          next.push(node.id)
+        })
+      })
+      frontier = next
+    }
+    return distances
+  }
+
+  private addToIndex(index: Map<string, Set<string>>, text: string, id: string): void {
+    const key = normalizeLabel(text)
+    if (!key) return
+    const ids = index.get(key) || new Set<string>()
+    ids.add(id)
+    index.set(key, ids)
+    this.maxLabelWords = Math.max(this.maxLabelWords, key.split(' ').length)
+  }
+
+  private addAdjacency(adjacency: Map<string, AdjacencyBucket>, id: string, relation: string, index: number): void {
+    let bucket = adjacency.get(id)
+    if (!bucket) {
+      bucket = new Map()
+      adjacency.set(id, bucket)
+    }
+    const list = bucket.get(relation) || []
+    list.push(index)
+    bucket.set(relation, list)
+  }
+
+  private collectIndices(bucket: AdjacencyBucket | undefined, relations?: string[]): number[] {
+    if (!bucket) return []
+    const indices: number[] = []
+    const keys = relations || Array.from(bucket.keys())
+    keys.forEach(relation => {
+      const list = bucket.get(relation)
+      if (list) indices.push(...list)
+    })
+    return indices.sort((a, b) => a - b)
+  }
+
+  private collectEdges(bucket: AdjacencyBucket | undefined, relations?: string[]): KnowledgeRelation[] {
+    return this.collectIndices(bucket, relations).map(i => this.edges[i])
+  }
+
+  private countIndices(bucket: AdjacencyBucket | undefined): number {
+    if (!bucket) return 0
+    let count = 0
+    bucket.forEach(list => { count += list.length })
+    return count
+  }
+
+  private sortByNodeOrder(ids: Iterable<string>): KnowledgeNode[] {
+    return this.sortByDataOrder(Array.from(ids).map(id => this.nodesById.get(id)!))
+  }
+}
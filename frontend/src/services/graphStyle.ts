@@ -0,0 +1,54 @@
+import { ENTITY_TYPE_SCHEMAS, RESISTANCE_RELATIONS } from './graphSchema'
+
+// Node colors and type labels shared by the on-screen graph and its exports - NEON THEME.
+// Both come from the entity type registry (src/entity_types.json).
+export const NODE_COLORS: { [type: string]: string } = Object.fromEntries(
+  Object.entries(ENTITY_TYPE_SCHEMAS).map(([type, schema]) => [type, schema.displayColor])
+)
+
+export const DEFAULT_NODE_COLOR = '#6c757d' // Default gray
+
+export const getNodeColor = (type: string): string => NODE_COLORS[type.toLowerCase()] || DEFAULT_NODE_COLOR
+
+export const getTypeLabel = (type: string): string =>
+  ENTITY_TYPE_SCHEMAS[type.toLowerCase()]?.label || type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ')
+
+// Edge line, label and arrowhead styling; resistance edges are dashed red so they read as "stops working"
+export interface EdgeStyle {
+  stroke: string
+  labelColor: string
+  // SVG stroke-dasharray, or null for a solid line
+  dashArray: string | null
+  // Id of the arrowhead <marker> drawn in this style
+  marker: string
+}
+
+export const DEFAULT_EDGE_STYLE: EdgeStyle = { stroke: '#00f5ff', labelColor: '#39ff14', dashArray: null, marker: 'arrowhead' }
+
+export const RESISTANCE_EDGE_STYLE: EdgeStyle = { stroke: '#ff1744', labelColor: '#ff8a80', dashArray: '6,4', marker: 'arrowhead-resistance' }
+
+export const EDGE_STYLES = [DEFAULT_EDGE_STYLE, RESISTANCE_EDGE_STYLE]
+
+export const getEdgeStyle = (relation: string): EdgeStyle =>
+  RESISTANCE_RELATIONS.includes(relation) ? RESISTANCE_EDGE_STYLE : DEFAULT_EDGE_STYLE
+
+// Ring colors for highlighted node sets, such as each drug's reach in a combination
+export const HIGHLIGHT_COLORS = ['#ff006e', '#ffd60a', '#39ff14', '#00f5ff', '#bf00ff', '#ff8500']
+
+export const getHighlightColor = (index: number): string => HIGHLIGHT_COLORS[index % HIGHLIGHT_COLORS.length]
+
+// Entity types present in a set of nodes with counts, for legends
+export const getActiveEntityTypes = (nodes: Array<{ type: string }>): Array<{ type: string, color: string, label: string, count: number }> => {
+  const typeCounts: { [key: string]: number } = {}
+  nodes.forEach(node => {
+    const type = node.type.toLowerCase()
+    typeCounts[type] = (typeCounts[type] || 0) + 1
+  })
+
+  return Object.entries(typeCounts).map(([type, count]) => ({
+    type,
+    color: getNodeColor(type),
+    label: getTypeLabel(type),
+    count
+  })).sort((a, b) => a.label.localeCompare(b.label))
+}
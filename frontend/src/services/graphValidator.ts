@@ -0,0 +1,216 @@
+import { EDGE_PROPERTY_TYPES, ENTITY_TYPE_SCHEMAS, EVIDENCE_LEVELS, PropertyValueType, RELATION_TYPES, valueMatchesType } from './graphSchema'
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationCode =
+  | 'invalid-structure'
+  | 'missing-field'
+  | 'duplicate-id'
+  | 'dangling-reference'
+  | 'unknown-type'
+  | 'unknown-relation'
+  | 'type-prefix-mismatch'
+  | 'invalid-property'
+  | 'invalid-evidence'
+  | 'duplicate-edge'
+
+export interface ValidationIssue {
+  severity: ValidationSeverity
+  code: ValidationCode
+  message: string
+  // JSON path of the offending value, e.g. `edges[12].target`
+  path: string
+}
+
+export interface ValidationReport {
+  valid: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+  stats: { nodes: number, edges: number }
+}
+
+export interface ValidationOptions {
+  // Extra entity types and relations to accept on top of the schema
+  extraTypes?: string[]
+  extraRelations?: string[]
+}
+
+const describe = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array'
+  if (value === null) return 'null'
+  return typeof value
+}
+
+/**
+ * Check a parsed knowledge graph file against the schema in graphSchema.ts.
+ * Structural problems the app cannot work around (duplicate ids, edges pointing
+ * at missing nodes, unknown types or relations, ids whose prefix disagrees with
+ * the node type) are errors; property type mismatches, malformed evidence and
+ * repeated edges are warnings. Never throws: malformed input is reported as issues.
+ */
+export const validateKnowledgeGraph = (data: unknown, options: ValidationOptions = {}): ValidationReport => {
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+  const report = (severity: ValidationSeverity, code: ValidationCode, path: string, message: string) => {
+    (severity === 'error' ? errors : warnings).push({ severity, code, path, message })
+  }
+
+  const knownTypes = new Set([...Object.keys(ENTITY_TYPE_SCHEMAS), ...(options.extraTypes || [])])
+  const knownRelations = new Set([...Object.keys(RELATION_TYPES), ...(options.extraRelations || [])])
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    report('error', 'invalid-structure', '', `Expected a JSON object with "nodes" and "edges", got ${describe(data)}`)
+    return { valid: false, errors, warnings, stats: { nodes: 0, edges: 0 } }
+  }
+  const graph = data as { meta?: unknown, nodes?: unknown, edges?: unknown }
+  const nodes: unknown[] = Array.isArray(graph.nodes) ? graph.nodes : []
+  const edges: unknown[] = Array.isArray(graph.edges) ? graph.edges : []
+
+  if (!Array.isArray(graph.nodes)) report('error', 'invalid-structure', 'nodes', `"nodes" must be an array, got ${describe(graph.nodes)}`)
+  if (!Array.isArray(graph.edges)) report('error', 'invalid-structure', 'edges', `"edges" must be an array, got ${describe(graph.edges)}`)
+  if (graph.meta !== undefined && describe(graph.meta) !== 'object') {
+    report('warning', 'invalid-structure', 'meta', `"meta" should be an object, got ${describe(graph.meta)}`)
+  }
+
+  // Evidence entries need a source; identifiers, dates and levels must be well formed
+  const checkEvidence = (evidence: unknown[], path: string) => {
+    evidence.forEach((value, index) => {
+      const entryPath = `${path}[${index}]`
+      if (describe(value) !== 'object') {
+        report('warning', 'invalid-evidence', entryPath, `Evidence must be an object, got ${describe(value)}`)
+        return
+      }
+      const entry = value as { [key: string]: unknown }
+      if (typeof entry.source !== 'string' || !entry.source.trim()) {
+        report('warning', 'invalid-evidence', `${entryPath}.source`, 'Evidence is missing a string "source"')
+      }
+      if (entry.pmid !== undefined && !/^\d{1,9}$/.test(String(entry.pmid))) {
+        report('warning', 'invalid-evidence', `${entryPath}.pmid`, `"${entry.pmid}" is not a PubMed id`)
+      }
+      if (entry.doi !== undefined && !/^10\.\d{4,9}\/\S+$/.test(String(entry.doi))) {
+        report('warning', 'invalid-evidence', `${entryPath}.doi`, `"${entry.doi}" is not a DOI (10.xxxx/...)`)
+      }
+      if (entry.date !== undefined && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(String(entry.date))) {
+        report('warning', 'invalid-evidence', `${entryPath}.date`, `"${entry.date}" is not an ISO date`)
+      }
+      if (entry.level !== undefined && !EVIDENCE_LEVELS[String(entry.level)]) {
+        // A bare tier ("1", "I-A") is missing its scale
+        const scaled = ['OncoKB', 'ESCAT'].map(scale => `${scale} ${entry.level}`).filter(level => EVIDENCE_LEVELS[level])
+        const hint = scaled.length > 0 ? `; did you mean "${scaled.join('" or "')}"?` : ''
+        report('warning', 'invalid-evidence', `${entryPath}.level`, `Unknown evidence level "${entry.level}"${hint}`)
+      }
+    })
+  }
+
+  const checkProperties = (properties: unknown, schema: { [key: string]: PropertyValueType }, path: string) => {
+    if (properties === undefined) return
+    if (describe(properties) !== 'object') {
+      report('warning', 'invalid-property', path, `"properties" should be an object, got ${describe(properties)}`)
+      return
+    }
+    Object.entries(properties as { [key: string]: unknown }).forEach(([key, value]) => {
+      const expected = schema[key]
+      if (expected && value !== null && !valueMatchesType(value, expected)) {
+        report('warning', 'invalid-property', `${path}.${key}`, `Expected ${expected}, got ${describe(value)}`)
+      }
+      if (key === 'evidence' && Array.isArray(value)) checkEvidence(value, `${path}.${key}`)
+    })
+  }
+
+  // Nodes: required fields, unique ids, known types, id prefix agreeing with the type
+  const nodeIds = new Set<string>()
+  nodes.forEach((value, index) => {
+    const path = `nodes[${index}]`
+    if (describe(value) !== 'object') {
+      report('error', 'invalid-structure', path, `Node must be an object, got ${describe(value)}`)
+      return
+    }
+    const node = value as { id?: unknown, label?: unknown, type?: unknown, color?: unknown, properties?: unknown }
+
+    for (const field of ['id', 'label', 'type'] as const) {
+      if (typeof node[field] !== 'string' || !(node[field] as string).trim()) {
+        report('error', 'missing-field', `${path}.${field}`, `Node is missing a string "${field}"`)
+      }
+    }
+    if (node.color !== undefined && typeof node.color !== 'string') {
+      report('warning', 'invalid-property', `${path}.color`, `Expected string, got ${describe(node.color)}`)
+    }
+    if (typeof node.id !== 'string') return
+
+    if (nodeIds.has(node.id)) {
+      report('error', 'duplicate-id', `${path}.id`, `Duplicate node id "${node.id}"`)
+    }
+    nodeIds.add(node.id)
+
+    if (typeof node.type !== 'string') return
+    const schema = ENTITY_TYPE_SCHEMAS[node.type]
+    if (!knownTypes.has(node.type)) {
+      report('error', 'unknown-type', `${path}.type`, `Unknown entity type "${node.type}" on "${node.id}"`)
+    }
+
+    const separator = node.id.indexOf(':')
+    const prefix = separator > 0 ? node.id.slice(0, separator) : ''
+    const expectedPrefix = schema?.idPrefix || node.type
+    if (prefix !== expectedPrefix) {
+      report('error', 'type-prefix-mismatch', `${path}.id`,
+        prefix
+          ? `Id "${node.id}" has prefix "${prefix}:" but type "${node.type}" (expected "${expectedPrefix}:")`
+          : `Id "${node.id}" should start with "${expectedPrefix}:"`)
+    }
+
+    checkProperties(node.properties, schema?.properties || {}, `${path}.properties`)
+  })
+
+  // Edges: endpoints that exist, known relations, no exact repeats
+  const edgeKeys = new Set<string>()
+  edges.forEach((value, index) => {
+    const path = `edges[${index}]`
+    if (describe(value) !== 'object') {
+      report('error', 'invalid-structure', path, `Edge must be an object, got ${describe(value)}`)
+      return
+    }
+    const edge = value as { source?: unknown, target?: unknown, relation?: unknown, properties?: unknown }
+
+    for (const field of ['source', 'target', 'relation'] as const) {
+      if (typeof edge[field] !== 'string' || !(edge[field] as string).trim()) {
+        report('error', 'missing-field', `${path}.${field}`, `Edge is missing a string "${field}"`)
+      }
+    }
+
+    for (const end of ['source', 'target'] as const) {
+      const id = edge[end]
+      if (typeof id === 'string' && !nodeIds.has(id)) {
+        report('error', 'dangling-reference', `${path}.${end}`, `Edge ${end} "${id}" does not match any node id`)
+      }
+    }
+
+    if (typeof edge.relation === 'string' && !knownRelations.has(edge.relation)) {
+      report('error', 'unknown-relation', `${path}.relation`, `Unknown relation type "${edge.relation}"`)
+    }
+
+    const key = `${edge.source}|${edge.relation}|${edge.target}`
+    if (edgeKeys.has(key)) {
+      report('warning', 'duplicate-edge', path, `Repeated edge ${edge.source} -[${edge.relation}]-> ${edge.target}`)
+    }
+    edgeKeys.add(key)
+
+    checkProperties(edge.properties, EDGE_PROPERTY_TYPES, `${path}.properties`)
+  })
+
+  return { valid: errors.length === 0, errors, warnings, stats: { nodes: nodes.length, edges: edges.length } }
+}
+
+// Human-readable summary for logs and the CLI, at most `limit` issues per severity
+export const formatValidationReport = (report: ValidationReport, name: string = 'knowledge graph', limit: number = 20): string => {
+  const lines = [
+    `${report.valid ? '✅' : '❌'} ${name}: ${report.stats.nodes} nodes, ${report.stats.edges} edges, ` +
+    `${report.errors.length} error(s), ${report.warnings.length} warning(s)`
+  ]
+  const list = (issues: ValidationIssue[], icon: string) => {
+    issues.slice(0, limit).forEach(issue => lines.push(`   ${icon} [${issue.code}] ${issue.path ? `${issue.path}: ` : ''}${issue.message}`))
+    if (issues.length > limit) lines.push(`   ... and ${issues.length - limit} more`)
+  }
+  list(report.errors, '❌')
+  list(report.warnings, '⚠️')
+  return lines.join('\n')
+}
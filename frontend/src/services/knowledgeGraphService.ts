@@ -1,33 +1,172 @@
 import knowledgeGraphData from '../knowledge_graph_final.json'
+import enhancedKnowledgeGraphData from '../knowledge_graph_enhanced.json'
+import entitySynonyms from '../entity_synonyms.json'
+import { GraphPath, GraphStore, PathOptions, normalizeLabel } from './graphStore'
+import { EntityLinker, EntityMention, LOW_CONFIDENCE_THRESHOLD, SynonymTable } from './entityLinker'
+import { EdgeProperties, ENTITY_TYPE_SCHEMAS, getAnswerEntityTypes, getEntityTypeNouns, GraphMeta, NodeProperties, NodePropertiesByType, Provenance } from './graphSchema'
+import { formatValidationReport, validateKnowledgeGraph, ValidationReport } from './graphValidator'
+import { DatasetInfo, DatasetRegistry, DatasetSource } from './datasetRegistry'
+import { mergeKnowledgeGraphs } from './graphMerge'
+import { QueryResult, runGraphQuery } from './graphQuery'
+import { describeRelationIntent, detectRelationIntent, RelationIntent } from './relationIntent'
+import { matchesProteinChange, parseProteinChanges, ProteinChange } from './variantParser'
+import { CitationIndex, getEvidence } from './evidence'
+import { matchTherapies, parsePatientProfile, ProfileMatchResult } from './patientProfile'
+import { analyzeCombination, CombinationAnalysis, formatCombinationAnalysis } from './drugCombination'
+import { AnswerVerification, verifyAnswer } from './answerVerifier'
+import { analyzeResistance, describeResistance, detectResistanceQuery, formatResistanceAnalysis, isResistanceRelation, ResistanceAnalysis, ResistanceQuery } from './resistance'
+import { buildEntityProfile, EntityProfile } from './entityProfile'
+
+export type { GraphPath, PathOptions, PathStep } from './graphStore'
+export type { EntityMention } from './entityLinker'
+export type { EdgeProperties, GraphMeta, NodeProperties, NodePropertiesByType, Provenance } from './graphSchema'
+export type { ValidationIssue, ValidationReport } from './graphValidator'
+export type { DatasetInfo, DatasetSource } from './datasetRegistry'
+export type { QueryResult } from './graphQuery'
+export type { PatientProfile, ProfileAlteration, ProfileMatchResult, TherapyMatch } from './patientProfile'
+export type { CombinationAnalysis, DrugReach } from './drugCombination'
+export type { ResistanceAnalysis, ResistanceAlternative, ResistanceCause } from './resistance'
+export type { AnswerClaim, AnswerVerification, ClaimStatus } from './answerVerifier'
+export type { EntityProfile, ProfileField, ProfileSection, RelationGroup, RelationNeighbor } from './entityProfile'
 
 export interface KnowledgeNode {
   id: string
   label: string
   type: string
   color: string
-  properties?: any
+  properties?: NodeProperties
+  // Set on merged graphs: the input graphs this node was built from
+  provenance?: Provenance[]
+}
+
+// A node of one of the schema's entity types, with that type's properties
+export interface TypedNode<T extends keyof NodePropertiesByType> extends KnowledgeNode {
+  type: T
+  properties?: NodePropertiesByType[T]
 }
 
 export interface KnowledgeRelation {
   source: string
   target: string
   relation: string
-  properties?: any
+  properties?: EdgeProperties
+  provenance?: Provenance[]
+}
+
+// A low-confidence entity match offered back to the user as "Did you mean ...?"
+export interface EntitySuggestion {
+  text: string
+  suggestion: string
+  confidence: number
+  correctedQuery: string
 }
 
 export interface KnowledgeGraph {
-  meta: any
+  meta: GraphMeta
   nodes: KnowledgeNode[]
   edges: KnowledgeRelation[]
 }
 
-class KnowledgeGraphService {
-  private kg: KnowledgeGraph
-  private contextInfo: string
+const GRAPH_CONTEXT_INFO = `
+ENHANCED ONCOLOGY KNOWLEDGE GRAPH v2.0:
+This comprehensive knowledge graph contains detailed molecular mechanisms, clinical data, and therapeutic information curated from authoritative sources including TCGA, cBioPortal, OncoKB, ClinVar, DrugBank, KEGG, Reactome, and UniProt.
+
+ENTITY TYPES WITH DETAILED ANNOTATIONS:
+${Object.values(ENTITY_TYPE_SCHEMAS).map(schema => `- ${schema.label}: ${schema.description}`).join('\n')}
+
+KEY MOLECULAR INSIGHTS:
+- Mutation frequencies and hotspots with clinical significance
+- Drug mechanisms of action and resistance pathways
+- Biomarker assessment methods and clinical cutoffs
+- Pathway crosstalk and regulatory mechanisms
+- Structure-function relationships of key proteins
+
+THERAPEUTIC INTELLIGENCE:
+- FDA-approved targeted therapies with approval histories
+- Combination therapy rationales and evidence
+- Resistance mechanisms and overcome strategies
+- Biomarker-guided treatment selection
+- Clinical trial outcomes and efficacy data
+
+PRECISION MEDICINE FOCUS:
+Each entity includes clinically actionable information for personalized cancer treatment, including mutation-specific drug sensitivities, biomarker-guided therapy selection, and resistance pattern analysis.
+`
+
+// One line naming the loaded dataset, so answers can say which graph they came from
+const describeDataset = (meta: GraphMeta | undefined): string => {
+  if (!meta) return ''
+  const details = [
+    meta.version && `version ${meta.version}`,
+    meta.last_updated && `updated ${meta.last_updated}`,
+    Array.isArray(meta.data_sources) && meta.data_sources.length > 0 && `sources: ${meta.data_sources.join(', ')}`
+  ].filter(Boolean)
+  return `\nACTIVE DATASET: ${meta.description || 'Unnamed knowledge graph'}${details.length > 0 ? ` (${details.join('; ')})` : ''}\n`
+}
+
+export class KnowledgeGraphService {
+  // Assigned in loadGraph, which the constructor calls
+  private kg!: KnowledgeGraph
+  private store!: GraphStore
+  private linker!: EntityLinker
+  private contextInfo!: string
+  private validationReport!: ValidationReport
+  private datasets = new DatasetRegistry()
+  private activeDatasetId: string | null = null
+
+  constructor(graph: KnowledgeGraph = knowledgeGraphData as KnowledgeGraph, name: string = 'Core oncology graph') {
+    this.loadGraph(graph)
+    try {
+      this.activeDatasetId = this.datasets.register(name, graph, 'bundled').id
+    } catch (error) {
+      console.error('❌ Initial knowledge graph could not be registered as a dataset:', error)
+    }
+  }
+
+  // Add a dataset to the registry without switching to it
+  public registerDataset(name: string, data: unknown, source: DatasetSource = 'bundled', origin: string = ''): DatasetInfo {
+    return this.datasets.register(name, data, source, origin)
+  }
+
+  // Fetch a graph JSON from a URL, register it and make it the active graph
+  public async loadDatasetFromUrl(url: string, name?: string): Promise<DatasetInfo> {
+    const info = await this.datasets.loadFromUrl(url, name)
+    return this.setActiveDataset(info.id)
+  }
+
+  // Read an uploaded graph JSON file, register it and make it the active graph
+  public async loadDatasetFromFile(file: File, name?: string): Promise<DatasetInfo> {
+    const info = await this.datasets.loadFromFile(file, name)
+    return this.setActiveDataset(info.id)
+  }
+
+  public listDatasets(): DatasetInfo[] {
+    return this.datasets.list()
+  }
+
+  // A registered dataset's graph, e.g. for a second service answering from it
+  public getDatasetGraph(id: string): KnowledgeGraph | undefined {
+    return this.datasets.get(id)?.graph
+  }
+
+  public getActiveDataset(): DatasetInfo | undefined {
+    return this.activeDatasetId ? this.datasets.get(this.activeDatasetId)?.info : undefined
+  }
 
-  constructor() {
+  public setActiveDataset(id: string): DatasetInfo {
+    const dataset = this.datasets.get(id)
+    if (!dataset) {
+      throw new Error(`Unknown dataset "${id}"`)
+    }
+    this.loadGraph(dataset.graph)
+    this.activeDatasetId = id
+    console.log(`📚 Active dataset: ${dataset.info.name}`)
+    return dataset.info
+  }
+
+  // Replace the active graph: rebuilds the indexes and entity linker. Used at start-up and when switching datasets
+  public loadGraph(graph: KnowledgeGraph): ValidationReport {
     try {
-      this.kg = knowledgeGraphData as KnowledgeGraph
+      this.kg = graph
       
       // Validate the data structure
       if (!this.kg) {
@@ -48,6 +187,12 @@ class KnowledgeGraphService {
         nodes: this.kg.nodes?.length || 0,
         edges: this.kg.edges?.length || 0
       })
+
+      // Integrity problems are reported but not fatal: the store skips duplicate ids and dangling edges
+      this.validationReport = validateKnowledgeGraph(this.kg)
+      if (this.validationReport.errors.length > 0 || this.validationReport.warnings.length > 0) {
+        console.warn(formatValidationReport(this.validationReport, 'Knowledge graph validation'))
+      }
     } catch (error) {
       console.error('❌ Error loading knowledge graph:', error)
       // Initialize with empty data as fallback
@@ -56,46 +201,73 @@ class KnowledgeGraphService {
         nodes: [],
         edges: []
       }
+      this.validationReport = validateKnowledgeGraph(this.kg)
     }
-    this.contextInfo = `
-ENHANCED ONCOLOGY KNOWLEDGE GRAPH v2.0:
-This comprehensive knowledge graph contains detailed molecular mechanisms, clinical data, and therapeutic information curated from authoritative sources including TCGA, cBioPortal, OncoKB, ClinVar, DrugBank, KEGG, Reactome, and UniProt.
-
-ENTITY TYPES WITH DETAILED ANNOTATIONS:
-- Disease: Comprehensive cancer information including epidemiology, molecular subtypes, staging, and biomarkers
-- Gene: Detailed protein structure, function, clinical significance, mutation hotspots, and therapeutic implications  
-- Pathway: Molecular mechanisms, regulatory networks, cancer relevance, and therapeutic targets
-- Biomarker: Clinical utility, assessment methods, predictive/prognostic value, and limitations
-- Drug: Mechanism of action, pharmacology, clinical applications, resistance mechanisms, and adverse effects
-
-KEY MOLECULAR INSIGHTS:
-- Mutation frequencies and hotspots with clinical significance
-- Drug mechanisms of action and resistance pathways
-- Biomarker assessment methods and clinical cutoffs
-- Pathway crosstalk and regulatory mechanisms
-- Structure-function relationships of key proteins
-
-THERAPEUTIC INTELLIGENCE:
-- FDA-approved targeted therapies with approval histories
-- Combination therapy rationales and evidence
-- Resistance mechanisms and overcome strategies
-- Biomarker-guided treatment selection
-- Clinical trial outcomes and efficacy data
+    this.store = new GraphStore(this.kg)
+    this.linker = new EntityLinker(this.store.getNodes(), (entitySynonyms?.synonyms || {}) as SynonymTable)
+    this.contextInfo = describeDataset(this.kg.meta) + GRAPH_CONTEXT_INFO
+    return this.validationReport
+  }
 
-PRECISION MEDICINE FOCUS:
-Each entity includes clinically actionable information for personalized cancer treatment, including mutation-specific drug sensitivities, biomarker-guided therapy selection, and resistance pattern analysis.
-`
+  public getMeta(): GraphMeta {
+    return this.kg.meta || {}
   }
 
   // Extract relevant nodes and relationships based on user query - INTENT-AWARE VERSION
-  public queryKnowledgeGraph(userQuery: string): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string } {
-    const queryLower = userQuery.toLowerCase()
+  // `focus` carries entities from earlier turns into follow-ups that name none of their own
+  public queryKnowledgeGraph(userQuery: string, options: { focus?: KnowledgeNode[] } = {}): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string, paths?: GraphPath[], combination?: CombinationAnalysis, resistance?: ResistanceAnalysis } {
     const finalNodes: KnowledgeNode[] = []
     const finalNodeIds = new Set<string>()
     const relevantRelations: KnowledgeRelation[] = []
 
-    // Step 1: Analyze query intent to determine desired entity types
-    const queryIntent = this.analyzeQueryIntent(queryLower)
+    // Step 0: Recognise graph entities in the query, in reading order
+    let mentions = this.linkEntities(userQuery).sort((a, b) => a.start - b.start)
+    if (mentions.length === 0 && options.focus && options.focus.length > 0) {
+      userQuery = `${userQuery} (${options.focus.map(node => node.label).join(', ')})`
+      mentions = this.linkEntities(userQuery).sort((a, b) => a.start - b.start)
+      console.log(`🧠 Carrying conversation focus forward: ${userQuery}`)
+    }
+    const queryLower = userQuery.toLowerCase()
+
+    // Step 1: "How is X connected to Y" questions are answered with multi-hop paths
+    const connection = this.detectConnectionQuery(queryLower, mentions)
+    if (connection) {
+      console.log(`🛤️ Connection query: ${connection.source.label} -> ${connection.target.label}`)
+      return this.handleConnectionRequest(connection.source, connection.target)
+    }
+
+    // Step 1: "Can osimertinib be combined with bevacizumab?" compares the drugs' mechanisms
+    const combinationDrugs = this.detectCombinationQuery(queryLower, mentions)
+    if (combinationDrugs) {
+      console.log(`💊 Combination query: ${combinationDrugs.map(drug => drug.label).join(' + ')}`)
+      return this.handleCombinationRequest(combinationDrugs)
+    }
+
+    // Step 1: "Why does osimertinib stop working?" and "what after crizotinib resistance?" follow resistance edges.
+    // A named variant ("is C797S resistant to osimertinib") is a variant question instead.
+    const changes = parseProteinChanges(userQuery)
+    const resistanceQuery = changes.length === 0 ? detectResistanceQuery(queryLower, mentions) : null
+    if (resistanceQuery) {
+      console.log(`🛡️ Resistance query (${resistanceQuery.mode}): ${resistanceQuery.drug.label}`)
+      return this.handleResistanceRequest(resistanceQuery)
+    }
+
+    // Step 1a: Variant-level questions ("Is EGFR T790M sensitive to osimertinib?") go to the variant, or its gene
+    if (changes.length > 0) {
+      const answer = this.handleVariantRequest(userQuery, changes, mentions)
+      if (answer) return answer
+    }
+
+    // Step 1b: "What inhibits KRAS", "drugs indicated for breast cancer" follow only that relation
+    const relationIntent = detectRelationIntent(userQuery, mentions)
+    if (relationIntent) {
+      const answer = this.handleRelationRequest(relationIntent)
+      if (answer) return answer
+      console.log(`↩️ No ${describeRelationIntent(relationIntent)} edges, falling back to intent analysis`)
+    }
+
+    // Step 1c: Analyze query intent to determine desired entity types
+    const queryIntent = this.analyzeQueryIntent(queryLower, userQuery, mentions)
     console.log(`🔍 Query intent analysis:`, queryIntent)
 
     // Step 2: Handle specific gene requests
@@ -107,31 +279,23 @@ Each entity includes clinically actionable information for personalized cancer t
     // Step 3: Find target entity (disease, general entity, etc.)
     let targetEntity: KnowledgeNode | null = null
     
-    if (Array.isArray(this.kg.nodes)) {
-      // Look for the main subject of the query
-      for (const node of this.kg.nodes) {
-        const nodeLabel = node.label?.toLowerCase() || ''
-        const nodeAliases = node.properties?.aliases || []
-        
-        // Check if this node matches the disease/entity mentioned in query
-        if (
-          queryLower.includes(nodeLabel) || 
-          nodeAliases.some((alias: string) => queryLower.includes(alias.toLowerCase()))
-        ) {
-          if (queryIntent.contextEntity === 'disease' && node.type === 'disease') {
-            targetEntity = node
-            break
-          } else if (queryIntent.contextEntity === 'specific' && 
-                    (nodeLabel.length > 2 && queryLower.includes(nodeLabel))) {
-            targetEntity = node
-            break
-          }
-        }
+    // Look for the main subject of the query among the linked mentions
+    for (const mention of mentions) {
+      const node = mention.node
+      const nodeLabel = node.label?.toLowerCase() || ''
+      
+      if (queryIntent.contextEntity === 'disease' && node.type === 'disease') {
+        targetEntity = node
+        break
+      } else if (queryIntent.contextEntity === 'specific' && 
+                (nodeLabel.length > 2 && mention.matchedBy !== 'alias')) {
+        targetEntity = node
+        break
       }
     }
 
     // Step 3: Based on intent, find the requested entity types (STRICT VERSION)
-    if (targetEntity && Array.isArray(this.kg.edges)) {
+    if (targetEntity) {
       console.log(`🎯 Target entity found: ${targetEntity.label} (${targetEntity.type})`)
       
       if (queryIntent.wantedTypes.length > 0) {
@@ -140,20 +304,9 @@ Each entity includes clinically actionable information for personalized cancer t
         const typeCount: { [key: string]: number } = {}
         
         // Find nodes of the requested types that are connected to the target entity
-        this.kg.edges.forEach((relation: KnowledgeRelation) => {
-          let connectedNode: KnowledgeNode | null = null
-          
-          // Check if the target entity is involved in this relationship
-          if (relation.source === targetEntity.id) {
-            connectedNode = this.kg.nodes.find(n => n.id === relation.target) || null
-          } else if (relation.target === targetEntity.id) {
-            connectedNode = this.kg.nodes.find(n => n.id === relation.source) || null
-          }
-          
+        this.store.getNeighbors(targetEntity.id, { types: queryIntent.wantedTypes }).forEach(({ node: connectedNode, relation }) => {
           // Add the connected node if it matches criteria and limits
-          if (connectedNode && 
-              queryIntent.wantedTypes.includes(connectedNode.type) && 
-              !finalNodeIds.has(connectedNode.id)) {
+          if (!finalNodeIds.has(connectedNode.id)) {
             
             // Initialize type counter
             if (!typeCount[connectedNode.type]) {
@@ -183,7 +336,7 @@ Each entity includes clinically actionable information for personalized cancer t
 
     // Step 4: Fallback for direct entity queries (e.g., "What is EGFR?")
     if (finalNodes.length === 0) {
-      const directMatches = this.findDirectMatches(queryLower)
+      const directMatches = this.findDirectMatches(mentions)
       finalNodes.push(...directMatches.nodes)
       directMatches.nodes.forEach(node => finalNodeIds.add(node.id))
       relevantRelations.push(...directMatches.relations)
@@ -203,8 +356,267 @@ Each entity includes clinically actionable information for personalized cancer t
     }
   }
 
+  // Schema and integrity issues found when the graph was loaded
+  public getValidationReport(): ValidationReport {
+    return this.validationReport
+  }
+
+  public getNode(id: string): KnowledgeNode | undefined {
+    return this.store.getNode(id)
+  }
+
+  // A node's properties laid out for its type, with its relations grouped; undefined if it is not in the active graph
+  public getEntityProfile(id: string): EntityProfile | undefined {
+    const node = this.store.getNode(id)
+    return node && buildEntityProfile(node, this.store)
+  }
+
+  // Find the k shortest chains of relations linking two entities
+  public findPaths(sourceId: string, targetId: string, options: PathOptions = {}): GraphPath[] {
+    return this.store.findPaths(sourceId, targetId, options)
+  }
+
+  // Run a MATCH ... WHERE ... query (see graphQuery.ts); throws GraphQueryError on bad input
+  public runQuery(text: string): QueryResult {
+    return runGraphQuery(text, this.store)
+  }
+
+  // Targets, shared and complementary pathways, and shared indications of two or more drugs,
+  // given by id or name. Throws when fewer than two of them are drugs in the graph.
+  public analyzeDrugCombination(drugs: string[]): CombinationAnalysis {
+    const resolved = new Map<string, KnowledgeNode>()
+    drugs.forEach(name => {
+      const node = this.store.getNode(name) || this.linker.linkNodes(name, { types: ['drug'] })[0]
+      if (node?.type !== 'drug') throw new Error(`"${name}" is not a drug in the knowledge graph`)
+      resolved.set(node.id, node)
+    })
+    if (resolved.size < 2) throw new Error('A combination needs at least two different drugs')
+    return analyzeCombination(Array.from(resolved.values()), this.store)
+  }
+
+  // Rank therapies for a tumour profile such as "NSCLC, EGFR L858R, PD-L1 TPS 60%" (see patientProfile.ts)
+  public matchPatientProfile(text: string): ProfileMatchResult {
+    const result = matchTherapies(parsePatientProfile(text, this.linker), this.store)
+    console.log(`🧾 Profile matched: ${result.profile.alterations.length} alteration(s), ${result.matches.length} therapy candidate(s)`)
+    return result
+  }
+
+  // Check a finished answer's entities and relation claims against the subgraph it was given and the whole graph
+  public verifyAnswer(answer: string, nodes: KnowledgeNode[]): AnswerVerification {
+    const verification = verifyAnswer(answer, nodes, this.linker, this.store)
+    console.log(`🔬 Grounding: ${verification.counts.supported} supported, ${verification.counts['not-in-graph']} not in graph, ${verification.counts.contradicted} contradicted`)
+    return verification
+  }
+
+  // Recognise graph entities in free text, best-ranked first, with character spans
+  public linkEntities(text: string): EntityMention[] {
+    return this.linker.link(text)
+  }
+
+  // Confident, exact entity names in reading order, for turning answer text into entity chips
+  public findEntityMentions(text: string): EntityMention[] {
+    return this.linker.link(text, { fuzzy: false })
+      .filter(mention => mention.confidence >= LOW_CONFIDENCE_THRESHOLD)
+      .sort((a, b) => a.start - b.start)
+  }
+
+  // Low-confidence matches (misspellings, bare short symbols) the user should confirm,
+  // each with a rewritten query that uses the entity's canonical label
+  public suggestCorrections(text: string): EntitySuggestion[] {
+    const suggestions: EntitySuggestion[] = []
+    this.linkEntities(text)
+      .filter(mention => mention.confidence < LOW_CONFIDENCE_THRESHOLD)
+      .forEach(mention => {
+        if (suggestions.some(s => s.suggestion === mention.node.label)) return
+        suggestions.push({
+          text: mention.text,
+          suggestion: mention.node.label,
+          confidence: mention.confidence,
+          correctedQuery: text.slice(0, mention.start) + mention.node.label + text.slice(mention.end)
+        })
+      })
+    return suggestions
+  }
+
+  // Detect "how is X connected to Y" style questions and resolve both endpoints
+  private detectConnectionQuery(query: string, mentions: EntityMention[]): { source: KnowledgeNode, target: KnowledgeNode } | null {
+    const connectionPatterns = [
+      /\bhow (is|are|does|do|might|could)\b.*\b(connect|connected|relate|related|link|linked|associated)\b/,
+      /\b(connection|connections|relationship|relationships|link|links|path|paths) between\b/,
+      /\bwhat connects\b/
+    ]
+    if (!connectionPatterns.some(pattern => pattern.test(query))) return null
+
+    // Mentions are already non-overlapping, so "EGFR Mutation" wins over "EGFR"
+    const endpoints: KnowledgeNode[] = []
+    mentions.forEach(mention => {
+      if (!endpoints.some(node => node.id === mention.node.id)) {
+        endpoints.push(mention.node)
+      }
+    })
+
+    if (endpoints.length < 2) return null
+    return { source: endpoints[0], target: endpoints[1] }
+  }
+
+  // Two or more drugs with a combination cue: "osimertinib plus bevacizumab", "X combined with Y".
+  // "With", "versus" and "compare" are not cues: "X compared with Y" is a comparison, not a combination
+  private detectCombinationQuery(query: string, mentions: EntityMention[]): KnowledgeNode[] | null {
+    if (!/\b(?:plus|combined\s+with|in\s+combination)\b|\s\+\s/.test(query)) return null
+    const drugs = new Map<string, KnowledgeNode>()
+    mentions.filter(mention => mention.node.type === 'drug').forEach(mention => drugs.set(mention.node.id, mention.node))
+    return drugs.size >= 2 ? Array.from(drugs.values()) : null
+  }
+
+  private handleCombinationRequest(drugs: KnowledgeNode[]): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string, combination: CombinationAnalysis } {
+    const combination = analyzeCombination(drugs, this.store)
+    console.log(`💊 ${combination.redundantTargets.length} redundant target(s), ${combination.sharedPathways.length} shared and ${combination.complementaryPathways.length} complementary pathway(s)`)
+    return {
+      nodes: combination.nodes,
+      relations: combination.relations,
+      context: `${this.contextInfo}\n\n${formatCombinationAnalysis(combination)}`,
+      combination
+    }
+  }
+
+  private handleResistanceRequest(query: ResistanceQuery): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string, resistance: ResistanceAnalysis } {
+    const resistance = analyzeResistance(query, this.store)
+    console.log(`🛡️ ${resistance.causes.length} resistance mechanism(s), ${resistance.alternatives.length} option(s) after ${query.drug.label}`)
+    return {
+      nodes: resistance.nodes,
+      relations: resistance.relations,
+      context: `${this.contextInfo}\n\n${formatResistanceAnalysis(resistance)}`,
+      resistance
+    }
+  }
+
+  // Build the answer subgraph from the shortest paths between two entities
+  private handleConnectionRequest(source: KnowledgeNode, target: KnowledgeNode): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string, paths: GraphPath[] } {
+    const paths = this.findPaths(source.id, target.id, { maxHops: 4, k: 3 })
+    const nodes = new Map<string, KnowledgeNode>([[source.id, source], [target.id, target]])
+    const relations = new Set<KnowledgeRelation>()
+
+    paths.forEach(path => {
+      path.nodes.forEach(node => nodes.set(node.id, node))
+      path.steps.forEach(step => relations.add(step.relation))
+    })
+
+    console.log(`🛤️ Found ${paths.length} path(s) between ${source.label} and ${target.label}`)
+    return {
+      nodes: Array.from(nodes.values()),
+      relations: Array.from(relations),
+      context: this.contextInfo,
+      paths
+    }
+  }
+
+  // Answer from variant nodes (gene, drug sensitivity and resistance). A variant the graph
+  // does not know falls back to its gene, and the context says so.
+  private handleVariantRequest(query: string, changes: ProteinChange[], mentions: EntityMention[]): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string } | null {
+    const nodes = new Map<string, KnowledgeNode>()
+    const relations: KnowledgeRelation[] = []
+    const notes: string[] = []
+    // Nested mentions count, so "EGFR T790M" still names EGFR; "Met" inside p.Thr790Met does not
+    const geneMentions = this.linker.link(query, { allowOverlaps: true, types: ['gene'] })
+      .filter(mention => !changes.some(change => mention.start < change.end && mention.end > change.start))
+
+    changes.forEach(change => {
+      const gene = this.resolveVariantGene(change, geneMentions)
+      const variant = this.findVariantNode(change, gene)
+      if (variant) {
+        console.log(`🧬 Variant ${change.text} -> ${variant.label}`)
+        nodes.set(variant.id, variant)
+        this.store.getNeighbors(variant.id).forEach(({ node, relation }) => {
+          nodes.set(node.id, node)
+          relations.push(relation)
+        })
+        // Biomarker-only variants have no drug edges of their own; the gene's drugs stand in
+        if (variant.type !== 'variant' && gene) this.addGeneLevelDrugs(gene, nodes, relations)
+        return
+      }
+      if (!gene) return
+
+      console.log(`🧬 Variant ${gene.label} ${change.notation} not in graph, falling back to ${gene.label}`)
+      this.addGeneLevelDrugs(gene, nodes, relations)
+      this.store.getNeighbors(gene.id, { direction: 'in', relations: ['variant_of'] }).forEach(({ node, relation }) => {
+        nodes.set(node.id, node)
+        relations.push(relation)
+      })
+      notes.push(`- ${gene.label} ${change.notation} is not in the knowledge graph. The data below is for the ${gene.label} gene and its known variants; say that variant-specific evidence is missing.`)
+    })
+    if (nodes.size === 0) return null
+
+    // Drugs named in the question stay in view even without an edge, so a "no" answer shows both sides
+    mentions.filter(mention => mention.node.type === 'drug').forEach(mention => nodes.set(mention.node.id, mention.node))
+
+    return {
+      nodes: Array.from(nodes.values()),
+      relations: relations.filter(relation => nodes.has(relation.source) && nodes.has(relation.target)),
+      context: notes.length > 0 ? `${this.contextInfo}\n\nVARIANT LOOKUP:\n${notes.join('\n')}` : this.contextInfo
+    }
+  }
+
+  // The gene a variant belongs to: the gene named just before it ("KRAS G12C"), else any gene in the question
+  private resolveVariantGene(change: ProteinChange, geneMentions: EntityMention[]): KnowledgeNode | undefined {
+    const before = geneMentions.filter(mention => mention.end <= change.start).sort((a, b) => b.end - a.end)[0]
+    if (before) return before.node
+    if (geneMentions.length > 0) return geneMentions[0].node
+
+    // No gene named: T790M alone is enough when only one gene has that variant
+    const genes = new Set(this.store.getNodesByType('variant').filter(node => matchesProteinChange(node.properties || {}, change)).map(node => node.properties?.gene))
+    if (genes.size !== 1) return undefined
+    return this.findNodesByLabels([String(Array.from(genes)[0])], 'gene')[0]
+  }
+
+  // Variant node for the change, or a biomarker labelled like one ("KRAS G12C")
+  private findVariantNode(change: ProteinChange, gene: KnowledgeNode | undefined): KnowledgeNode | undefined {
+    if (!gene) return undefined
+    const variant = this.store.getNodesByType('variant').find(node => matchesProteinChange(node.properties || {}, change) && node.properties?.gene === gene.label)
+    return variant || this.findNodesByLabels([`${gene.label} ${change.notation}`], 'biomarker')[0]
+  }
+
+  // The gene and the drugs acting on it
+  private addGeneLevelDrugs(gene: KnowledgeNode, nodes: Map<string, KnowledgeNode>, relations: KnowledgeRelation[]): void {
+    nodes.set(gene.id, gene)
+    this.store.getNeighbors(gene.id, { direction: 'in', types: ['drug'] }).forEach(({ node, relation }) => {
+      nodes.set(node.id, node)
+      relations.push(relation)
+    })
+  }
+
+  // Answer a relation-constrained question from the edges of that relation and direction only.
+  // Returns null when nothing matches so the caller can fall back to broader retrieval.
+  private handleRelationRequest(intent: RelationIntent): { nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string } | null {
+    const anchor = intent.anchor.node
+    const reading = describeRelationIntent(intent)
+    console.log(`🧭 Relation query: ${reading}`)
+
+    let neighbors = this.store.getNeighbors(anchor.id, { direction: intent.direction, relations: intent.relations })
+    if (intent.other) {
+      neighbors = neighbors.filter(({ node }) => node.id === intent.other!.node.id)
+    } else if (intent.wantedTypes.length > 0) {
+      neighbors = neighbors.filter(({ node }) => intent.wantedTypes.includes(node.type))
+    }
+    if (neighbors.length === 0) return null
+
+    const nodes = new Map<string, KnowledgeNode>([[anchor.id, anchor]])
+    const relations: KnowledgeRelation[] = []
+    neighbors.forEach(({ node, relation }) => {
+      if (nodes.size >= 10 && !nodes.has(node.id)) return
+      nodes.set(node.id, node)
+      relations.push(relation)
+    })
+
+    console.log(`🧭 ${reading}: ${nodes.size - 1} match(es)`)
+    return {
+      nodes: Array.from(nodes.values()),
+      relations,
+      context: `${this.contextInfo}\n\nQUESTION READ AS: ${reading} (only these relationships are listed)`
+    }
+  }
+
   // Analyze what the user is asking for
-  private analyzeQueryIntent(query: string): {
+  private analyzeQueryIntent(query: string, originalQuery: string, mentions: EntityMention[]): {
     wantedTypes: string[],
     contextEntity: 'disease' | 'specific' | 'general',
     includeContext: boolean,
@@ -226,14 +638,11 @@ Each entity includes clinically actionable information for personalized cancer t
     ]
     intent.limitToOne = singularRequests.some(phrase => query.toLowerCase().includes(phrase))
 
-    // Extract specific gene names from the query (more precise matching)
-    const knownGenes = ['FGFR1', 'MYC', 'EGFR', 'KRAS', 'TP53', 'BRCA1', 'BRCA2', 'HER2', 'ERBB2', 'PIK3CA', 'ALK', 'ROS1', 'RET', 'MET', 'BRAF', 'APC', 'AR', 'NRAS', 'CDKN2A', 'SMAD4', 'MLH1']
-    
-    // Look for exact gene name matches in the query
-    intent.specificGenes = knownGenes.filter(gene => 
-      query.toUpperCase().includes(gene) || 
-      query.toLowerCase().includes(gene.toLowerCase())
-    )
+    // Extract specific gene names from the query through the graph-built entity linker.
+    // Nested mentions count, so "EGFR mutation" still names the EGFR gene.
+    const geneMentions = this.linker.link(originalQuery, { allowOverlaps: true, types: ['gene'] })
+      .sort((a, b) => a.start - b.start)
+    intent.specificGenes = Array.from(new Set(geneMentions.map(mention => mention.node.label.toUpperCase())))
     
     // If user wants only one gene and we found multiple, take the first one
     if (intent.limitToOne && intent.specificGenes.length > 1) {
@@ -241,33 +650,28 @@ Each entity includes clinically actionable information for personalized cancer t
       console.log(`🎯 Limited to one gene: ${intent.specificGenes[0]}`)
     }
 
-    // Detect what types of entities the user wants
-    if (query.includes('gene') || query.includes('genes') || intent.specificGenes.length > 0) {
+    // Detect what types of entities the user wants, from the nouns in the type registry.
+    // Context types (diseases) frame the question rather than being asked for.
+    const typeNouns = getEntityTypeNouns()
+    const words = query.toLowerCase().match(/[a-z0-9_]+/g) || []
+    words.forEach(word => {
+      const type = typeNouns[word]
+      if (type && !ENTITY_TYPE_SCHEMAS[type].context && !intent.wantedTypes.includes(type)) {
+        intent.wantedTypes.push(type)
+        intent.includeContext = true
+      }
+    })
+    if (intent.specificGenes.length > 0 && !intent.wantedTypes.includes('gene')) {
       intent.wantedTypes.push('gene')
       intent.includeContext = true
     }
-    if (query.includes('drug') || query.includes('drugs') || query.includes('treatment') || query.includes('therapy') || query.includes('associated drugs')) {
-      intent.wantedTypes.push('drug')
-      intent.includeContext = true
-    }
-    if (query.includes('pathway') || query.includes('pathways') || query.includes('signaling') || query.includes('associated pathways')) {
-      intent.wantedTypes.push('pathway')
-      intent.includeContext = true
-    }
-    if (query.includes('biomarker') || query.includes('biomarkers') || query.includes('marker') || query.includes('associated biomarkers')) {
-      intent.wantedTypes.push('biomarker')
-      intent.includeContext = true
-    }
 
     // Detect context entity
-    if (query.includes('breast cancer') || query.includes('lung cancer') || 
-        query.includes('colorectal cancer') || query.includes('pancreatic cancer') || 
-        query.includes('prostate cancer') || query.includes('melanoma') || 
-        query.includes('ovarian cancer')) {
+    if (mentions.some(mention => mention.node.type === 'disease')) {
       intent.contextEntity = 'disease'
     } else if (intent.specificGenes.length > 0) {
       intent.contextEntity = 'specific'
-    } else if (this.extractSpecificTerms(query).length > 0) {
+    } else if (mentions.length > 0) {
       intent.contextEntity = 'specific'
     }
 
@@ -275,20 +679,21 @@ Each entity includes clinically actionable information for personalized cancer t
     if (intent.specificGenes.length > 0) {
       if (intent.wantedTypes.length === 0) {
         // User mentioned specific genes but didn't specify what they want - show everything connected
-        intent.wantedTypes.push('gene', 'pathway', 'drug', 'biomarker')
+        intent.wantedTypes.push(...getAnswerEntityTypes())
       }
       intent.includeContext = true
     }
 
     // If no specific types requested, infer from context
     if (intent.wantedTypes.length === 0) {
+      const drugTargets = Object.keys(ENTITY_TYPE_SCHEMAS).filter(type => ENTITY_TYPE_SCHEMAS[type].drugTarget)
       if (query.includes('target') || query.includes('treatment')) {
-        intent.wantedTypes.push('drug', 'gene')
+        intent.wantedTypes.push('drug', ...drugTargets)
       } else if (query.includes('involve') || query.includes('associated')) {
-        intent.wantedTypes.push('gene', 'pathway')
+        intent.wantedTypes.push(...drugTargets, 'pathway')
       } else {
         // Default: show connected entities
-        intent.wantedTypes.push('gene', 'pathway', 'drug', 'biomarker')
+        intent.wantedTypes.push(...getAnswerEntityTypes())
         intent.includeContext = true
       }
     }
@@ -297,29 +702,26 @@ Each entity includes clinically actionable information for personalized cancer t
   }
 
   // Fallback method for direct entity matching
-  private findDirectMatches(query: string): { nodes: KnowledgeNode[], relations: KnowledgeRelation[] } {
+  private findDirectMatches(mentions: EntityMention[]): { nodes: KnowledgeNode[], relations: KnowledgeRelation[] } {
     const nodes: KnowledgeNode[] = []
     const relations: KnowledgeRelation[] = []
     const nodeIds = new Set<string>()
 
-    if (Array.isArray(this.kg.nodes)) {
-      this.kg.nodes.forEach((node: KnowledgeNode) => {
-        const nodeLabel = node.label?.toLowerCase() || ''
-        if (query.includes(nodeLabel) && nodeLabel.length > 2) {
-          nodes.push(node)
-          nodeIds.add(node.id)
-        }
-      })
-    }
+    mentions.forEach(({ node, matchedBy }) => {
+      if (matchedBy !== 'alias' && normalizeLabel(node.label || '').length > 2 && !nodeIds.has(node.id)) {
+        nodes.push(node)
+        nodeIds.add(node.id)
+      }
+    })
 
     // Add a few connected nodes for context
-    if (Array.isArray(this.kg.edges) && nodes.length > 0) {
-      this.kg.edges.forEach((relation: KnowledgeRelation) => {
-        if ((nodeIds.has(relation.source) || nodeIds.has(relation.target)) && nodes.length < 8) {
+    if (nodes.length > 0) {
+      this.store.getIncidentEdges(nodeIds).forEach((relation: KnowledgeRelation) => {
+        if (nodes.length < 8) {
           relations.push(relation)
           
           if (nodeIds.has(relation.source) && !nodeIds.has(relation.target)) {
-            const targetNode = this.kg.nodes.find(n => n.id === relation.target)
+            const targetNode = this.store.getNode(relation.target)
             if (targetNode) {
               nodes.push(targetNode)
               nodeIds.add(targetNode.id)
@@ -340,18 +742,9 @@ Each entity includes clinically actionable information for personalized cancer t
 
     console.log(`🧬 Processing STRICT gene request for: ${geneNames.join(', ')} with types: ${wantedTypes.join(', ')}, limitToOne: ${limitToOne}`)
 
-    if (!Array.isArray(this.kg.nodes) || !Array.isArray(this.kg.edges)) {
-      return { nodes: [], relations: [], context: this.contextInfo }
-    }
-
     // Step 1: Find the specific genes mentioned
-    const targetGenes: KnowledgeNode[] = []
-    this.kg.nodes.forEach((node: KnowledgeNode) => {
-      if (node.type === 'gene' && geneNames.includes(node.label?.toUpperCase() || '')) {
-        targetGenes.push(node)
-        console.log(`✅ Found target gene: ${node.label}`)
-      }
-    })
+    const targetGenes = this.findNodesByLabels(geneNames, 'gene')
+    targetGenes.forEach(node => console.log(`✅ Found target gene: ${node.label}`))
     
     // If user wants only one gene, limit to the first match
     const genesToProcess = limitToOne ? targetGenes.slice(0, 1) : targetGenes
@@ -388,10 +781,8 @@ Each entity includes clinically actionable information for personalized cancer t
 
     // Step 2: Add biomarkers with same names first (highest priority)
     if (wantedTypes.includes('biomarker')) {
-      this.kg.nodes.forEach((node: KnowledgeNode) => {
-        if (node.type === 'biomarker' && 
-            geneNames.includes(node.label?.toUpperCase() || '') &&
-            !finalNodeIds.has(node.id)) {
+      this.findNodesByLabels(geneNames, 'biomarker').forEach((node: KnowledgeNode) => {
+        if (!finalNodeIds.has(node.id)) {
           finalNodes.push(node)
           finalNodeIds.add(node.id)
           console.log(`🔬 Added matching biomarker: ${node.label}`)
@@ -404,20 +795,10 @@ Each entity includes clinically actionable information for personalized cancer t
     const nodeCountByType: { [key: string]: number } = {}
     
     genesToProcess.forEach(gene => {
-      this.kg.edges.forEach((relation: KnowledgeRelation) => {
-        let connectedNode: KnowledgeNode | null = null
-
-        // Check direct connections to our target genes
-        if (relation.source === gene.id) {
-          connectedNode = this.kg.nodes.find(n => n.id === relation.target) || null
-        } else if (relation.target === gene.id) {
-          connectedNode = this.kg.nodes.find(n => n.id === relation.source) || null
-        }
-
+      // Check direct connections to our target genes
+      this.store.getNeighbors(gene.id, { types: wantedTypes }).forEach(({ node: connectedNode, relation }) => {
         // Very strict criteria for adding nodes
-        if (connectedNode && 
-            wantedTypes.includes(connectedNode.type) && 
-            !finalNodeIds.has(connectedNode.id)) {
+        if (!finalNodeIds.has(connectedNode.id)) {
           
           // Initialize counter for this type
           if (!nodeCountByType[connectedNode.type]) {
@@ -454,41 +835,35 @@ Each entity includes clinically actionable information for personalized cancer t
     }
   }
 
-  // Find genes related to a disease context
+  // Find genes related to a disease context, using the graph instead of a fixed disease -> gene table
   private findGenesRelatedToContext(context: string): KnowledgeNode[] {
-    const contextLower = context.toLowerCase()
-    const relatedGenes: KnowledgeNode[] = []
+    const diseases = this.linker.linkNodes(context, { types: ['disease'] })
+    const geneScores = new Map<string, number>()
     
-    // Disease-specific gene mappings
-    const diseaseGeneMap: { [key: string]: string[] } = {
-      'breast cancer': ['BRCA1', 'BRCA2', 'ERBB2', 'PIK3CA', 'ESR1', 'TP53'],
-      'lung cancer': ['EGFR', 'KRAS', 'ALK', 'ROS1', 'MET', 'BRAF'],
-      'colorectal cancer': ['APC', 'KRAS', 'PIK3CA', 'TP53', 'MLH1'],
-      'pancreatic cancer': ['KRAS', 'TP53', 'SMAD4', 'PIK3CA'],
-      'prostate cancer': ['AR', 'TP53', 'PIK3CA'],
-      'melanoma': ['BRAF', 'NRAS', 'CDKN2A', 'TP53'],
-      'ovarian cancer': ['BRCA1', 'BRCA2', 'TP53', 'PIK3CA'],
-      'cancer': ['TP53', 'KRAS', 'EGFR', 'MYC', 'BRCA1']
-    }
-    
-    // Find matching disease context
-    for (const [disease, genes] of Object.entries(diseaseGeneMap)) {
-      if (contextLower.includes(disease)) {
-        // Find the first available gene from this disease context
-        for (const geneName of genes) {
-          const gene = this.kg.nodes.find(node => 
-            node.type === 'gene' && node.label?.toUpperCase() === geneName
-          )
-          if (gene) {
-            relatedGenes.push(gene)
-            break // Only return the first match for single gene requests
-          }
+    // Count gene -> disease chains: direct edges, or one hop through a pathway or biomarker
+    diseases.forEach(disease => {
+      this.store.getNeighbors(disease.id).forEach(({ node }) => {
+        if (node.type === 'gene') {
+          geneScores.set(node.id, (geneScores.get(node.id) || 0) + 2)
+          return
         }
-        break
-      }
+        this.store.getNeighbors(node.id, { types: ['gene'] }).forEach(({ node: gene }) => {
+          geneScores.set(gene.id, (geneScores.get(gene.id) || 0) + 1)
+        })
+      })
+    })
+    
+    // No disease in context: fall back to the best-connected gene in the graph
+    if (geneScores.size === 0) {
+      this.store.getNodesByType('gene').forEach(gene => geneScores.set(gene.id, this.store.getDegree(gene.id)))
     }
     
-    return relatedGenes
+    const ranked = this.store.sortByDataOrder(
+      Array.from(geneScores.keys()).map(id => this.store.getNode(id)!)
+    ).sort((a, b) => (geneScores.get(b.id) || 0) - (geneScores.get(a.id) || 0))
+    
+    // Only return the first match for single gene requests
+    return ranked.slice(0, 1)
   }
   
   // Add limited connections for a specific gene
@@ -502,18 +877,8 @@ Each entity includes clinically actionable information for personalized cancer t
   ): void {
     const nodeCountByType: { [key: string]: number } = {}
     
-    this.kg.edges.forEach((relation: KnowledgeRelation) => {
-      let connectedNode: KnowledgeNode | null = null
-
-      if (relation.source === gene.id) {
-        connectedNode = this.kg.nodes.find(n => n.id === relation.target) || null
-      } else if (relation.target === gene.id) {
-        connectedNode = this.kg.nodes.find(n => n.id === relation.source) || null
-      }
-
-      if (connectedNode && 
-          wantedTypes.includes(connectedNode.type) && 
-          !finalNodeIds.has(connectedNode.id)) {
+    this.store.getNeighbors(gene.id, { types: wantedTypes }).forEach(({ node: connectedNode, relation }) => {
+      if (!finalNodeIds.has(connectedNode.id)) {
         
         if (!nodeCountByType[connectedNode.type]) {
           nodeCountByType[connectedNode.type] = 0
@@ -530,33 +895,25 @@ Each entity includes clinically actionable information for personalized cancer t
     })
   }
 
-  // Helper method to extract specific biological terms from query
-  private extractSpecificTerms(query: string): string[] {
-    const biologicalTerms = [
-      // Common genes
-      'egfr', 'kras', 'tp53', 'brca1', 'brca2', 'her2', 'erbb2', 'pik3ca', 'alk', 'ros1', 'ret', 'met', 'braf', 'fgfr1', 'myc',
-      // Common pathways
-      'pi3k', 'akt', 'mapk', 'ras', 'p53', 'wnt', 'notch', 'jak', 'stat', 'mtor', 'nf-kb', 'fgfr',
-      // Common drugs
-      'trastuzumab', 'osimertinib', 'gefitinib', 'erlotinib', 'crizotinib', 'lapatinib', 'tamoxifen', 'olaparib',
-      // Cancer types
-      'lung cancer', 'breast cancer', 'nsclc', 'sclc',
-      // General terms
-      'pathway', 'signaling', 'mutation', 'inhibitor', 'receptor', 'kinase'
-    ]
-
-    return biologicalTerms.filter(term => 
-      query.includes(term) || term.includes(query.replace(/[^a-z0-9]/g, ''))
-    )
+  // Look up nodes of one type by exact label through the store index, in data order
+  private findNodesByLabels(labels: string[], type: string): KnowledgeNode[] {
+    const matches = new Map<string, KnowledgeNode>()
+    labels.forEach(label => {
+      this.store.findByLabel(label, false).forEach(node => {
+        if (node.type === type) matches.set(node.id, node)
+      })
+    })
+    return this.store.sortByDataOrder(Array.from(matches.values()))
   }
 
   // Format the extracted knowledge for OpenAI
-  public formatKnowledgeForAI(nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string): string {
+  public formatKnowledgeForAI(nodes: KnowledgeNode[], relations: KnowledgeRelation[], context: string, paths?: GraphPath[]): string {
     if (nodes.length === 0 && relations.length === 0) {
       return "No relevant information found in the knowledge graph."
     }
 
     let formattedKnowledge = context + "\n\nRELEVANT KNOWLEDGE FROM GRAPH:\n\n"
+    const citations = new CitationIndex()
 
     // Format nodes
     if (Array.isArray(nodes) && nodes.length > 0) {
@@ -569,6 +926,7 @@ Each entity includes clinically actionable information for personalized cancer t
         if (node.properties?.aliases && Array.isArray(node.properties.aliases)) {
           formattedKnowledge += ` - Also known as: ${node.properties.aliases.join(', ')}`
         }
+        formattedKnowledge += citations.cite(getEvidence(node))
         formattedKnowledge += "\n"
       })
       formattedKnowledge += "\n"
@@ -577,16 +935,66 @@ Each entity includes clinically actionable information for personalized cancer t
     // Format relationships
     if (Array.isArray(relations) && relations.length > 0) {
       formattedKnowledge += "RELATIONSHIPS:\n"
+      const nodesById = new Map(nodes.map(n => [n.id, n]))
       relations.forEach((relation: KnowledgeRelation) => {
-        const sourceNode = nodes.find(n => n.id === relation.source)
-        const targetNode = nodes.find(n => n.id === relation.target)
-        const relationLabel = relation.relation ? relation.relation.replace('_', ' ') : 'related to'
-        formattedKnowledge += `- ${sourceNode?.label || relation.source} ${relationLabel} ${targetNode?.label || relation.target}\n`
+        const sourceNode = nodesById.get(relation.source)
+        const targetNode = nodesById.get(relation.target)
+        const relationLabel = relation.relation ? relation.relation.replace(/_/g, ' ') : 'related to'
+        const evidence = getEvidence(relation)
+        const levels = Array.from(new Set(evidence.map(entry => entry.level).filter(Boolean)))
+        formattedKnowledge += `- ${sourceNode?.label || relation.source} ${relationLabel} ${targetNode?.label || relation.target}`
+        if (isResistanceRelation(relation) && describeResistance(relation)) formattedKnowledge += ` (${describeResistance(relation)})`
+        if (levels.length > 0) formattedKnowledge += ` (evidence level: ${levels.join(', ')})`
+        formattedKnowledge += `${citations.cite(evidence)}\n`
+      })
+    }
+
+    // Spell out which drugs the subgraph says stop working, so answers never recommend them unqualified
+    const resistanceRelations = relations.filter(isResistanceRelation)
+    if (resistanceRelations.length > 0) {
+      formattedKnowledge += "\nRESISTANCE CONTEXT:\n"
+      const nodesById = new Map(nodes.map(n => [n.id, n]))
+      const byDrug = new Map<string, KnowledgeRelation[]>()
+      resistanceRelations.forEach(relation => byDrug.set(relation.target, [...(byDrug.get(relation.target) || []), relation]))
+      byDrug.forEach((drugRelations, drugId) => {
+        const causes = drugRelations.map(relation => nodesById.get(relation.source)?.label || relation.source)
+        formattedKnowledge += `- ${nodesById.get(drugId)?.label || drugId} stops working in tumours with: ${causes.join(', ')}\n`
       })
+      formattedKnowledge += "Mention these resistance mechanisms whenever the answer recommends one of these drugs.\n"
+    }
+
+    // Format multi-hop paths as explicit reasoning chains
+    if (paths) {
+      formattedKnowledge += "\nREASONING CHAINS:\n"
+      if (paths.length === 0) {
+        formattedKnowledge += "- No connecting path was found in the knowledge graph between the requested entities\n"
+      }
+      paths.forEach((path, index) => {
+        let chain = path.nodes[0]?.label || 'Unknown'
+        path.steps.forEach((step, stepIndex) => {
+          const relationLabel = step.relation.relation ? step.relation.relation.replace(/_/g, ' ') : 'related to'
+          const nextLabel = path.nodes[stepIndex + 1]?.label || 'Unknown'
+          chain += step.direction === 'out'
+            ? ` -[${relationLabel}]-> ${nextLabel}`
+            : ` <-[${relationLabel}]- ${nextLabel}`
+        })
+        formattedKnowledge += `${index + 1}. ${chain} (${path.steps.length} hop${path.steps.length === 1 ? '' : 's'})\n`
+      })
+      formattedKnowledge += "Arrows show edge direction; a reversed arrow means the right-hand entity acts on the left-hand one.\n"
+    }
+
+    // Numbered sources for the [n] markers above, so answers can cite them
+    if (citations.size > 0) {
+      formattedKnowledge += `\nSOURCES:\n${citations.format()}\n`
     }
 
     return formattedKnowledge
   }
 }
 
-export const knowledgeGraphService = new KnowledgeGraphService()
\ No newline at end of file
+export const knowledgeGraphService = new KnowledgeGraphService()
+knowledgeGraphService.registerDataset('Enhanced oncology graph', enhancedKnowledgeGraphData)
+knowledgeGraphService.registerDataset('Merged core + enhanced graph', mergeKnowledgeGraphs([
+  { name: 'Core oncology graph', graph: knowledgeGraphData as KnowledgeGraph },
+  { name: 'Enhanced oncology graph', graph: enhancedKnowledgeGraphData as KnowledgeGraph }
+]).graph)
\ No newline at end of file
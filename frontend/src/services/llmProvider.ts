@@ -0,0 +1,378 @@
+import OpenAI from 'openai'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// What the API server should look up in its knowledge graph to build the system prompt
+export interface GraphContextRequest {
+  // Active dataset id; the server looks the query up in its own copy of bundled datasets
+  dataset?: string
+  query: string
+  // Ids of entities a follow-up question refers back to
+  focus?: string[]
+  // Context built by the client, for datasets the server does not have (loaded from a URL or file)
+  context?: string
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[]
+  // Used by the proxy provider only; the others take the system prompt from `messages`
+  graph?: GraphContextRequest
+  // Fall back to the provider's configured values when omitted
+  maxTokens?: number
+  temperature?: number
+  signal?: AbortSignal
+}
+
+/**
+ * A chat model the assistant can talk to.
+ * Implementations stream text deltas; `complete` collects them into one answer.
+ */
+export interface LLMProvider {
+  readonly name: string
+  readonly model: string
+  // Throws with a user-facing message when the provider cannot be used as configured
+  validate(): void
+  stream(request: LLMRequest): AsyncIterable<string>
+  complete(request: LLMRequest): Promise<string>
+}
+
+// The browser uses 'proxy' (or 'mock'); the OpenAI providers hold keys and run on the server
+export type LLMProviderKind = 'openai' | 'openai-compatible' | 'mock' | 'proxy'
+
+export interface LLMConfig {
+  provider: LLMProviderKind
+  model: string
+  apiKey?: string
+  // Endpoint for OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama,
+  // or the OncoGraph server origin for the proxy provider (same origin when unset)
+  baseURL?: string
+  maxTokens: number
+  temperature: number
+  // Delay between streamed mock tokens, so offline demos look like a real model
+  mockTokenDelayMs: number
+}
+
+export type LLMEnvironment = { [key: string]: string | boolean | undefined }
+
+const PLACEHOLDER_API_KEY = 'your_openai_api_key_here'
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  maxTokens: 1000,
+  temperature: 0.3,
+  mockTokenDelayMs: 0
+}
+
+const DEFAULT_MODELS: { [kind in LLMProviderKind]: string } = {
+  'openai': 'gpt-4o-mini',
+  'openai-compatible': 'llama3',
+  'mock': 'mock-oncograph',
+  // The server decides which model answers proxied requests
+  'proxy': 'server'
+}
+
+const readString = (env: LLMEnvironment, key: string): string | undefined => {
+  const value = env[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+const readNumber = (env: LLMEnvironment, key: string, fallback: number): number => {
+  const value = Number(readString(env, key))
+  return Number.isFinite(value) && readString(env, key) !== undefined ? value : fallback
+}
+
+/**
+ * Build the provider configuration from `${prefix}LLM_*` variables: VITE_LLM_* in
+ * the browser, plain LLM_* and OPENAI_API_KEY on the server.
+ * Takes the environment as a parameter so scripts outside Vite can pass process.env.
+ */
+export const readLLMConfig = (env: LLMEnvironment, prefix: string = 'VITE_', defaultProvider: LLMProviderKind = DEFAULT_LLM_CONFIG.provider): LLMConfig => {
+  const requested = readString(env, `${prefix}LLM_PROVIDER`) || defaultProvider
+  if (!(requested in DEFAULT_MODELS)) {
+    console.warn(`⚠️ Unknown ${prefix}LLM_PROVIDER "${requested}", falling back to ${defaultProvider}`)
+  }
+  const provider = (requested in DEFAULT_MODELS ? requested : defaultProvider) as LLMProviderKind
+
+  return {
+    provider,
+    model: readString(env, `${prefix}LLM_MODEL`) || DEFAULT_MODELS[provider],
+    apiKey: readString(env, `${prefix}LLM_API_KEY`) || readString(env, `${prefix}OPENAI_API_KEY`),
+    baseURL: readString(env, `${prefix}LLM_BASE_URL`),
+    maxTokens: readNumber(env, `${prefix}LLM_MAX_TOKENS`, DEFAULT_LLM_CONFIG.maxTokens),
+    temperature: readNumber(env, `${prefix}LLM_TEMPERATURE`, DEFAULT_LLM_CONFIG.temperature),
+    mockTokenDelayMs: readNumber(env, `${prefix}LLM_MOCK_DELAY_MS`, DEFAULT_LLM_CONFIG.mockTokenDelayMs)
+  }
+}
+
+abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: string
+  abstract readonly model: string
+
+  abstract validate(): void
+  abstract stream(request: LLMRequest): AsyncIterable<string>
+
+  public async complete(request: LLMRequest): Promise<string> {
+    let text = ''
+    for await (const delta of this.stream(request)) {
+      text += delta
+    }
+    return text
+  }
+}
+
+export class OpenAIProvider extends BaseLLMProvider {
+  public readonly name: string = 'openai'
+  public readonly model: string
+  protected client: OpenAI | null = null
+
+  constructor(protected config: LLMConfig) {
+    super()
+    this.model = config.model
+    try {
+      const apiKey = this.resolveApiKey()
+      if (apiKey) {
+        // No dangerouslyAllowBrowser: the SDK refuses to run in a browser, which keeps keys server-side
+        this.client = new OpenAI({
+          apiKey,
+          baseURL: config.baseURL
+        })
+      }
+    } catch (error) {
+      console.error('Failed to initialize OpenAI client:', error)
+    }
+  }
+
+  public validate(): void {
+    const apiKey = this.config.apiKey
+    if (!apiKey || apiKey === PLACEHOLDER_API_KEY) {
+      throw new Error('OpenAI API key is not configured on the server. Please check your .env file and set OPENAI_API_KEY.')
+    }
+
+    if (!apiKey.startsWith('sk-')) {
+      throw new Error('Invalid OpenAI API key format. The key should start with "sk-".')
+    }
+
+    if (!this.client) {
+      throw new Error('OpenAI client is not initialized. Please check your API key configuration.')
+    }
+  }
+
+  public async *stream(request: LLMRequest): AsyncIterable<string> {
+    this.validate()
+    const stream = await this.client!.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+      stream: true
+    }, { signal: request.signal })
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) yield delta
+    }
+  }
+
+  protected resolveApiKey(): string | undefined {
+    const apiKey = this.config.apiKey
+    return apiKey && apiKey !== PLACEHOLDER_API_KEY ? apiKey : undefined
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions protocol (llama.cpp, Ollama, vLLM).
+ * Local servers usually ignore the key, so one is not required.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  public readonly name: string = 'openai-compatible'
+
+  public validate(): void {
+    if (!this.config.baseURL) {
+      throw new Error('No endpoint configured for the OpenAI-compatible provider. Please set LLM_BASE_URL in your .env file.')
+    }
+
+    if (!this.client) {
+      throw new Error(`Could not create a client for ${this.config.baseURL}. Please check your LLM configuration.`)
+    }
+  }
+
+  protected resolveApiKey(): string | undefined {
+    return super.resolveApiKey() || 'not-needed'
+  }
+}
+
+// Caps keep mock answers short enough to read in a demo
+const MOCK_MAX_ENTITIES = 5
+const MOCK_MAX_RELATIONSHIPS = 6
+const MOCK_MAX_CHAINS = 3
+
+const sectionLines = (prompt: string, header: string): string[] => {
+  const start = prompt.indexOf(`${header}:\n`)
+  if (start === -1) return []
+  const lines: string[] = []
+  for (const line of prompt.slice(start + header.length + 2).split('\n')) {
+    if (!line.trim()) break
+    lines.push(line)
+  }
+  return lines
+}
+
+/**
+ * Deterministic stand-in for an LLM: answers from the knowledge graph data in
+ * the system prompt, in the same sectioned format the real model is asked for.
+ * The same messages always produce the same answer, so the full chat flow can
+ * run in tests and offline demos without a key or network.
+ */
+export class MockLLMProvider extends BaseLLMProvider {
+  public readonly name = 'mock'
+  public readonly model: string
+
+  constructor(private tokenDelayMs: number = 0, model: string = DEFAULT_MODELS.mock) {
+    super()
+    this.model = model
+  }
+
+  public validate(): void {}
+
+  public async *stream(request: LLMRequest): AsyncIterable<string> {
+    const answer = this.buildAnswer(request.messages)
+    // Word-sized chunks, whitespace attached, so joining them restores the answer exactly
+    for (const token of answer.match(/\s*\S+/g) || []) {
+      if (request.signal?.aborted) {
+        const error = new Error('Request was aborted.')
+        error.name = 'AbortError'
+        throw error
+      }
+      if (this.tokenDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.tokenDelayMs))
+      }
+      yield token
+    }
+  }
+
+  public buildAnswer(messages: LLMMessage[]): string {
+    const systemPrompt = messages.find(message => message.role === 'system')?.content || ''
+    const question = [...messages].reverse().find(message => message.role === 'user')?.content || ''
+
+    const entities = sectionLines(systemPrompt, 'ENTITIES')
+      .map(line => line.replace(/(?: \[\d+\])+$/, '').match(/^- ([A-Z_]+): (.+?) \(ID: [^)]*\)(?: - (.*))?$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+    if (entities.length === 0) {
+      return "I'm sorry, I can only answer questions related to the provided knowledge base"
+    }
+
+    const relationships = sectionLines(systemPrompt, 'RELATIONSHIPS').map(line => line.replace(/^- /, ''))
+    const chains = sectionLines(systemPrompt, 'REASONING CHAINS').filter(line => /^\d+\. /.test(line))
+    const combination = sectionLines(systemPrompt, 'COMBINATION ANALYSIS').filter(line => line.startsWith('- '))
+    const resistance = [...sectionLines(systemPrompt, 'RESISTANCE ANALYSIS'), ...sectionLines(systemPrompt, 'RESISTANCE CONTEXT')]
+      .filter(line => line.startsWith('- '))
+    const sources = sectionLines(systemPrompt, 'SOURCES')
+
+    const parts = [
+      `**Overview:** Mock answer to "${question}" built from ${entities.length} knowledge graph ${entities.length === 1 ? 'entity' : 'entities'}.`,
+      '',
+      '**Key Details:**',
+      ...entities.slice(0, MOCK_MAX_ENTITIES).map(([, type, label, details]) => {
+        const description = details?.replace(/(^| - )Also known as:.*$/, '')
+        return `• **${label}** (${type.toLowerCase()})${description ? ` - ${description}` : ''}`
+      })
+    ]
+
+    if (relationships.length > 0) {
+      parts.push('', '**Relationships:**', ...relationships.slice(0, MOCK_MAX_RELATIONSHIPS).map(line => `• ${line}`))
+    }
+    if (chains.length > 0) {
+      parts.push('', '**Reasoning Chains:**', ...chains.slice(0, MOCK_MAX_CHAINS))
+    }
+    if (combination.length > 0) {
+      parts.push('', '**Combination Rationale:**', ...combination.map(line => line.replace(/^- /, '• ')))
+    }
+    if (resistance.length > 0) {
+      parts.push('', '**Resistance:**', ...resistance.map(line => line.replace(/^- /, '• ')))
+    }
+    if (sources.length > 0) {
+      parts.push('', '**Sources:**', ...sources)
+    }
+    return parts.join('\n')
+  }
+}
+
+// Error from the OncoGraph server, carrying its HTTP status like the OpenAI SDK errors do
+export class LLMProxyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'LLMProxyError'
+  }
+}
+
+/**
+ * Sends chat requests to the OncoGraph server (`/api/chat`), which holds the
+ * API key and calls the real model. The answer comes back as a plain text stream.
+ * Only user and assistant turns are sent: the server builds the system prompt from
+ * its own knowledge graph, so clients cannot use it as a general-purpose LLM proxy.
+ */
+export class ProxyLLMProvider extends BaseLLMProvider {
+  public readonly name = 'proxy'
+  public readonly model: string
+
+  constructor(private config: LLMConfig) {
+    super()
+    this.model = config.model
+  }
+
+  public validate(): void {}
+
+  public async *stream(request: LLMRequest): AsyncIterable<string> {
+    const response = await fetch(`${(this.config.baseURL || '').replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: request.messages.filter(message => message.role !== 'system'),
+        graph: request.graph,
+        maxTokens: request.maxTokens ?? this.config.maxTokens,
+        temperature: request.temperature ?? this.config.temperature
+      }),
+      signal: request.signal
+    })
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      throw new LLMProxyError(body?.error || `OncoGraph server responded with ${response.status} ${response.statusText}`, response.status)
+    }
+    if (!response.body) {
+      throw new LLMProxyError('OncoGraph server returned an empty response.', response.status)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        const delta = decoder.decode(value, { stream: true })
+        if (delta) yield delta
+      }
+      const rest = decoder.decode()
+      if (rest) yield rest
+    } finally {
+      reader.releaseLock()
+    }
+  }
+}
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'proxy':
+      return new ProxyLLMProvider(config)
+    case 'mock':
+      return new MockLLMProvider(config.mockTokenDelayMs, config.model)
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config)
+    default:
+      return new OpenAIProvider(config)
+  }
+}
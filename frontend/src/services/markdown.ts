@@ -0,0 +1,367 @@
+/**
+ * Markdown for assistant answers, parsed into a small syntax tree that the UI renders as
+ * React elements. Nothing is ever turned into HTML: raw tags in the text stay text, and
+ * link targets pass through `sanitizeUrl`, so neither LLM output nor user text can inject
+ * markup or script. Covers what the system prompt asks for (headings, bullets including
+ * "•", numbered lists, bold) plus tables, code, links, quotes and [n] citations.
+ */
+
+export type InlineNode =
+  | { type: 'text', text: string }
+  | { type: 'strong', children: InlineNode[] }
+  | { type: 'emphasis', children: InlineNode[] }
+  | { type: 'code', text: string }
+  // href is already sanitized; links with unsafe targets become plain text
+  | { type: 'link', href: string, children: InlineNode[] }
+  // "[2]" or "[1, 3]": numbers from the SOURCES list of the graph context
+  | { type: 'citation', numbers: number[] }
+  | { type: 'break' }
+
+export type TableAlignment = 'left' | 'center' | 'right' | null
+
+export interface ListItem {
+  children: BlockNode[]
+}
+
+export type BlockNode =
+  | { type: 'heading', level: number, children: InlineNode[] }
+  | { type: 'paragraph', children: InlineNode[] }
+  | { type: 'list', ordered: boolean, start: number, items: ListItem[] }
+  | { type: 'code', language: string, text: string }
+  | { type: 'table', alignments: TableAlignment[], header: InlineNode[][], rows: InlineNode[][][] }
+  | { type: 'blockquote', children: BlockNode[] }
+  | { type: 'rule' }
+
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:']
+
+// C0 controls, space, DEL and C1 controls
+const isControlOrSpace = (char: string): boolean => {
+  const code = char.charCodeAt(0)
+  return code <= 0x20 || (code >= 0x7f && code <= 0x9f)
+}
+
+// Only absolute http(s) and mailto links survive. Control characters and whitespace are
+// dropped first because browsers ignore them inside a scheme ("java\tscript:").
+export const sanitizeUrl = (url: string): string | null => {
+  const compact = Array.from(url).filter(char => !isControlOrSpace(char)).join('')
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*:)/i)?.[1].toLowerCase()
+  if (!scheme || !SAFE_URL_SCHEMES.includes(scheme)) return null
+  return compact
+}
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const LIST_ITEM = /^(\s*)([-*+•]|(\d{1,9})[.)])\s+(.*)$/
+const BLOCKQUOTE = /^ {0,3}>\s?(.*)$/
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+
+const indentOf = (line: string): number => line.match(/^\s*/)![0].replace(/\t/g, '    ').length
+
+// Drop up to `amount` columns of leading whitespace
+const dedent = (line: string, amount: number): string => {
+  let column = 0
+  let i = 0
+  while (i < line.length && column < amount && /[ \t]/.test(line[i])) {
+    column += line[i] === '\t' ? 4 : 1
+    i++
+  }
+  return line.slice(i)
+}
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('|') && TABLE_SEPARATOR.test(lines[index + 1])
+
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index]
+  return HEADING.test(line) || FENCE.test(line) || RULE.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line) || isTableStart(lines, index)
+}
+
+const splitTableRow = (line: string): string[] => {
+  const cells: string[] = []
+  let cell = ''
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '\\' && trimmed[i + 1] === '|') {
+      cell += '|'
+      i++
+    } else if (trimmed[i] === '|') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += trimmed[i]
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+const parseAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':')
+  const right = cell.endsWith(':')
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null
+}
+
+// Lines of one list: items at the list's own indent, each with the more-indented lines under it
+const parseList = (lines: string[], index: number): { block: BlockNode, next: number } => {
+  const first = lines[index].match(LIST_ITEM)!
+  const baseIndent = indentOf(first[1])
+  const ordered = first[3] !== undefined
+  const items: ListItem[] = []
+  let current: string[] | null = null
+  // Columns up to an item's text; nested lines lose this much indent
+  let contentIndent = 0
+
+  const flush = () => {
+    if (current) items.push({ children: parseLines(current) })
+  }
+
+  let i = index
+  while (i < lines.length) {
+    const line = lines[i]
+    const item = line.match(LIST_ITEM)
+    if (item && indentOf(item[1]) <= baseIndent + 1 && (item[3] !== undefined) === ordered) {
+      flush()
+      current = [item[4]]
+      contentIndent = indentOf(item[1]) + item[2].length + 1
+      i++
+      continue
+    }
+    if (!line.trim()) {
+      // A blank line ends the list unless the next line carries on with it
+      const next = lines.slice(i + 1).find(candidate => candidate.trim())
+      const nextItem = next?.match(LIST_ITEM)
+      const continues = next !== undefined && (indentOf(next) > baseIndent ||
+        (nextItem !== null && nextItem !== undefined && indentOf(nextItem[1]) <= baseIndent + 1 && (nextItem[3] !== undefined) === ordered))
+      if (!continues) break
+      current!.push('')
+      i++
+      continue
+    }
+    if (indentOf(line) > baseIndent) {
+      // Nested content: strip the item's indent so it parses as top-level blocks
+      current!.push(dedent(line, contentIndent))
+      i++
+      continue
+    }
+    // Lazy continuation of the item's paragraph, as long as it does not start a new block
+    if (startsBlock(lines, i)) break
+    current!.push(line)
+    i++
+  }
+  flush()
+
+  return { block: { type: 'list', ordered, start: ordered ? Number(first[3]) : 1, items }, next: i }
+}
+
+const parseLines = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = []
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      // An unclosed fence runs to the end, which is what a half-streamed code block looks like
+      const close = lines.findIndex((candidate, index) => index > i && candidate.trim().startsWith(fence[1][0].repeat(fence[1].length)))
+      const end = close === -1 ? lines.length : close
+      blocks.push({ type: 'code', language: fence[2], text: lines.slice(i + 1, end).join('\n') })
+      i = end + 1
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) })
+      i++
+      continue
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line)
+      const alignments = splitTableRow(lines[i + 1]).map(parseAlignment)
+      const rows: InlineNode[][][] = []
+      i += 2
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i])
+        rows.push(header.map((_, column) => parseInline(cells[column] || '')))
+        i++
+      }
+      blocks.push({ type: 'table', alignments: header.map((_, column) => alignments[column] || null), header: header.map(cell => parseInline(cell)), rows })
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' })
+      i++
+      continue
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i)
+      blocks.push(block)
+      i = next
+      continue
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && lines[i].trim()) {
+        quoted.push(lines[i].match(BLOCKQUOTE)?.[1] ?? lines[i])
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoted) })
+      continue
+    }
+
+    // Paragraph: keeps its line breaks, which answers use for "Label: value" lines
+    const paragraph = [line.trim()]
+    i++
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim())
+      i++
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+  }
+  return blocks
+}
+
+export const parseMarkdown = (text: string): BlockNode[] => parseLines(text.replace(/\r\n?/g, '\n').split('\n'))
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|>~]/
+// Sticky patterns, matched in place at the scan position rather than on a copy of the rest of the text
+const TICKS = /`+/y
+const CITATION = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\]/y
+// Link text may hold one level of brackets, which themselves hold no "[", so a run of "[" fails fast
+const LINK = /\[((?:[^[\]]|\[[^[\]]*\])*)\]\(\s*<?([^()\s<>]*(?:\([^()\s]*\)[^()\s<>]*)*)>?(?:\s+"[^"]*")?\s*\)/y
+const AUTOLINK = /(?:https?:\/\/|mailto:)[^\s<>()]*[^\s<>().,;:!?'"*_]/iy
+
+const matchAt = (pattern: RegExp, text: string, index: number): RegExpExecArray | null => {
+  pattern.lastIndex = index
+  return pattern.exec(text)
+}
+
+// Index of the closing delimiter for an emphasis run, or -1
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let index = text.indexOf(delimiter, from)
+  while (index !== -1) {
+    const before = text[index - 1]
+    const after = text[index + delimiter.length]
+    // The closer must hug the text, and `_` must end a word so snake_case stays intact
+    if (before && !/\s/.test(before) && !(delimiter[0] === '_' && after && /\w/.test(after)) && index > from) return index
+    index = text.indexOf(delimiter, index + 1)
+  }
+  return -1
+}
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = []
+  let buffer = ''
+  const pushText = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+
+  // Delimiter -> position from which it is known to have no closer. A later opener can only
+  // see a subset of the same candidates, so unclosed runs ("*a *a *a ...") stay linear.
+  const unclosedFrom = new Map<string, number>()
+  const closerOf = (delimiter: string, from: number, find: () => number): number => {
+    if (from >= (unclosedFrom.get(delimiter) ?? Infinity)) return -1
+    const close = find()
+    if (close === -1) unclosedFrom.set(delimiter, from)
+    return close
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1]
+      i += 2
+      continue
+    }
+
+    if (char === '\n') {
+      pushText()
+      nodes.push({ type: 'break' })
+      i++
+      continue
+    }
+
+    if (char === '`') {
+      const ticks = matchAt(TICKS, text, i)![0]
+      const close = closerOf(ticks, i + ticks.length, () => text.indexOf(ticks, i + ticks.length))
+      if (close !== -1) {
+        pushText()
+        nodes.push({ type: 'code', text: text.slice(i + ticks.length, close).replace(/^ (.*) $/, '$1') })
+        i = close + ticks.length
+        continue
+      }
+      buffer += ticks
+      i += ticks.length
+      continue
+    }
+
+    if (char === '*' || char === '_') {
+      const double = text[i + 1] === char
+      const delimiter = double ? char + char : char
+      const opensWord = char === '*' || !/\w/.test(text[i - 1] || '')
+      const next = text[i + delimiter.length]
+      if (opensWord && next && !/\s/.test(next)) {
+        const close = closerOf(delimiter, i + delimiter.length, () => findClosing(text, delimiter, i + delimiter.length))
+        if (close !== -1) {
+          pushText()
+          const children = parseInline(text.slice(i + delimiter.length, close))
+          nodes.push(double ? { type: 'strong', children } : { type: 'emphasis', children })
+          i = close + delimiter.length
+          continue
+        }
+      }
+      buffer += delimiter
+      i += delimiter.length
+      continue
+    }
+
+    if (char === '[') {
+      const link = matchAt(LINK, text, i)
+      if (link) {
+        pushText()
+        const href = sanitizeUrl(link[2])
+        const children = parseInline(link[1])
+        // An unsafe target keeps the link text and loses the link
+        if (href) nodes.push({ type: 'link', href, children })
+        else nodes.push(...children)
+        i += link[0].length
+        continue
+      }
+      const citation = matchAt(CITATION, text, i)
+      if (citation) {
+        pushText()
+        nodes.push({ type: 'citation', numbers: citation[1].split(',').map(number => Number(number.trim())) })
+        i += citation[0].length
+        continue
+      }
+    }
+
+    if (/[hm]/i.test(char) && !/\w/.test(text[i - 1] || '')) {
+      const autolink = matchAt(AUTOLINK, text, i)
+      const href = autolink && sanitizeUrl(autolink[0])
+      if (autolink && href) {
+        pushText()
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: autolink[0] }] })
+        i += autolink[0].length
+        continue
+      }
+    }
+
+    buffer += char
+    i++
+  }
+  pushText()
+  return nodes
+}
@@ -0,0 +1,347 @@
+import type { KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import type { EntityLinker, EntityMention } from './entityLinker'
+import type { GraphPath, GraphStore } from './graphStore'
+import { normalizeLabel } from './graphStore'
+import { getEvidence } from './evidence'
+import { RESISTANCE_RELATIONS } from './graphSchema'
+import { matchesProteinChange, parseProteinChanges, ProteinChange } from './variantParser'
+
+/**
+ * Matches a pasted tumour profile ("NSCLC, EGFR L858R, TP53 R273H, PD-L1 TPS 60%")
+ * against the graph and ranks the drugs it supports. Each therapy keeps the chains
+ * that justify it (variant -> drug, biomarker -> disease <- drug, drug -> gene) and
+ * any resistance edges from the patient's own alterations.
+ */
+
+export type AlterationKind = 'mutation' | 'amplification' | 'expression' | 'fusion' | 'status'
+
+export interface ProfileAlteration {
+  // The profile fragment this alteration was read from
+  text: string
+  kind: AlterationKind
+  gene?: KnowledgeNode
+  change?: ProteinChange
+  // Measured level, e.g. 60 with unit '%' for "PD-L1 TPS 60%"
+  value?: number
+  unit?: string
+  // "wild-type", "negative", "0%": recorded but never used as support
+  negative: boolean
+  // Variant, biomarker, gene and protein nodes named in the fragment
+  nodes: KnowledgeNode[]
+}
+
+export interface PatientProfile {
+  text: string
+  disease?: KnowledgeNode
+  alterations: ProfileAlteration[]
+  // Fragments that name nothing the graph knows ("ER+", "TMB 12 mut/Mb")
+  unrecognized: string[]
+}
+
+// How directly an alteration points at a drug: its own variant node, a biomarker, or just the gene
+export type SupportLevel = 'variant' | 'biomarker' | 'gene'
+
+export interface MatchSupport {
+  alteration: ProfileAlteration
+  level: SupportLevel
+  path: GraphPath
+  // Evidence levels on the path's edges, e.g. "OncoKB 1"
+  evidenceLevels: string[]
+  // Share of the chain's score the measured level earns: 1, or less below an expression cut-off
+  strength: number
+}
+
+export interface MatchResistance {
+  alteration: ProfileAlteration
+  path: GraphPath
+}
+
+export interface TherapyMatch {
+  drug: KnowledgeNode
+  score: number
+  // Indicated for the profile's disease; undefined when the profile names none
+  onLabel?: boolean
+  support: MatchSupport[]
+  resistance: MatchResistance[]
+}
+
+export interface ProfileMatchResult {
+  profile: PatientProfile
+  // Best first; drugs with only resistance evidence come last with a negative score
+  matches: TherapyMatch[]
+  // Every node and edge on a chain, for the graph view
+  nodes: KnowledgeNode[]
+  relations: KnowledgeRelation[]
+}
+
+// Scoring model: each alteration adds the weight of its strongest chain to a drug, plus a bonus
+// for the best evidence level on that chain. Being indicated for the patient's disease adds
+// ON_LABEL_BONUS; every resistance edge from the patient's alterations subtracts RESISTANCE_PENALTY.
+export const SUPPORT_WEIGHTS: { [level in SupportLevel]: number } = { variant: 3, biomarker: 3, gene: 1 }
+export const ON_LABEL_BONUS = 2
+export const RESISTANCE_PENALTY = 4
+const EVIDENCE_LEVEL_BONUS: { [level: string]: number } = {
+  'OncoKB 1': 1, 'OncoKB 2': 0.75, 'OncoKB 3A': 0.5, 'OncoKB 3B': 0.25, 'OncoKB 4': 0.25,
+  'ESCAT I-A': 1, 'ESCAT I-B': 0.75, 'ESCAT I-C': 0.75, 'ESCAT II-A': 0.5, 'ESCAT II-B': 0.5, 'ESCAT III-A': 0.25, 'ESCAT III-B': 0.25
+}
+
+// Expression cut-offs by protein, in %: at or above `high` an expression counts in full, from
+// `positive` up to `high` at LOW_EXPRESSION_STRENGTH, and below `positive` not at all
+const EXPRESSION_CUTOFFS: { [label: string]: { positive: number, high: number } } = {
+  // Tumour proportion score: ≥50% for pembrolizumab alone, 1-49% with chemotherapy
+  'PD-L1': { positive: 1, high: 50 }
+}
+export const LOW_EXPRESSION_STRENGTH = 0.5
+
+// Biomarker label suffixes each kind of alteration can match, after the gene or protein name.
+// A bare "positive" could mean either amplification (HER2) or expression (PD-L1).
+const BIOMARKER_SUFFIXES: { [kind in AlterationKind]: string[] } = {
+  mutation: ['Mutation'],
+  amplification: ['Amplification'],
+  expression: ['Expression'],
+  fusion: ['Fusion', 'Rearrangement'],
+  status: ['Amplification', 'Expression']
+}
+
+// Edges a drug acts on its target through
+const DRUG_TARGET_RELATIONS = ['inhibits', 'blocks', 'neutralizes', 'targets', 'targets_gene']
+
+// Alteration kinds a gene-level edge's mechanism is about: "MET_amplification_bypass_signaling"
+// is MET amplification, not any MET alteration
+const MECHANISM_KINDS: Array<{ pattern: RegExp, kinds: AlterationKind[] }> = [
+  { pattern: /\b(?:amplif\w*|copy gain)\b/i, kinds: ['amplification', 'status'] },
+  { pattern: /\b(?:overexpress\w*|expression)\b/i, kinds: ['expression', 'amplification', 'status'] },
+  { pattern: /\b(?:fusion|rearrange\w*|translocation)\b/i, kinds: ['fusion'] },
+  { pattern: /\b(?:mutation|mutant|loss|deletion|truncat\w*)\b/i, kinds: ['mutation'] }
+]
+
+const SEGMENT_SEPARATOR = /[,;\n]+|\s+\+\s+/
+const NEGATIVE_FINDING = /\b(?:negative|neg|wild[- ]?type|wt|not detected|absent|unmutated|no)\b|[-−]\s*$|(?:^|\s)0(?:\.0+)?\s*%/i
+const MEASUREMENT = /(\d+(?:\.\d+)?)\s*(%|mut\/mb)/i
+
+const ALTERATION_KINDS: Array<{ kind: AlterationKind, pattern: RegExp }> = [
+  { kind: 'fusion', pattern: /\b(?:fusion|rearrange\w*|translocation)\b|::/i },
+  { kind: 'amplification', pattern: /\b(?:amplif\w*|amp|overexpress\w*|copy gain)\b|\b3\+/i },
+  { kind: 'expression', pattern: /\b(?:express\w*|tps|cps|ihc)\b|%/i },
+  { kind: 'mutation', pattern: /\b(?:mut\w*|variant|deletion|insertion|skipping|del|ins|germline|somatic|pathogenic)\b/i }
+]
+
+const ALTERATION_TYPES = ['variant', 'biomarker', 'gene', 'protein']
+
+const uniqueNodes = (nodes: KnowledgeNode[]): KnowledgeNode[] =>
+  Array.from(new Map(nodes.map(node => [node.id, node])).values())
+
+const alterationKind = (segment: string, change: ProteinChange | undefined, mentions: EntityMention[]): AlterationKind => {
+  if (change) return 'mutation'
+  const found = ALTERATION_KINDS.find(({ pattern }) => pattern.test(segment))
+  if (found) return found.kind
+  // "HER2 positive" and "MSI-H" are statuses; a bare variant or gene name ("METex14", "BRCA2") reads as a mutation
+  if (/\b(?:positive|pos|high|low)\b|\+\s*$/i.test(segment)) return 'status'
+  return mentions.some(mention => mention.node.type === 'variant' || mention.node.type === 'gene') ? 'mutation' : 'status'
+}
+
+// Read the disease and the alterations out of a comma-, semicolon- or line-separated profile
+export const parsePatientProfile = (text: string, linker: EntityLinker): PatientProfile => {
+  const profile: PatientProfile = { text, alterations: [], unrecognized: [] }
+
+  text.split(SEGMENT_SEPARATOR).map(segment => segment.trim()).filter(Boolean).forEach(segment => {
+    // Exact matches only: a fuzzy "KRAS G12D" -> "KRAS G12C" would change the treatment
+    const mentions = linker.link(segment, { allowOverlaps: true, fuzzy: false })
+    const disease = mentions.find(mention => mention.node.type === 'disease')
+    if (disease && !profile.disease) profile.disease = disease.node
+
+    const alterationMentions = mentions.filter(mention => ALTERATION_TYPES.includes(mention.node.type))
+    const changes = parseProteinChanges(segment)
+    if (alterationMentions.length === 0) {
+      if (!disease) profile.unrecognized.push(segment)
+      return
+    }
+
+    const measurement = segment.match(MEASUREMENT)
+    const negative = NEGATIVE_FINDING.test(segment)
+    const genes = alterationMentions.filter(mention => mention.node.type === 'gene')
+
+    // "EGFR L858R/T790M" holds two alterations; each keeps the mentions inside its own span
+    const spans: Array<ProteinChange | undefined> = changes.length > 0 ? changes : [undefined]
+    if (spans.length > 1) console.log(`🧾 Split ${segment} into ${spans.length} alterations`)
+    spans.forEach(change => {
+      const own = change && changes.length > 1
+        ? alterationMentions.filter(mention => mention.node.type === 'gene' || (mention.start < change.end && mention.end > change.start))
+        : alterationMentions
+      const gene = change
+        ? genes.filter(mention => mention.end <= change.start).sort((a, b) => b.end - a.end)[0] || genes[0]
+        : genes[0]
+      profile.alterations.push({
+        text: changes.length > 1 ? `${gene ? `${gene.node.label} ` : ''}${change!.notation}` : segment,
+        kind: alterationKind(segment, change, own),
+        gene: gene?.node,
+        change,
+        value: measurement ? Number(measurement[1]) : undefined,
+        unit: measurement ? measurement[2].toLowerCase() : undefined,
+        negative,
+        nodes: uniqueNodes(own.map(mention => mention.node))
+      })
+    })
+  })
+
+  return profile
+}
+
+const evidenceLevels = (relations: KnowledgeRelation[]): string[] =>
+  Array.from(new Set(relations.flatMap(relation => getEvidence(relation).map(entry => entry.level).filter((level): level is string => Boolean(level)))))
+
+const supportScore = (support: MatchSupport): number =>
+  (SUPPORT_WEIGHTS[support.level] + Math.max(0, ...support.evidenceLevels.map(level => EVIDENCE_LEVEL_BONUS[level] || 0))) * support.strength
+
+// 1 unless a measured expression falls below its protein's cut-offs; 0 means no support at all
+const expressionStrength = (alteration: ProfileAlteration, target: KnowledgeNode | undefined): number => {
+  const cutoffs = target && EXPRESSION_CUTOFFS[target.label]
+  if (!cutoffs || alteration.value === undefined || alteration.unit !== '%') return 1
+  if (alteration.value >= cutoffs.high) return 1
+  return alteration.value >= cutoffs.positive ? LOW_EXPRESSION_STRENGTH : 0
+}
+
+// Whether a gene-level edge applies to this alteration: a mechanism naming a protein change
+// or an alteration kind ("G12C_specific", "MET_amplification_...") limits it to those
+const edgeFitsAlteration = (relation: KnowledgeRelation, alteration: ProfileAlteration): boolean => {
+  const mechanism = String(relation.properties?.mechanism || '').replace(/_/g, ' ')
+  const specificTo = parseProteinChanges(mechanism)
+  if (specificTo.length > 0 && !specificTo.some(change => change.notation === alteration.change?.notation)) return false
+  const named = MECHANISM_KINDS.filter(({ pattern }) => pattern.test(mechanism))
+  return named.length === 0 || named.some(({ kinds }) => kinds.includes(alteration.kind))
+}
+
+// "KRAS_G12C" or "EGFR_mutant" on an indicated_for edge names the biomarker "KRAS G12C" or "EGFR Mutation"
+const contextMatchesBiomarker = (context: unknown, biomarker: KnowledgeNode): boolean => {
+  if (typeof context !== 'string') return false
+  return normalizeLabel(context.split('_')[0]) === normalizeLabel(biomarker.label.split(/\s+/)[0])
+}
+
+/**
+ * Ranks drugs for a parsed profile. Support is read from three kinds of chain, strongest first:
+ * variant -sensitive_to-> drug, biomarker -indicates-> disease <-indicated_for- drug (when the
+ * indication's context names the biomarker), and drug -inhibits-> altered gene.
+ */
+export const matchTherapies = (profile: PatientProfile, store: GraphStore): ProfileMatchResult => {
+  const matches = new Map<string, TherapyMatch>()
+  const matchFor = (drug: KnowledgeNode): TherapyMatch => {
+    let match = matches.get(drug.id)
+    if (!match) {
+      match = { drug, score: 0, support: [], resistance: [] }
+      matches.set(drug.id, match)
+    }
+    return match
+  }
+  // The drug's indication for the profile's disease, appended to variant and gene chains
+  const indication = (drug: KnowledgeNode): KnowledgeRelation | undefined =>
+    profile.disease && store.getOutgoing(drug.id, ['indicated_for']).find(relation => relation.target === profile.disease!.id)
+  const withIndication = (path: GraphPath, drug: KnowledgeNode): GraphPath => {
+    const relation = indication(drug)
+    return relation ? { nodes: [...path.nodes, profile.disease!], steps: [...path.steps, { relation, direction: 'out' }] } : path
+  }
+
+  profile.alterations.filter(alteration => !alteration.negative).forEach(alteration => {
+    const target = alteration.gene || alteration.nodes.find(node => node.type === 'protein')
+    const strength = expressionStrength(alteration, target)
+    const supports: MatchSupport[] = []
+    const addSupport = (level: SupportLevel, path: GraphPath) => {
+      if (strength > 0) supports.push({ alteration, level, path, evidenceLevels: evidenceLevels(path.steps.map(step => step.relation)), strength })
+    }
+
+    // Variant nodes: named in the fragment, or found from the gene and protein change
+    const variants = alteration.nodes.filter(node => node.type === 'variant')
+    if (alteration.change && alteration.gene) {
+      variants.push(...store.getNodesByType('variant').filter(node =>
+        node.properties?.gene === alteration.gene!.label && matchesProteinChange(node.properties, alteration.change!)))
+    }
+    // Drugs this alteration defeats get no support from it, only the resistance note.
+    // Gene-level edges count when they fit: "MET amplified" is the MET bypass that defeats osimertinib.
+    const resisted = new Set<string>()
+    uniqueNodes([...variants, ...(alteration.gene ? [alteration.gene] : [])]).forEach(source => {
+      store.getNeighbors(source.id, { direction: 'out', relations: RESISTANCE_RELATIONS, types: ['drug'] }).forEach(({ node: drug, relation }) => {
+        if (source.type === 'gene' && !edgeFitsAlteration(relation, alteration)) return
+        resisted.add(drug.id)
+        matchFor(drug).resistance.push({ alteration, path: { nodes: [source, drug], steps: [{ relation, direction: 'out' }] } })
+      })
+    })
+    uniqueNodes(variants).forEach(variant => {
+      store.getNeighbors(variant.id, { direction: 'out', relations: ['sensitive_to'], types: ['drug'] }).forEach(({ node: drug, relation }) => {
+        addSupport('variant', withIndication({ nodes: [variant, drug], steps: [{ relation, direction: 'out' }] }, drug))
+      })
+    })
+
+    // Biomarkers: named in the fragment ("HER2 amplified", "MSI-H"), or "<gene> Mutation" style labels
+    const biomarkers = alteration.nodes.filter(node => node.type === 'biomarker')
+    if (target) {
+      const names = [target.label, ...(target.properties?.aliases || [])]
+      // BRCA1 and BRCA2 share the "BRCA Mutation" biomarker
+      const family = target.label.replace(/\d+$/, '')
+      if (family !== target.label) names.push(family)
+      const suffixes = [...BIOMARKER_SUFFIXES[alteration.kind], ...(alteration.change ? [alteration.change.notation] : [])]
+      names.forEach(name => suffixes.forEach(suffix => {
+        biomarkers.push(...store.findByLabel(`${name} ${suffix}`, false).filter(node => node.type === 'biomarker'))
+      }))
+    }
+    uniqueNodes(biomarkers).forEach(biomarker => {
+      store.getNeighbors(biomarker.id, { direction: 'out', relations: ['indicates'], types: ['disease'] }).forEach(({ node: disease, relation: indicates }) => {
+        store.getNeighbors(disease.id, { direction: 'in', relations: ['indicated_for'], types: ['drug'] }).forEach(({ node: drug, relation: indicatedFor }) => {
+          if (!contextMatchesBiomarker(indicatedFor.properties?.context, biomarker)) return
+          addSupport('biomarker', {
+            nodes: [biomarker, disease, drug],
+            steps: [{ relation: indicates, direction: 'out' }, { relation: indicatedFor, direction: 'in' }]
+          })
+        })
+      })
+    })
+
+    // Gene level: drugs acting on the altered gene, unless the edge is specific to another variant
+    if (target) {
+      store.getNeighbors(target.id, { direction: 'in', relations: DRUG_TARGET_RELATIONS, types: ['drug'] }).forEach(({ node: drug, relation }) => {
+        if (!edgeFitsAlteration(relation, alteration)) return
+        addSupport('gene', withIndication({ nodes: [target, drug], steps: [{ relation, direction: 'in' }] }, drug))
+      })
+    }
+
+    // One chain per drug per alteration: the strongest, so "EGFR L858R" is not counted twice
+    const best = new Map<string, MatchSupport>()
+    supports.forEach(support => {
+      const drugId = support.path.nodes.find(node => node.type === 'drug')!.id
+      if (resisted.has(drugId)) return
+      const current = best.get(drugId)
+      if (!current || supportScore(support) > supportScore(current)) best.set(drugId, support)
+    })
+    best.forEach((support, drugId) => matchFor(store.getNode(drugId)!).support.push(support))
+  })
+
+  matches.forEach(match => {
+    if (profile.disease) match.onLabel = Boolean(indication(match.drug))
+    match.score = match.support.reduce((total, support) => total + supportScore(support), 0)
+      + (match.onLabel && match.support.length > 0 ? ON_LABEL_BONUS : 0)
+      - RESISTANCE_PENALTY * match.resistance.length
+  })
+
+  const ranked = store.sortByDataOrder(Array.from(matches.values()).map(match => match.drug))
+    .map(drug => matches.get(drug.id)!)
+    .sort((a, b) => b.score - a.score)
+
+  const nodes = new Map<string, KnowledgeNode>()
+  const relations = new Set<KnowledgeRelation>()
+  ranked.forEach(match => [...match.support, ...match.resistance].forEach(({ path }) => {
+    path.nodes.forEach(node => nodes.set(node.id, node))
+    path.steps.forEach(step => relations.add(step.relation))
+  }))
+  if (profile.disease && ranked.length > 0) nodes.set(profile.disease.id, profile.disease)
+
+  return { profile, matches: ranked, nodes: Array.from(nodes.values()), relations: Array.from(relations) }
+}
+
+// "EGFR L858R -[sensitive to]-> Osimertinib -[indicated for]-> Lung Cancer"
+export const formatMatchPath = (path: GraphPath): string => {
+  let chain = path.nodes[0]?.label || 'Unknown'
+  path.steps.forEach((step, index) => {
+    const relationLabel = step.relation.relation.replace(/_/g, ' ')
+    const nextLabel = path.nodes[index + 1]?.label || 'Unknown'
+    chain += step.direction === 'out' ? ` -[${relationLabel}]-> ${nextLabel}` : ` <-[${relationLabel}]- ${nextLabel}`
+  })
+  return chain
+}
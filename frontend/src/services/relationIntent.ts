@@ -0,0 +1,117 @@
+import type { EdgeDirection } from './graphStore'
+import type { EntityMention } from './entityLinker'
+import { ENTITY_TYPE_SCHEMAS } from './graphSchema'
+
+/**
+ * Reads a relation and its direction out of questions like "what inhibits KRAS",
+ * "drugs indicated for breast cancer" or "which pathways does KRAS participate in",
+ * so the answer follows only edges of that kind instead of every neighbour.
+ */
+
+export interface RelationCue {
+  // Verb phrase, matched against the lower-cased query
+  verb: RegExp
+  // Agent nouns ("inhibitors of X", "X blockers") always point at the entity named
+  agent?: RegExp
+  // Edge relations the phrase covers, in the graph's vocabulary
+  relations: string[]
+}
+
+export interface RelationIntent {
+  relations: string[]
+  // Edge direction relative to the anchor: 'in' when the anchor is the target
+  direction: Exclude<EdgeDirection, 'both'>
+  anchor: EntityMention
+  // Entity on the other side of the verb, for yes/no questions like "does osimertinib inhibit EGFR"
+  other?: EntityMention
+  // Entity types asked for ("drugs", "genes"); empty for any
+  wantedTypes: string[]
+  // Query text the relation was read from
+  phrase: string
+}
+
+// Ordered so multi-word phrases win over the bare verbs they contain
+export const RELATION_CUES: RelationCue[] = [
+  { verb: /\b(?:indicated|approved|used|prescribed)\s+(?:for|in)\b|\btreat(?:s|ed|ing)?\b/, agent: /\b(?:treatments?|therap(?:y|ies))\s+for\b/, relations: ['indicated_for'] },
+  { verb: /\b(?:participat\w*|involved)\s+in\b|\b(?:part|members?|components?)\s+of\b/, relations: ['participates_in'] },
+  { verb: /\b(?:associated|linked)\s+(?:with|to)\b/, relations: ['associated_with'] },
+  { verb: /\bindicat(?:e|es|ing)\b/, agent: /\bmarkers?\s+(?:for|of)\b/, relations: ['indicates'] },
+  { verb: /\bpredict(?:s|ed|ing)?\b/, agent: /\bpredictors?\s+of\b/, relations: ['predicts_response', 'indicates'] },
+  { verb: /\bmonitor(?:s|ed|ing)?\b/, relations: ['monitors'] },
+  { verb: /\bneutrali[sz](?:e|es|ed|ing)\b/, relations: ['neutralizes'] },
+  { verb: /\bblock(?:s|ed|ing)?\b/, agent: /\bblockers?\b/, relations: ['blocks', 'inhibits'] },
+  { verb: /\b(?:inhibit(?:s|ed|ing)?|suppress(?:es|ed|ing)?)\b/, agent: /\binhibitors?\b/, relations: ['inhibits', 'blocks', 'neutralizes'] },
+  { verb: /\b(?:activat(?:e|es|ed|ing)|stimulat(?:e|es|ed|ing))\b/, agent: /\bactivators?\b/, relations: ['activates'] },
+  { verb: /\bregulat(?:e|es|ed|ing)\b/, agent: /\bregulators?\b/, relations: ['regulates', 'activates', 'inhibits'] },
+  { verb: /\bdriv(?:e|es|en|ing)\b/, agent: /\bdrivers?\b/, relations: ['drives'] },
+  { verb: /\btarget(?:s|ed|ing)?\b/, relations: ['targets', 'targets_gene', 'inhibits', 'blocks', 'neutralizes'] }
+]
+
+// "inhibited by X", "treated with X": the entity after the verb is its subject
+const PASSIVE_AFTER_VERB = /^\s+(?:\w+\s+)?(?:by|with)\b/
+
+const findWantedTypes = (query: string, mentions: EntityMention[]): string[] => {
+  const types: string[] = []
+  Object.entries(ENTITY_TYPE_SCHEMAS).forEach(([type, schema]) => {
+    const pattern = new RegExp(`\\b(?:${[type, ...schema.nouns].join('|')})\\b`, 'g')
+    for (const match of query.matchAll(pattern)) {
+      // "Lung Cancer" is an entity, not a request for diseases
+      const inMention = mentions.some(mention => match.index! >= mention.start && match.index! < mention.end)
+      if (!inMention && !types.includes(type)) types.push(type)
+    }
+  })
+  return types
+}
+
+/**
+ * Find the first relation cue in the query and the entities around it. Entities
+ * before an active verb are its subject ("what does osimertinib inhibit"), entities
+ * after it its object ("what inhibits KRAS"); a following "by"/"with" flips that.
+ * Returns null when there is no cue or no entity to anchor it to.
+ */
+export const detectRelationIntent = (query: string, mentions: EntityMention[]): RelationIntent | null => {
+  const text = query.toLowerCase()
+  const overlapsMention = (start: number, end: number) => mentions.some(mention => start < mention.end && end > mention.start)
+
+  for (const cue of RELATION_CUES) {
+    const candidates = [
+      ...(cue.agent ? Array.from(text.matchAll(new RegExp(cue.agent.source, 'g'))) : []).map(match => ({ match, agent: true })),
+      ...Array.from(text.matchAll(new RegExp(cue.verb.source, 'g'))).map(match => ({ match, agent: false }))
+    ].filter(({ match }) => !overlapsMention(match.index!, match.index! + match[0].length))
+    if (candidates.length === 0) continue
+
+    const { match, agent } = candidates.sort((a, b) => a.match.index! - b.match.index!)[0]
+    const start = match.index!
+    const end = start + match[0].length
+    const before = mentions.filter(mention => mention.end <= start).sort((a, b) => b.end - a.end)[0]
+    const after = mentions.filter(mention => mention.start >= end).sort((a, b) => a.start - b.start)[0]
+    if (!before && !after) continue
+
+    const passive = PASSIVE_AFTER_VERB.test(text.slice(end))
+    const wantedTypes = findWantedTypes(text, mentions)
+    const phrase = query.slice(start, end)
+
+    // Inhibitors of KRAS, KRAS inhibitors: KRAS is the target either way
+    if (agent) {
+      return { relations: cue.relations, direction: 'in', anchor: after || before, wantedTypes, phrase }
+    }
+    // Both sides named: the edge runs from subject to object
+    if (before && after) {
+      const [subject, object] = passive ? [after, before] : [before, after]
+      return { relations: cue.relations, direction: 'out', anchor: subject, other: object, wantedTypes, phrase }
+    }
+    if (after) {
+      return { relations: cue.relations, direction: passive ? 'out' : 'in', anchor: after, wantedTypes, phrase }
+    }
+    return { relations: cue.relations, direction: passive ? 'in' : 'out', anchor: before, wantedTypes, phrase }
+  }
+  return null
+}
+
+// One-line reading of the intent for logs and the LLM context, e.g. "drug -[inhibits|blocks]-> KRAS"
+export const describeRelationIntent = (intent: RelationIntent): string => {
+  const anchor = intent.anchor.node.label
+  const other = intent.other?.node.label || (intent.wantedTypes.length > 0 ? intent.wantedTypes.join('/') : 'anything')
+  const relations = intent.relations.join('|')
+  return intent.direction === 'in' ? `${other} -[${relations}]-> ${anchor}` : `${anchor} -[${relations}]-> ${other}`
+}
@@ -0,0 +1,139 @@
+import type { KnowledgeNode, KnowledgeRelation } from './knowledgeGraphService'
+import type { EntityMention } from './entityLinker'
+import type { GraphPath, GraphStore } from './graphStore'
+import { RESISTANCE_RELATIONS } from './graphSchema'
+
+/**
+ * Resistance questions about a drug: "why does osimertinib stop working" lists what
+ * defeats it (variant, gene or pathway -confers_resistance_to/resistant_to-> drug), and
+ * "what to use after resistance to crizotinib" adds drugs that act on those causes.
+ */
+
+export type ResistanceQueryMode = 'mechanisms' | 'after'
+
+export interface ResistanceQuery {
+  drug: KnowledgeNode
+  mode: ResistanceQueryMode
+}
+
+export interface ResistanceCause {
+  // Variant, gene or pathway change that defeats the drug
+  node: KnowledgeNode
+  relation: KnowledgeRelation
+}
+
+export interface ResistanceAlternative {
+  drug: KnowledgeNode
+  // The cause this drug works against
+  cause: KnowledgeNode
+  // variant -sensitive_to-> drug, or cause <-inhibits- drug
+  path: GraphPath
+}
+
+export interface ResistanceAnalysis {
+  drug: KnowledgeNode
+  mode: ResistanceQueryMode
+  causes: ResistanceCause[]
+  alternatives: ResistanceAlternative[]
+  nodes: KnowledgeNode[]
+  relations: KnowledgeRelation[]
+}
+
+// Edges a drug works against a gene or pathway through
+const COUNTER_RELATIONS = ['inhibits', 'blocks', 'neutralizes', 'targets', 'targets_gene']
+
+// Progression, failure and relapse only count with a treatment context ("progressed on",
+// "after failure of"): on their own they also appear in "progression-free survival" or "heart failure"
+const RESISTANCE_CUE = new RegExp([
+  /\bresist\w*/,
+  /\bstop(?:s|ped)?\s+(?:working|responding)/,
+  /\bno longer (?:works?|responds?)/,
+  /\bprogress(?:ed|es|ing|ion)?\s+(?:on|after|despite|through|while on)\b/,
+  /\bfail(?:ed|s|ing)?\s+(?:on|with)\b/,
+  /\bfailure\s+(?:of|on)\b/,
+  /\brelaps(?:ed|es|ing|e)?\s+(?:on|after|following|while on)\b/,
+  /\bescape\w*/
+].map(pattern => pattern.source).join('|'))
+// Right after the drug's name: "osimertinib fails", "after osimertinib failure"
+const DRUG_FAILURE_CUE = /^\s+(?:(?:has|have|had)\s+)?fail(?:s|ed|ure)\b/
+const AFTER_CUE = /\b(?:after|following|post|beyond|next|then|instead|alternatives?|switch\w*|second[- ]line|options?)\b/
+
+export const isResistanceRelation = (relation: KnowledgeRelation): boolean => RESISTANCE_RELATIONS.includes(relation.relation)
+
+// A drug named alongside a resistance cue; "after", "next" or "instead" ask for options too
+export const detectResistanceQuery = (query: string, mentions: EntityMention[]): ResistanceQuery | null => {
+  const mention = mentions.find(candidate => candidate.node.type === 'drug')
+  if (!mention) return null
+  if (!RESISTANCE_CUE.test(query) && !DRUG_FAILURE_CUE.test(query.slice(mention.end))) return null
+  return { drug: mention.node, mode: AFTER_CUE.test(query) ? 'after' : 'mechanisms' }
+}
+
+// "MET amplification bypass signaling; acquired; ~15% of acquired resistance"
+export const describeResistance = (relation: KnowledgeRelation): string => {
+  const { mechanism, context, frequency } = relation.properties || {}
+  return [mechanism, context, frequency]
+    .filter((value): value is string => typeof value === 'string' && value.length > 0)
+    .map(value => value.replace(/_/g, ' '))
+    .join('; ')
+}
+
+export const analyzeResistance = ({ drug, mode }: ResistanceQuery, store: GraphStore): ResistanceAnalysis => {
+  const causes = store.getNeighbors(drug.id, { direction: 'in', relations: RESISTANCE_RELATIONS })
+    .map(({ node, relation }) => ({ node, relation }))
+
+  const alternatives: ResistanceAlternative[] = []
+  causes.forEach(({ node: cause }) => {
+    // A drug the same change also defeats is no way out
+    const defeated = new Set(store.getNeighbors(cause.id, { direction: 'out', relations: RESISTANCE_RELATIONS }).map(({ node }) => node.id))
+    const options = cause.type === 'variant'
+      ? store.getNeighbors(cause.id, { direction: 'out', relations: ['sensitive_to'], types: ['drug'] })
+      : store.getNeighbors(cause.id, { direction: 'in', relations: COUNTER_RELATIONS, types: ['drug'] })
+    options.forEach(({ node: option, relation, direction }) => {
+      if (option.id === drug.id || defeated.has(option.id)) return
+      if (alternatives.some(alternative => alternative.drug.id === option.id && alternative.cause.id === cause.id)) return
+      alternatives.push({ drug: option, cause, path: { nodes: [cause, option], steps: [{ relation, direction }] } })
+    })
+  })
+
+  const nodes = new Map<string, KnowledgeNode>([[drug.id, drug]])
+  const relations = new Set<KnowledgeRelation>()
+  causes.forEach(({ node, relation }) => {
+    nodes.set(node.id, node)
+    relations.add(relation)
+  })
+  if (mode === 'after') {
+    alternatives.forEach(({ path }) => {
+      path.nodes.forEach(node => nodes.set(node.id, node))
+      path.steps.forEach(step => relations.add(step.relation))
+    })
+  }
+
+  return {
+    drug,
+    mode,
+    causes,
+    alternatives,
+    nodes: Array.from(nodes.values()),
+    relations: Array.from(relations)
+  }
+}
+
+// Plain-text summary for the LLM context
+export const formatResistanceAnalysis = (analysis: ResistanceAnalysis): string => {
+  const lines = ['RESISTANCE ANALYSIS:']
+  if (analysis.causes.length === 0) {
+    lines.push(`- No resistance mechanisms for ${analysis.drug.label} are recorded in the knowledge graph`)
+  }
+  analysis.causes.forEach(({ node, relation }) => {
+    const details = describeResistance(relation)
+    lines.push(`- ${node.label} (${node.type})${details ? `: ${details}` : ''}`)
+  })
+  if (analysis.mode === 'after') {
+    lines.push(analysis.alternatives.length > 0
+      ? `- Options after ${analysis.drug.label} resistance: ${analysis.alternatives.map(({ drug, cause, path }) =>
+        `${drug.label} (${path.steps[0].relation.relation.replace(/_/g, ' ')} ${cause.label})`).join(', ')}`
+      : `- The knowledge graph has no drug acting on these resistance mechanisms`)
+    lines.push('Each option only addresses the mechanism named next to it; the choice depends on which mechanism the re-biopsy shows.')
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,62 @@
+// Greek letters spelled out the way gene and protein names use them (TNF-α -> TNF-alpha)
+const GREEK_LETTERS: { [key: string]: string } = {
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ε': 'epsilon', 'ζ': 'zeta',
+  'η': 'eta', 'θ': 'theta', 'ι': 'iota', 'κ': 'kappa', 'λ': 'lambda', 'μ': 'mu',
+  'ν': 'nu', 'ξ': 'xi', 'π': 'pi', 'ρ': 'rho', 'σ': 'sigma', 'ς': 'sigma',
+  'τ': 'tau', 'υ': 'upsilon', 'φ': 'phi', 'χ': 'chi', 'ψ': 'psi', 'ω': 'omega'
+}
+
+/**
+ * Lowercase, spell out Greek letters, strip accents and turn every run of
+ * punctuation into a single space: "PD-L1", "pd l1" and "PD L1" all become "pd l1".
+ */
+export const normalizeTerm = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[\u03b1-\u03c9]/g, letter => GREEK_LETTERS[letter] || letter)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+// Normalized term with spaces removed, so hyphenation differences vanish ("HER-2" == "HER2")
+export const compactTerm = (text: string): string => {
+  return normalizeTerm(text).replace(/ /g, '')
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions).
+ * Stops early and returns maxDistance + 1 once the distance is known to exceed it.
+ */
+export const editDistance = (a: string, b: string, maxDistance: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+  if (a === b) return 0
+
+  let previousPrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    previousPrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for identical strings, falling towards 0 as edits approach the longer length
+export const similarity = (a: string, b: string, distance: number = editDistance(a, b)): number => {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - distance / longest
+}
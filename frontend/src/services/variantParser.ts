@@ -0,0 +1,95 @@
+import type { VariantProperties } from './graphSchema'
+
+/**
+ * Finds protein-level variant descriptions in free text: one-letter substitutions
+ * (G12C, V600E, p.L858R), HGVS three-letter forms (p.Thr790Met, p.(Gly12Cys)) and
+ * exon-level alterations ("exon 19 deletion", "ex20ins", "MET exon 14 skipping").
+ */
+
+export type VariantKind = 'substitution' | 'deletion' | 'insertion' | 'skipping'
+
+export interface ProteinChange {
+  // Text as it appears in the query, with character offsets (end exclusive)
+  text: string
+  start: number
+  end: number
+  kind: VariantKind
+  // One-letter reference and alternate residues and the codon, for substitutions
+  ref?: string
+  position?: number
+  alt?: string
+  exon?: number
+  // Canonical short form: "T790M", "exon 19 deletion"
+  notation: string
+  // HGVS protein notation for substitutions, e.g. "p.Thr790Met"
+  hgvs?: string
+}
+
+const THREE_LETTER: { [code: string]: string } = {
+  Ala: 'A', Arg: 'R', Asn: 'N', Asp: 'D', Cys: 'C', Gln: 'Q', Glu: 'E', Gly: 'G', His: 'H', Ile: 'I',
+  Leu: 'L', Lys: 'K', Met: 'M', Phe: 'F', Pro: 'P', Ser: 'S', Thr: 'T', Trp: 'W', Tyr: 'Y', Val: 'V',
+  Ter: '*'
+}
+
+const ONE_LETTER: { [code: string]: string } = Object.fromEntries(
+  Object.entries(THREE_LETTER).map(([three, one]) => [one, three])
+)
+
+const RESIDUES = 'ACDEFGHIKLMNPQRSTVWY'
+const THREE_LETTER_CODES = Object.keys(THREE_LETTER).join('|')
+
+// Codons need two or more digits so symbols like "E2F" are not read as variants
+const ONE_LETTER_CHANGE = new RegExp(`(?<![A-Za-z0-9])(?:p\\.)?\\(?([${RESIDUES}])(\\d{2,4})([${RESIDUES}*X])\\)?(?![A-Za-z0-9])`, 'g')
+const THREE_LETTER_CHANGE = new RegExp(`\\bp\\.\\(?(${THREE_LETTER_CODES})(\\d{1,4})(${THREE_LETTER_CODES}|\\*)\\)?`, 'gi')
+const EXON_CHANGE = /\b(?:exon\s*|ex)(\d{1,2})\s*(del(?:etions?)?|ins(?:ertions?)?|skipping)\b/gi
+
+const EXON_KINDS: { [prefix: string]: VariantKind } = { del: 'deletion', ins: 'insertion', ski: 'skipping' }
+
+const capitalize = (code: string): string => code.charAt(0).toUpperCase() + code.slice(1).toLowerCase()
+
+export const toHgvs = (ref: string, position: number, alt: string): string =>
+  `p.${ONE_LETTER[ref] || ref}${position}${alt === 'X' ? 'Ter' : ONE_LETTER[alt] || alt}`
+
+const substitution = (text: string, start: number, ref: string, position: number, alt: string): ProteinChange => {
+  const normalizedAlt = alt === 'X' ? '*' : alt
+  return {
+    text,
+    start,
+    end: start + text.length,
+    kind: 'substitution',
+    ref,
+    position,
+    alt: normalizedAlt,
+    notation: `${ref}${position}${normalizedAlt}`,
+    hgvs: toHgvs(ref, position, normalizedAlt)
+  }
+}
+
+// Whether variant node properties describe the change: the same residue change, or the same exon and kind
+export const matchesProteinChange = (properties: VariantProperties, change: ProteinChange): boolean => {
+  if (change.kind === 'substitution') return properties.protein_change === change.notation
+  return properties.exon === change.exon && properties.variant_type === change.kind
+}
+
+export const parseProteinChanges = (text: string): ProteinChange[] => {
+  const changes: ProteinChange[] = []
+
+  for (const match of text.matchAll(THREE_LETTER_CHANGE)) {
+    const ref = THREE_LETTER[capitalize(match[1])]
+    const alt = match[3] === '*' ? '*' : THREE_LETTER[capitalize(match[3])]
+    changes.push(substitution(match[0], match.index!, ref, Number(match[2]), alt))
+  }
+  for (const match of text.matchAll(ONE_LETTER_CHANGE)) {
+    changes.push(substitution(match[0], match.index!, match[1], Number(match[2]), match[3]))
+  }
+  for (const match of text.matchAll(EXON_CHANGE)) {
+    const kind = EXON_KINDS[match[2].slice(0, 3).toLowerCase()]
+    const exon = Number(match[1])
+    changes.push({ text: match[0], start: match.index!, end: match.index! + match[0].length, kind, exon, notation: `exon ${exon} ${kind}` })
+  }
+
+  // Reading order, dropping matches nested in an earlier one
+  return changes
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((change, i, sorted) => !sorted.slice(0, i).some(other => change.start < other.end))
+}
@@ -0,0 +1,80 @@
+/**
+ * Minimal XML reader for the graph importers (GraphML, BioPAX RDF/XML).
+ * Works in the browser and in node scripts alike, which DOMParser does not.
+ * Handles elements, attributes, text, CDATA and the predefined/numeric entities;
+ * comments, processing instructions and the DOCTYPE are skipped. No validation
+ * and no namespace resolution: names keep their prefix and `localName` strips it.
+ */
+
+export interface XmlElement {
+  // Qualified name as written, e.g. `bp:Protein`
+  name: string
+  localName: string
+  attributes: { [name: string]: string }
+  children: XmlElement[]
+  text: string
+}
+
+const ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    return ENTITIES[entity] ?? match
+  })
+
+const localNameOf = (name: string): string => name.slice(name.indexOf(':') + 1)
+
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', localName: '#document', attributes: {}, children: [], text: '' }
+  const stack: XmlElement[] = [root]
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let position = 0
+  let match: RegExpExecArray | null
+
+  while ((match = tagPattern.exec(source)) !== null) {
+    const current = stack[stack.length - 1]
+    current.text += decodeEntities(source.slice(position, match.index))
+    position = tagPattern.lastIndex
+
+    const [, cdata, , closing, opening, attributeText, selfClosing] = match
+    if (cdata !== undefined) {
+      current.text += cdata
+    } else if (closing) {
+      if (current.name !== closing) {
+        throw new Error(`Malformed XML: expected </${current.name}> but found </${closing}>`)
+      }
+      stack.pop()
+    } else if (opening) {
+      const attributes: { [name: string]: string } = {}
+      let attribute: RegExpExecArray | null
+      attributePattern.lastIndex = 0
+      while ((attribute = attributePattern.exec(attributeText)) !== null) {
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3])
+      }
+      const element: XmlElement = { name: opening, localName: localNameOf(opening), attributes, children: [], text: '' }
+      current.children.push(element)
+      if (!selfClosing) stack.push(element)
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`)
+  if (root.children.length === 0) throw new Error('Not an XML document')
+  return root.children[0]
+}
+
+// Attribute by local name, ignoring the namespace prefix (`rdf:ID` matches `ID`)
+export const xmlAttribute = (element: XmlElement, localName: string): string | undefined => {
+  const key = Object.keys(element.attributes).find(name => localNameOf(name) === localName)
+  return key === undefined ? undefined : element.attributes[key]
+}
+
+export const xmlChildren = (element: XmlElement, localName: string): XmlElement[] =>
+  element.children.filter(child => child.localName === localName)
+
+export const xmlChildText = (element: XmlElement, localName: string): string | undefined => {
+  const child = element.children.find(c => c.localName === localName)
+  return child ? child.text.trim() : undefined
+}
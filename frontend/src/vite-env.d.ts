@@ -1,7 +1,11 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_OPENAI_API_KEY: string
+  readonly VITE_LLM_PROVIDER?: 'proxy' | 'mock'
+  readonly VITE_LLM_BASE_URL?: string
+  readonly VITE_LLM_MAX_TOKENS?: string
+  readonly VITE_LLM_TEMPERATURE?: string
+  readonly VITE_LLM_MOCK_DELAY_MS?: string
   // more env variables...
 }
 
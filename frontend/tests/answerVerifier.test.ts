@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { verifyAnswer } from '../src/services/answerVerifier'
+import { graph, linker, store } from './fixtures'
+
+const relationClaims = (answer: string) =>
+  verifyAnswer(answer, graph.nodes, linker, store).claims.filter(claim => claim.kind === 'relation')
+
+const statusOf = (answer: string) => relationClaims(answer).map(claim => `${claim.source!.id} -> ${claim.target!.id}: ${claim.status}`)
+
+describe('verifyAnswer relation claims', () => {
+  it('contradicts efficacy claims against a variant that resists the drug', () => {
+    assert.deepEqual(statusOf('Osimertinib works against EGFR C797S.'), ['drug:Osimertinib -> variant:EGFR C797S: contradicted'])
+    assert.deepEqual(statusOf('Osimertinib is active against EGFR C797S.'), ['drug:Osimertinib -> variant:EGFR C797S: contradicted'])
+    assert.equal(verifyAnswer('Osimertinib works against EGFR C797S.', graph.nodes, linker, store).score! < 1, true)
+  })
+
+  it('contradicts targeting claims with the resistance edge instead of calling them not in graph', () => {
+    assert.deepEqual(statusOf('Osimertinib targets EGFR C797S.'), ['drug:Osimertinib -> variant:EGFR C797S: contradicted'])
+  })
+
+  it('supports efficacy and targeting claims backed by a sensitivity edge', () => {
+    assert.deepEqual(statusOf('Osimertinib works against EGFR T790M.'), ['drug:Osimertinib -> variant:EGFR T790M: supported'])
+    assert.deepEqual(statusOf('Osimertinib targets EGFR T790M.'), ['drug:Osimertinib -> variant:EGFR T790M: supported'])
+    assert.deepEqual(statusOf('Osimertinib does not work against EGFR C797S.'), ['drug:Osimertinib -> variant:EGFR C797S: supported'])
+  })
+
+  it('still checks sensitivity claims against resistance edges', () => {
+    assert.deepEqual(statusOf('EGFR C797S is sensitive to osimertinib.'), ['variant:EGFR C797S -> drug:Osimertinib: contradicted'])
+    assert.deepEqual(statusOf('EGFR C797S is resistant to osimertinib.'), ['variant:EGFR C797S -> drug:Osimertinib: supported'])
+  })
+})
+
+describe('verifyAnswer sentence splitting', () => {
+  it('keeps protein changes, decimals and citations inside one sentence', () => {
+    assert.deepEqual(statusOf('EGFR p.Thr790Met is sensitive to osimertinib.'), ['variant:EGFR T790M -> drug:Osimertinib: supported'])
+    assert.deepEqual(statusOf('In FLAURA, median PFS was 18.9 months and EGFR T790M is sensitive to osimertinib.'),
+      ['variant:EGFR T790M -> drug:Osimertinib: supported'])
+    assert.deepEqual(statusOf('As Soria et al. reported, osimertinib works against EGFR T790M.'),
+      ['drug:Osimertinib -> variant:EGFR T790M: supported'])
+  })
+
+  it('does not carry a claim across sentences', () => {
+    assert.deepEqual(statusOf('Osimertinib is a third-generation TKI. EGFR C797S emerges later.'), [])
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { knowledgeGraphService } from '../src/services/knowledgeGraphService'
+import { ConversationMemory, estimateTokens } from '../src/services/conversationMemory'
+import { store } from './fixtures'
+
+// Memory links entities through the service, as the chat in App does
+const memoryFor = () => new ConversationMemory(knowledgeGraphService)
+const node = (id: string) => store.getNode(id)!
+
+describe('ConversationMemory.resolve', () => {
+  it('leaves the first question alone', () => {
+    const memory = memoryFor()
+    assert.deepEqual(memory.resolve('What does it target?'), { query: 'What does it target?', focus: [], substitutions: [] })
+  })
+
+  it('replaces pronouns with the entity in focus', () => {
+    const memory = memoryFor()
+    memory.recordTurn('What does osimertinib target?', 'What does osimertinib target?', 'EGFR.', [node('gene:EGFR')])
+    assert.deepEqual(memory.getFocus().map(focus => focus.id), ['drug:Osimertinib'])
+
+    const resolved = memory.resolve('What is it indicated for?')
+    assert.equal(resolved.query, 'What is Osimertinib indicated for?')
+    assert.deepEqual(resolved.substitutions, [{ phrase: 'it', replacement: 'Osimertinib' }])
+  })
+
+  it('resolves "this gene" from the last answer set', () => {
+    const memory = memoryFor()
+    memory.recordTurn('What does osimertinib target?', 'What does osimertinib target?', 'EGFR.', [node('gene:EGFR')])
+    assert.equal(memory.resolve('Which pathways involve this gene?').query, 'Which pathways involve EGFR?')
+  })
+
+  it('carries the focus into ellipsis and ignores questions with their own entities', () => {
+    const memory = memoryFor()
+    memory.recordTurn('What does osimertinib target?', 'What does osimertinib target?', 'EGFR.', [node('gene:EGFR')])
+    assert.deepEqual(memory.resolve('And the pathways?').focus.map(focus => focus.id), ['drug:Osimertinib'])
+    assert.deepEqual(memory.resolve('What does it say about KRAS?'), { query: 'What does it say about KRAS?', focus: [], substitutions: [] })
+  })
+})
+
+describe('ConversationMemory.getHistory', () => {
+  it('keeps whole exchanges, newest first, within the token budget', () => {
+    const memory = memoryFor()
+    const answer = 'x'.repeat(40)
+    memory.recordTurn('first', 'first', answer, [])
+    memory.recordTurn('second', 'second', answer, [])
+    assert.equal(estimateTokens(answer), 10)
+
+    assert.deepEqual(memory.getHistory().map(turn => turn.content), ['first', answer, 'second', answer])
+    assert.deepEqual(memory.getHistory(14).map(turn => `${turn.role}: ${turn.content.slice(0, 6)}`), ['user: second', 'assistant: xxxxxx'])
+    assert.deepEqual(memory.getHistory(5), [])
+  })
+
+  it('forgets everything on clear', () => {
+    const memory = memoryFor()
+    memory.recordTurn('What does osimertinib target?', 'What does osimertinib target?', 'EGFR.', [node('gene:EGFR')])
+    memory.clear()
+    assert.deepEqual(memory.getHistory(), [])
+    assert.deepEqual(memory.getFocus(), [])
+    assert.equal(memory.resolve('What is it?').query, 'What is it?')
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { knowledgeGraphService } from '../src/services/knowledgeGraphService'
+import { analyzeCombination } from '../src/services/drugCombination'
+import { store } from './fixtures'
+
+const combinationOf = (question: string) => knowledgeGraphService.queryKnowledgeGraph(question).combination
+
+describe('combination questions', () => {
+  it('analyse two drugs named with a combination cue', () => {
+    [
+      'Can osimertinib be combined with sotorasib?',
+      'Olaparib plus bevacizumab',
+      'Osimertinib in combination with bevacizumab',
+      'osimertinib + sotorasib'
+    ].forEach(question => assert.ok(combinationOf(question), question))
+    assert.deepEqual(combinationOf('Olaparib plus bevacizumab')!.drugs.map(reach => reach.drug.label), ['Olaparib', 'Bevacizumab'])
+  })
+
+  it('leave comparisons and questions about one drug alone', () => {
+    [
+      'Compare osimertinib with sotorasib',
+      'Osimertinib versus crizotinib in lung cancer',
+      'Is osimertinib better than sotorasib?',
+      'Osimertinib combined with chemotherapy'
+    ].forEach(question => assert.equal(combinationOf(question), undefined, question))
+  })
+})
+
+describe('analyzeCombination', () => {
+  it('flags drugs on the same target as redundant', () => {
+    const analysis = analyzeCombination([store.getNode('drug:Crizotinib')!, store.getNode('drug:Lorlatinib')!], store)
+    assert.deepEqual(analysis.redundantTargets.map(shared => shared.node.id), ['gene:ALK'])
+  })
+
+  it('separates shared from complementary pathways', () => {
+    const analysis = analyzeCombination([store.getNode('drug:Osimertinib')!, store.getNode('drug:Sotorasib')!], store)
+    assert.deepEqual(analysis.redundantTargets, [])
+    // Sotorasib's KRAS sits in RAS-MAPK, which osimertinib's EGFR also feeds
+    assert.deepEqual(analysis.sharedPathways.map(shared => shared.node.label), ['RAS-MAPK Pathway'])
+    assert.deepEqual(analysis.complementaryPathways.map(shared => `${shared.drugs[0].label}: ${shared.node.label}`),
+      ['Osimertinib: EGFR Signaling', 'Osimertinib: PI3K-AKT-mTOR Pathway'])
+    assert.deepEqual(analysis.sharedIndications.map(shared => shared.node.id), ['disease:Lung Cancer'])
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { linker } from './fixtures'
+
+const linkedIds = (text: string): string[] => linker.linkNodes(text).map(node => node.id)
+
+describe('EntityLinker', () => {
+  it('links labels, aliases and synonyms with their spans', () => {
+    const [mention] = linker.link('Is Tagrisso approved?')
+    assert.equal(mention.node.id, 'drug:Osimertinib')
+    assert.equal(mention.matchedBy, 'synonym')
+    assert.equal(mention.text, 'Tagrisso')
+    assert.deepEqual([mention.start, mention.end], [3, 11])
+    assert.deepEqual(linkedIds('EGFR and KRAS in lung cancer'), ['gene:EGFR', 'gene:KRAS', 'disease:Lung Cancer'])
+  })
+
+  it('matches whole tokens only', () => {
+    assert.ok(!linkedIds('metastatic pancreatic disease').includes('gene:MET'))
+  })
+
+  it('still corrects misspelled names, with lowered confidence', () => {
+    const [mention] = linker.link('dose of osimertinb')
+    assert.equal(mention.node.id, 'drug:Osimertinib')
+    assert.equal(mention.distance, 1)
+    assert.ok(mention.confidence < 0.9)
+  })
+
+  it('does not fuzzy-match numbered symbols onto other entities', () => {
+    // "CDK4/6" compacts to "cdk46", one edit from ALK's synonym "CD246"
+    const ids = linkedIds('CDK4/6 inhibitors in HR+ breast cancer')
+    assert.ok(!ids.includes('gene:ALK'), ids.join(', '))
+    assert.ok(ids.includes('disease:Breast Cancer'))
+    assert.ok(!linkedIds('BRCA3 carriers').includes('gene:BRCA1'))
+  })
+
+  it('matches short all-caps symbols only as written', () => {
+    assert.ok(linkedIds('MET amplification after osimertinib').includes('gene:MET'))
+    assert.ok(!linkedIds('patients who met the criteria for EGFR testing').includes('gene:MET'))
+    assert.ok(!linkedIds('the trial met its endpoint').includes('gene:MET'))
+    assert.deepEqual(linker.link('we met'), [])
+  })
+
+  it('filters by type and can turn fuzzy matching off', () => {
+    assert.deepEqual(linker.linkNodes('EGFR and osimertinib', { types: ['drug'] }).map(node => node.id), ['drug:Osimertinib'])
+    assert.deepEqual(linker.link('osimertinb', { fuzzy: false }), [])
+  })
+})
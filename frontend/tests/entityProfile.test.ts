@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildEntityProfile, formatPropertyKey, getRelationGroups } from '../src/services/entityProfile'
+import { store } from './fixtures'
+
+describe('formatPropertyKey', () => {
+  it('turns snake_case keys into labels and keeps acronyms upper case', () => {
+    assert.equal(formatPropertyKey('fda_approval'), 'FDA approval')
+    assert.equal(formatPropertyKey('5_year_survival'), '5 year survival')
+    assert.equal(formatPropertyKey('EGFR_mutations'), 'EGFR mutations')
+  })
+})
+
+describe('getRelationGroups', () => {
+  it('groups by relation, outgoing first', () => {
+    assert.deepEqual(getRelationGroups('gene:EGFR', store).map(group => `${group.direction} ${group.relation} ${group.neighbors.length}`),
+      ['out participates_in 1', 'in inhibits 1', 'in variant_of 5'])
+  })
+})
+
+describe('buildEntityProfile', () => {
+  it('lays out a gene by its type and lifts aliases out of the fields', () => {
+    const profile = buildEntityProfile(store.getNode('gene:EGFR')!, store)
+    assert.deepEqual(profile.headline.map(field => field.key), ['full_name', 'chromosome'])
+    assert.deepEqual(profile.sections.map(section => section.title), ['Function'])
+    assert.deepEqual(profile.aliases, ['ERBB1', 'HER1'])
+    assert.equal(profile.relations.length, 3)
+  })
+
+  it('falls back to the default layout for variants', () => {
+    const profile = buildEntityProfile(store.getNode('variant:EGFR L858R')!, store)
+    assert.deepEqual(profile.headline.map(field => field.key), ['gene', 'protein_change', 'hgvs_p', 'variant_type', 'exon'])
+  })
+
+  it('shows properties the layout does not place, and skips empty ones', () => {
+    const node = {
+      id: 'drug:Testinib',
+      label: 'Testinib',
+      type: 'drug',
+      color: '#ff0000',
+      properties: { drug_class: 'TKI', fda_approval: '2020', adverse_effects: [], aliases: ['TST-1'], evidence: [{ source: 'FDA label' }] }
+    }
+    const profile = buildEntityProfile(node, store)
+    assert.deepEqual(profile.headline.map(field => field.label), ['Drug class'])
+    assert.deepEqual(profile.sections, [{ title: 'Other properties', fields: [{ key: 'fda_approval', label: 'FDA approval', value: '2020' }] }])
+    assert.deepEqual(profile.aliases, ['TST-1'])
+    assert.deepEqual(profile.relations, [])
+  })
+})
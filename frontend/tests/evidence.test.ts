@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CitationIndex, describeEvidenceLevel, evidenceUrl, formatCitation, getEvidence } from '../src/services/evidence'
+import { store } from './fixtures'
+
+const [resistance] = getEvidence(store.getOutgoing('variant:EGFR C797S', ['resistant_to'])[0])
+const [keynote] = getEvidence(store.getOutgoing('drug:Pembrolizumab', ['indicated_for'])[0])
+
+describe('getEvidence', () => {
+  it('reads evidence from graph edges', () => {
+    assert.equal(resistance.pmid, '25939061')
+    assert.equal(resistance.level, 'OncoKB R2')
+    assert.equal(keynote.level, 'ESCAT I-A')
+  })
+
+  it('skips missing and malformed entries', () => {
+    assert.deepEqual(getEvidence(undefined), [])
+    assert.deepEqual(getEvidence({ properties: { evidence: 'PMID 1' } }), [])
+    assert.deepEqual(getEvidence({ properties: { evidence: [null, { pmid: '1' }, { source: 'FDA label' }] } }), [{ source: 'FDA label' }])
+  })
+})
+
+describe('evidence formatting', () => {
+  it('links PubMed before the DOI resolver', () => {
+    assert.equal(evidenceUrl(resistance), 'https://pubmed.ncbi.nlm.nih.gov/25939061/')
+    assert.equal(evidenceUrl({ source: 'Journal', doi: '10.1000/x' }), 'https://doi.org/10.1000/x')
+    assert.equal(evidenceUrl({ source: 'Curator note' }), undefined)
+  })
+
+  it('describes scale-qualified levels and passes unknown ones through', () => {
+    assert.match(describeEvidenceLevel('OncoKB R2'), /resistance/)
+    assert.equal(describeEvidenceLevel('Tier 9'), 'Tier 9')
+  })
+
+  it('formats one-line citations', () => {
+    assert.equal(formatCitation(resistance), 'Thress et al. Nat Med 2015 — OncoKB, 2015-06, OncoKB R2, PMID 25939061')
+    assert.equal(formatCitation({ source: 'Journal', doi: '10.1000/x' }), 'Journal, doi:10.1000/x')
+  })
+})
+
+describe('CitationIndex', () => {
+  it('gives each source one number however often it is cited', () => {
+    const index = new CitationIndex()
+    assert.equal(index.cite([resistance]), ' [1]')
+    assert.equal(index.cite([keynote, { ...resistance, title: 'Same paper' }]), ' [2][1]')
+    assert.equal(index.cite([]), '')
+    assert.equal(index.size, 2)
+    assert.deepEqual(index.format().split('\n').map(line => line.slice(0, 4)), ['[1] ', '[2] '])
+    assert.match(index.format(), /^\[2\] KEYNOTE-024/m)
+  })
+
+  it('matches DOIs regardless of case', () => {
+    const index = new CitationIndex()
+    index.cite([{ source: 'A', doi: '10.1000/ABC' }, { source: 'B', doi: '10.1000/abc' }])
+    assert.equal(index.size, 1)
+  })
+})
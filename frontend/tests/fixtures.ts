@@ -0,0 +1,10 @@
+import knowledgeGraphData from '../src/knowledge_graph_final.json'
+import entitySynonyms from '../src/entity_synonyms.json'
+import { EntityLinker, SynonymTable } from '../src/services/entityLinker'
+import { GraphStore } from '../src/services/graphStore'
+import type { KnowledgeGraph } from '../src/services/knowledgeGraphService'
+
+// The bundled core graph, indexed once and shared by the test files
+export const graph = knowledgeGraphData as KnowledgeGraph
+export const store = new GraphStore(graph)
+export const linker = new EntityLinker(graph.nodes, entitySynonyms.synonyms as SynonymTable)
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mergeKnowledgeGraphs } from '../src/services/graphMerge'
+import type { KnowledgeGraph } from '../src/services/knowledgeGraphService'
+
+const core: KnowledgeGraph = {
+  meta: { description: 'Core', last_updated: '2024-01-01' },
+  nodes: [
+    { id: 'gene:ERBB2', label: 'ERBB2', type: 'gene', color: '#00ff00', properties: { aliases: ['HER2'] } },
+    { id: 'drug:Trastuzumab', label: 'Trastuzumab', type: 'drug', color: '#ff0000', properties: {} }
+  ],
+  edges: [{ source: 'drug:Trastuzumab', target: 'gene:ERBB2', relation: 'inhibits', properties: { mechanism: 'antibody_binding' } }]
+}
+
+const imported: KnowledgeGraph = {
+  meta: { description: 'Imported', last_updated: '2024-06-01' },
+  nodes: [
+    { id: 'gene:HER2', label: 'HER2', type: 'gene', color: '#00ff00', properties: { chromosome: '17q12' } },
+    { id: 'drug:Trastuzumab', label: 'Trastuzumab', type: 'drug', color: '#ff0000', properties: {} }
+  ],
+  edges: [{ source: 'drug:Trastuzumab', target: 'gene:HER2', relation: 'inhibits', properties: { mechanism: 'HER2_blockade' } }]
+}
+
+describe('mergeKnowledgeGraphs', () => {
+  const { graph, report } = mergeKnowledgeGraphs([{ name: 'core', graph: core }, { name: 'imported', graph: imported }])
+
+  it('joins nodes by alias under the higher-priority id', () => {
+    assert.deepEqual(graph.nodes.map(node => node.id), ['gene:ERBB2', 'drug:Trastuzumab'])
+    const erbb2 = graph.nodes[0]
+    assert.equal(erbb2.properties?.chromosome, '17q12')
+    assert.deepEqual(erbb2.provenance, [{ source: 'core', id: 'gene:ERBB2' }, { source: 'imported', id: 'gene:HER2' }])
+    assert.deepEqual(report.matchedNodes.find(match => match.id === 'gene:ERBB2')?.matches.map(match => match.matchedBy), ['id', 'alias'])
+  })
+
+  it('rewrites edges to merged ids but records the ids each source used', () => {
+    assert.equal(graph.edges.length, 1)
+    assert.equal(report.duplicateEdges, 1)
+    const [edge] = graph.edges
+    assert.equal(edge.target, 'gene:ERBB2')
+    assert.deepEqual(edge.provenance, [
+      { source: 'core', id: 'drug:Trastuzumab|inhibits|gene:ERBB2' },
+      { source: 'imported', id: 'drug:Trastuzumab|inhibits|gene:HER2' }
+    ])
+  })
+
+  it('reports conflicting edge properties', () => {
+    const conflict = report.conflicts.find(item => item.kind === 'edge' && item.field === 'properties.mechanism')
+    assert.equal(conflict?.resolvedFrom, 'core')
+    assert.equal(graph.edges[0].properties?.mechanism, 'antibody_binding')
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { DEFAULT_QUERY_LIMIT, formatQueryResult, GraphQueryError, MAX_QUERY_LIMIT, parseGraphQuery, runGraphQuery } from '../src/services/graphQuery'
+import { store } from './fixtures'
+
+// Each match as "label, label" in column order
+const rows = (text: string): string[] => {
+  const result = runGraphQuery(text, store)
+  return result.matches.map(match => result.columns.map(variable => match.bindings[variable].label).join(', '))
+}
+
+const errorAt = (text: string): GraphQueryError => {
+  try {
+    runGraphQuery(text, store)
+  } catch (error) {
+    if (error instanceof GraphQueryError) return error
+    throw error
+  }
+  assert.fail(`"${text}" ran without an error`)
+}
+
+describe('parseGraphQuery', () => {
+  it('parses a path with typed, named and anonymous nodes', () => {
+    const query = parseGraphQuery('MATCH drug -[inhibits|blocks]-> (g:gene) <-[]- () RETURN g LIMIT 5')
+    assert.deepEqual(query.patterns, [{
+      nodes: [
+        { variable: 'drug', type: 'drug', anonymous: false },
+        { variable: 'g', type: 'gene', anonymous: false },
+        { variable: '_1', type: undefined, anonymous: true }
+      ],
+      edges: [
+        { relations: ['inhibits', 'blocks'], direction: 'out' },
+        { relations: [], direction: 'in' }
+      ]
+    }])
+    assert.deepEqual(query.returns, ['g'])
+    assert.equal(query.limit, 5)
+  })
+
+  it('gives AND precedence over OR and reads NOT, IN and STARTS WITH', () => {
+    const { where } = parseGraphQuery('MATCH gene WHERE gene.label = "EGFR" OR NOT gene.name IN ["KRAS", "ALK"] AND gene.id STARTS WITH "gene:B"')
+    assert.deepEqual(where, {
+      kind: 'or',
+      left: { kind: 'compare', variable: 'gene', field: 'label', operator: '=', value: 'EGFR' },
+      right: {
+        kind: 'and',
+        left: { kind: 'not', operand: { kind: 'compare', variable: 'gene', field: 'name', operator: 'in', value: ['KRAS', 'ALK'] } },
+        right: { kind: 'compare', variable: 'gene', field: 'id', operator: 'starts with', value: 'gene:B' }
+      }
+    })
+  })
+
+  it('defaults LIMIT and caps it at the maximum', () => {
+    assert.equal(parseGraphQuery('MATCH gene').limit, DEFAULT_QUERY_LIMIT)
+    assert.equal(parseGraphQuery('MATCH gene LIMIT 9000').limit, MAX_QUERY_LIMIT)
+  })
+
+  it('points syntax errors at the offending token', () => {
+    const unfinished = 'MATCH drug -[inhibits]-> gene WHERE gene.label ='
+    assert.equal(errorAt(unfinished).position, unfinished.length)
+    const bothWays = 'MATCH drug <-[inhibits]-> gene'
+    assert.equal(errorAt(bothWays).position, bothWays.indexOf('gene'))
+    assert.match(errorAt('MATCH gene LIMIT 0').message, /positive whole number/)
+    assert.match(errorAt('MATCH gene RETURN where').message, /keyword/)
+  })
+})
+
+describe('executeGraphQuery', () => {
+  it('runs the documented example', () => {
+    assert.deepEqual(rows('MATCH drug -[inhibits]-> gene -[participates_in]-> pathway WHERE pathway.label CONTAINS "RAS-MAPK"'),
+      ['Sotorasib, KRAS, RAS-MAPK Pathway'])
+    // = compares the whole label
+    assert.deepEqual(rows('MATCH drug -[inhibits]-> gene -[participates_in]-> pathway WHERE pathway.label = "RAS-MAPK"'), [])
+    assert.deepEqual(rows('MATCH drug -[inhibits]-> gene -[participates_in]-> pathway WHERE pathway.label = "ras-mapk pathway"'),
+      ['Sotorasib, KRAS, RAS-MAPK Pathway'])
+  })
+
+  it('follows incoming and undirected edges', () => {
+    assert.deepEqual(rows('MATCH (g:gene) <-[inhibits]- (d:drug) WHERE g.label = "EGFR"'), ['EGFR, Osimertinib'])
+    assert.deepEqual(rows('MATCH (g:gene) -[inhibits]- (d:drug) WHERE g.label = "EGFR"'), ['EGFR, Osimertinib'])
+    assert.deepEqual(rows('MATCH (g:gene) -[inhibits]-> (d:drug)'), [])
+  })
+
+  it('shows a row per match of anonymous-only patterns', () => {
+    const result = runGraphQuery('MATCH () -[]- () LIMIT 3', store)
+    assert.deepEqual(result.columns, ['_1', '_2'])
+    assert.equal(result.matches.length, 3)
+    assert.equal(new Set(result.matches.map(match => `${match.bindings._1.id}|${match.bindings._2.id}`)).size, 3)
+  })
+
+  it('does not walk back along the edge it came in on', () => {
+    assert.deepEqual(rows('MATCH (p:pathway) -[]- (g:gene) -[]- (q:pathway) WHERE g.label = "EGFR"'), [])
+    const result = runGraphQuery('MATCH (a) -[]- (b) -[]- (c) LIMIT 500', store)
+    result.matches.forEach(match => assert.notEqual(match.edges[0], match.edges[1]))
+  })
+
+  it('suggests names for unknown types, relations and variables', () => {
+    assert.match(errorAt('MATCH drugs').message, /Did you mean "drug"\?/)
+    assert.match(errorAt('MATCH drug -[inhibit]-> gene').message, /Did you mean "inhibits"\?/)
+    assert.match(errorAt('MATCH drug RETURN drg').message, /Did you mean "drug"\?/)
+  })
+})
+
+describe('formatQueryResult', () => {
+  it('says why a result stopped short', () => {
+    assert.match(formatQueryResult(runGraphQuery('MATCH (d:drug) -[inhibits]-> (g:gene) LIMIT 2', store)),
+      /^\*\*2 matches\*\* \(stopped at the limit of 2; raise LIMIT, up to 500, for more\)/)
+    assert.match(formatQueryResult(runGraphQuery('MATCH (a) -[]- (b) -[]- (c) -[]- (d) -[]- (e) -[]- (f) LIMIT 500', store)),
+      /^\*\*500 matches\*\* \(stopped at the maximum of 500 rows; add WHERE conditions/)
+    // Conditions on two variables are checked last, so this explores every 19-edge path and finds none
+    const chain = Array.from({ length: 20 }, (_, i) => `(n${i})`).join(' -[]- ')
+    const broad = runGraphQuery(`MATCH ${chain} WHERE n0.label = "x" OR n19.label = "y"`, store)
+    assert.equal(broad.truncated, 'budget')
+    assert.match(formatQueryResult(broad), /^No matches \(the search stopped early/)
+  })
+
+  it('adds nothing when every match is shown', () => {
+    const result = runGraphQuery('MATCH (g:gene) <-[inhibits]- (d:drug) WHERE g.label = "EGFR"', store)
+    assert.equal(result.truncated, false)
+    assert.match(formatQueryResult(result), /^\*\*1 match\*\*\n/)
+  })
+})
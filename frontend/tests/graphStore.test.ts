@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { GraphStore, normalizeLabel } from '../src/services/graphStore'
+import type { KnowledgeGraph } from '../src/services/knowledgeGraphService'
+
+const graph: KnowledgeGraph = {
+  meta: { description: 'Store fixture', last_updated: '2024-01-01' },
+  nodes: [
+    { id: 'drug:Osimertinib', label: 'Osimertinib', type: 'drug', color: '#ff0000', properties: { aliases: ['Tagrisso'] } },
+    { id: 'gene:EGFR', label: 'EGFR', type: 'gene', color: '#00ff00', properties: { aliases: ['HER1'] } },
+    { id: 'gene:CD274', label: 'PD-L1', type: 'gene', color: '#00ff00', properties: {} },
+    { id: 'pathway:EGFR Signaling', label: 'EGFR Signaling', type: 'pathway', color: '#0000ff', properties: {} },
+    { id: 'disease:Lung Cancer', label: 'Lung Cancer', type: 'disease', color: '#ffff00', properties: {} }
+  ],
+  edges: [
+    { source: 'drug:Osimertinib', target: 'gene:EGFR', relation: 'inhibits' },
+    { source: 'gene:EGFR', target: 'pathway:EGFR Signaling', relation: 'participates_in' },
+    { source: 'drug:Osimertinib', target: 'disease:Lung Cancer', relation: 'indicated_for' },
+    { source: 'pathway:EGFR Signaling', target: 'disease:Lung Cancer', relation: 'implicated_in' },
+    { source: 'gene:CD274', target: 'disease:Lung Cancer', relation: 'biomarker_for' }
+  ]
+}
+
+const store = new GraphStore(graph)
+const ids = (nodes: Array<{ id: string }>) => nodes.map(node => node.id)
+
+describe('GraphStore adjacency', () => {
+  it('indexes nodes by id and type', () => {
+    assert.equal(store.nodeCount, 5)
+    assert.equal(store.edgeCount, 5)
+    assert.equal(store.getNode('gene:EGFR')?.label, 'EGFR')
+    assert.equal(store.hasNode('gene:KRAS'), false)
+    assert.deepEqual(ids(store.getNodesByType('gene')), ['gene:EGFR', 'gene:CD274'])
+    assert.deepEqual(store.getNodesByType('protein'), [])
+  })
+
+  it('splits edges by direction and relation, in file order', () => {
+    assert.deepEqual(store.getOutgoing('drug:Osimertinib').map(edge => edge.target), ['gene:EGFR', 'disease:Lung Cancer'])
+    assert.deepEqual(store.getOutgoing('drug:Osimertinib', ['indicated_for']).map(edge => edge.target), ['disease:Lung Cancer'])
+    assert.deepEqual(store.getIncoming('disease:Lung Cancer').map(edge => edge.source), ['drug:Osimertinib', 'pathway:EGFR Signaling', 'gene:CD274'])
+    assert.equal(store.getDegree('gene:EGFR'), 2)
+    assert.deepEqual(store.getIncidentEdges(['gene:EGFR', 'drug:Osimertinib']).map(edge => edge.relation), ['inhibits', 'participates_in', 'indicated_for'])
+  })
+
+  it('filters neighbours by direction, relation and type', () => {
+    const neighbors = store.getNeighbors('gene:EGFR')
+    assert.deepEqual(neighbors.map(neighbor => [neighbor.node.id, neighbor.direction]), [['drug:Osimertinib', 'in'], ['pathway:EGFR Signaling', 'out']])
+    assert.deepEqual(ids(store.getNeighbors('gene:EGFR', { direction: 'out' }).map(neighbor => neighbor.node)), ['pathway:EGFR Signaling'])
+    assert.deepEqual(ids(store.getNeighbors('disease:Lung Cancer', { types: ['gene', 'pathway'] }).map(neighbor => neighbor.node)), ['pathway:EGFR Signaling', 'gene:CD274'])
+    assert.deepEqual(store.getNeighbors('disease:Lung Cancer', { relations: ['inhibits'] }), [])
+  })
+})
+
+describe('GraphStore label index', () => {
+  it('matches labels and aliases after normalization', () => {
+    assert.equal(normalizeLabel('PD-L1'), normalizeLabel('pd l1'))
+    assert.deepEqual(ids(store.findByLabel('pd l1')), ['gene:CD274'])
+    assert.deepEqual(ids(store.findByLabel('tagrisso')), ['drug:Osimertinib'])
+    assert.deepEqual(store.findByLabel('tagrisso', false), [])
+  })
+
+  it('finds whole-phrase mentions in free text', () => {
+    assert.deepEqual(ids(store.findMentionedNodes('Does Tagrisso block EGFR signaling in lung cancer?')),
+      ['drug:Osimertinib', 'gene:EGFR', 'pathway:EGFR Signaling', 'disease:Lung Cancer'])
+    const [alias] = store.findMentions('tagrisso dose')
+    assert.deepEqual([alias.node.id, alias.start, alias.end, alias.viaAlias], ['drug:Osimertinib', 0, 1, true])
+    assert.deepEqual(store.findMentionedNodes('EGFRs and lungs'), [])
+  })
+})
+
+describe('GraphStore.findPaths', () => {
+  it('returns the shortest paths first, walking edges either way', () => {
+    const paths = store.findPaths('gene:EGFR', 'disease:Lung Cancer')
+    assert.deepEqual(paths.map(path => ids(path.nodes)), [
+      ['gene:EGFR', 'drug:Osimertinib', 'disease:Lung Cancer'],
+      ['gene:EGFR', 'pathway:EGFR Signaling', 'disease:Lung Cancer']
+    ])
+    assert.deepEqual(paths[0].steps.map(step => step.direction), ['in', 'out'])
+  })
+
+  it('honours directed search, relation filters, hop limits and k', () => {
+    assert.deepEqual(store.findPaths('gene:EGFR', 'disease:Lung Cancer', { directed: true }).map(path => ids(path.nodes)),
+      [['gene:EGFR', 'pathway:EGFR Signaling', 'disease:Lung Cancer']])
+    assert.deepEqual(store.findPaths('gene:EGFR', 'disease:Lung Cancer', { relationFilter: ['inhibits', 'indicated_for'] }).length, 1)
+    assert.deepEqual(store.findPaths('gene:EGFR', 'gene:CD274', { maxHops: 1 }), [])
+    assert.equal(store.findPaths('gene:EGFR', 'gene:CD274', { k: 1 }).length, 1)
+    assert.deepEqual(store.findPaths('gene:EGFR', 'gene:EGFR'), [])
+  })
+})
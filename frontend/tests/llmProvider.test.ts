@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { knowledgeGraphService } from '../src/services/knowledgeGraphService'
+import { buildSystemPrompt } from '../src/services/chatPrompt'
+import { createLLMProvider, LLMMessage, MockLLMProvider, readLLMConfig } from '../src/services/llmProvider'
+
+// The messages App.tsx and the server build for a question
+const buildMessages = (question: string): LLMMessage[] => {
+  const { nodes, relations, context, paths } = knowledgeGraphService.queryKnowledgeGraph(question)
+  const knowledgeContext = knowledgeGraphService.formatKnowledgeForAI(nodes, relations, context, paths)
+  return [
+    { role: 'system', content: buildSystemPrompt(knowledgeContext) },
+    { role: 'user', content: question }
+  ]
+}
+
+const collect = async (stream: AsyncIterable<string>): Promise<string[]> => {
+  const chunks: string[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+describe('MockLLMProvider', () => {
+  it('is what LLM_PROVIDER=mock creates', () => {
+    const provider = createLLMProvider(readLLMConfig({ LLM_PROVIDER: 'mock' }, ''))
+    assert.ok(provider instanceof MockLLMProvider)
+    assert.equal(provider.model, 'mock-oncograph')
+    assert.doesNotThrow(() => provider.validate())
+  })
+
+  it('streams a graph-grounded answer to a query', async () => {
+    const provider = new MockLLMProvider()
+    const messages = buildMessages('Which drugs target EGFR?')
+    const chunks = await collect(provider.stream({ messages }))
+
+    assert.ok(chunks.length > 10)
+    chunks.forEach(chunk => assert.match(chunk, /^\s*\S+$/))
+    const answer = chunks.join('')
+    assert.match(answer, /^\*\*Overview:\*\* Mock answer to "Which drugs target EGFR\?" built from 2 knowledge graph entities\./)
+    assert.match(answer, /\*\*Key Details:\*\*\n• \*\*/)
+    assert.match(answer, /\*\*Osimertinib\*\* \(drug\)/)
+    assert.match(answer, /\*\*EGFR\*\* \(gene\)/)
+    assert.match(answer, /\*\*Relationships:\*\*/)
+
+    // Same messages, same answer, whether streamed or collected
+    assert.equal(await provider.complete({ messages }), answer)
+  })
+
+  it('declines when the graph has nothing on the question', async () => {
+    const answer = await new MockLLMProvider().complete({ messages: buildMessages('What is the weather in Paris?') })
+    assert.equal(answer, "I'm sorry, I can only answer questions related to the provided knowledge base")
+  })
+
+  it('stops streaming when the request is aborted', async () => {
+    const controller = new AbortController()
+    const chunks: string[] = []
+    await assert.rejects(async () => {
+      for await (const chunk of new MockLLMProvider().stream({ messages: buildMessages('What is EGFR?'), signal: controller.signal })) {
+        chunks.push(chunk)
+        controller.abort()
+      }
+    }, { name: 'AbortError' })
+    assert.equal(chunks.length, 1)
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import Markdown from '../src/components/Markdown'
+import { BlockNode, parseInline, parseMarkdown, sanitizeUrl } from '../src/services/markdown'
+import { formatQueryError, formatQueryResult, GraphQueryError, QUERY_HELP, runGraphQuery } from '../src/services/graphQuery'
+import { store } from './fixtures'
+
+const render = (text: string): string => renderToStaticMarkup(createElement(Markdown, { text }))
+
+// Every opening tag in the output, e.g. ['div', 'p', 'strong']
+const tagsOf = (html: string): string[] => Array.from(html.matchAll(/<([a-z0-9]+)[\s>/]/gi), match => match[1].toLowerCase())
+
+const ALLOWED_TAGS = ['div', 'p', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'strong', 'em', 'code', 'pre', 'a', 'sup', 'br', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'blockquote', 'hr']
+
+const assertSafe = (html: string) => {
+  tagsOf(html).forEach(tag => assert.ok(ALLOWED_TAGS.includes(tag), `unexpected <${tag}> in ${html}`))
+  // Escaped text can say anything; only real tags (a literal "<") carry attributes
+  const tags = html.match(/<[^>]*>/g) || []
+  tags.forEach(tag => {
+    assert.doesNotMatch(tag, /\son[a-z]+\s*=/i, `event handler attribute in ${tag}`)
+    assert.doesNotMatch(tag, /href="(?!https?:|mailto:)/i, `link to an unsafe scheme in ${tag}`)
+  })
+}
+
+describe('parseMarkdown', () => {
+  it('parses headings, paragraphs and line breaks', () => {
+    const blocks = parseMarkdown('## Overview\n**Osimertinib** inhibits EGFR.\nSecond line')
+    assert.equal(blocks.length, 2)
+    assert.deepEqual(blocks[0], { type: 'heading', level: 2, children: [{ type: 'text', text: 'Overview' }] })
+    assert.deepEqual(blocks[1], {
+      type: 'paragraph',
+      children: [
+        { type: 'strong', children: [{ type: 'text', text: 'Osimertinib' }] },
+        { type: 'text', text: ' inhibits EGFR.' },
+        { type: 'break' },
+        { type: 'text', text: 'Second line' }
+      ]
+    })
+  })
+
+  it('parses "•" bullets, nested lists and numbered lists with their start', () => {
+    const [bullets, numbers] = parseMarkdown('• EGFR\n  - L858R\n  - T790M\n• KRAS\n\n3. first\n4. second') as Extract<BlockNode, { type: 'list' }>[]
+    assert.equal(bullets.ordered, false)
+    assert.equal(bullets.items.length, 2)
+    assert.equal(bullets.items[0].children[1].type, 'list')
+    assert.equal(numbers.ordered, true)
+    assert.equal(numbers.start, 3)
+    assert.equal(numbers.items.length, 2)
+  })
+
+  it('parses tables with alignment and escaped pipes', () => {
+    const [table] = parseMarkdown('| Drug | Level |\n|:---|---:|\n| Osimertinib | 1 |\n| a \\| b |') as Extract<BlockNode, { type: 'table' }>[]
+    assert.equal(table.type, 'table')
+    assert.deepEqual(table.alignments, ['left', 'right'])
+    assert.equal(table.rows.length, 2)
+    assert.deepEqual(table.rows[1][0], [{ type: 'text', text: 'a | b' }])
+    // Short rows are padded to the header width
+    assert.deepEqual(table.rows[1][1], [])
+  })
+
+  it('keeps fenced code verbatim, even unclosed', () => {
+    assert.deepEqual(parseMarkdown('```ts\nconst a = **b**\n```'), [{ type: 'code', language: 'ts', text: 'const a = **b**' }])
+    assert.deepEqual(parseMarkdown('```\npartial'), [{ type: 'code', language: '', text: 'partial' }])
+  })
+
+  it('parses inline code, links, citations and leaves snake_case alone', () => {
+    assert.deepEqual(parseInline('see `a*b*` [PubMed](https://pubmed.ncbi.nlm.nih.gov/1) [1, 3] resistance_mutations'), [
+      { type: 'text', text: 'see ' },
+      { type: 'code', text: 'a*b*' },
+      { type: 'text', text: ' ' },
+      { type: 'link', href: 'https://pubmed.ncbi.nlm.nih.gov/1', children: [{ type: 'text', text: 'PubMed' }] },
+      { type: 'text', text: ' ' },
+      { type: 'citation', numbers: [1, 3] },
+      { type: 'text', text: ' resistance_mutations' }
+    ])
+  })
+})
+
+describe('parseInline performance', () => {
+  it('stays linear on unclosed delimiters and runs of brackets', () => {
+    ['['.repeat(50000), '*a '.repeat(20000), '_a '.repeat(20000), '[a '.repeat(20000), '`a ``'.repeat(10000)].forEach(text => {
+      const start = performance.now()
+      parseInline(text)
+      // The quadratic scanner took seconds on these; linear parsing takes tens of milliseconds
+      assert.ok(performance.now() - start < 1000, `${text.slice(0, 6)}... took ${Math.round(performance.now() - start)} ms`)
+    })
+  })
+})
+
+describe('sanitizeUrl', () => {
+  it('allows http, https and mailto', () => {
+    assert.equal(sanitizeUrl('https://doi.org/10.1056/NEJMoa1713137'), 'https://doi.org/10.1056/NEJMoa1713137')
+    assert.equal(sanitizeUrl('HTTP://example.com'), 'HTTP://example.com')
+    assert.equal(sanitizeUrl('mailto:team@example.com'), 'mailto:team@example.com')
+  })
+
+  it('rejects script, data and relative URLs, however they are disguised', () => {
+    [
+      'javascript:alert(1)',
+      'JaVaScRiPt:alert(1)',
+      ' javascript:alert(1)',
+      'java\tscript:alert(1)',
+      'java\nscript:alert(1)',
+      '\u0000javascript:alert(1)',
+      'java\u007fscript:alert(1)',
+      '\u0085javascript:alert(1)',
+      'vbscript:msgbox(1)',
+      'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+      'javascript&#58;alert(1)',
+      '//evil.example.com',
+      '/relative/path'
+    ].forEach(url => assert.equal(sanitizeUrl(url), null, url))
+  })
+})
+
+describe('Markdown rendering', () => {
+  it('renders the structure as elements', () => {
+    const html = render('# Title\n- **bold** and *em*\n\n| A | B |\n|---|---|\n| 1 | 2 |\n\n> quote\n\n---\n\n`code` [2]')
+    assert.deepEqual(tagsOf(html), ['div', 'h3', 'ul', 'li', 'p', 'strong', 'em', 'div', 'table', 'thead', 'tr', 'th', 'th', 'tbody', 'tr', 'td', 'td', 'blockquote', 'p', 'hr', 'p', 'code', 'sup'])
+    assertSafe(html)
+  })
+
+  it('renders raw HTML as text', () => {
+    const payloads = [
+      '<script>alert(1)</script>',
+      '<img src=x onerror=alert(1)>',
+      '<svg/onload=alert(1)>',
+      '<iframe src="javascript:alert(1)"></iframe>',
+      '<a href="javascript:alert(1)">click</a>',
+      '**<b onmouseover=alert(1)>bold</b>**',
+      '| <script>alert(1)</script> |\n|---|\n| <img src=x onerror=alert(1)> |',
+      '```\n</code></pre><script>alert(1)</script>\n```',
+      '`</code><script>alert(1)</script>`'
+    ]
+    payloads.forEach(payload => {
+      const html = render(payload)
+      assertSafe(html)
+      assert.doesNotMatch(html, /<script|<img|<svg|<iframe|<b\s/i, payload)
+    })
+    assert.match(render('<script>alert(1)</script>'), /&lt;script&gt;alert\(1\)&lt;\/script&gt;/)
+  })
+
+  it('drops links with unsafe targets but keeps their text', () => {
+    [
+      '[click](javascript:alert(1))',
+      '[click](JAVASCRIPT:alert(1))',
+      '[click](data:text/html,<script>alert(1)</script>)',
+      '[click](vbscript:msgbox(1))',
+      '[click](<javascript:alert(1)>)'
+    ].forEach(payload => {
+      const html = render(payload)
+      assertSafe(html)
+      assert.doesNotMatch(html, /<a\s/, payload)
+      assert.match(html, /click/)
+    })
+  })
+
+  it('keeps quotes in link targets inside the attribute', () => {
+    const html = render('[x](https://example.com/"onmouseover="alert(1))')
+    assertSafe(html)
+    assert.doesNotMatch(html, /"\s*onmouseover=/)
+  })
+
+  it('opens safe links in a new tab without an opener', () => {
+    const html = render('[PubMed](https://pubmed.ncbi.nlm.nih.gov/29151359)')
+    assert.match(html, /<a href="https:\/\/pubmed\.ncbi\.nlm\.nih\.gov\/29151359" target="_blank" rel="noopener noreferrer nofollow"/)
+  })
+
+  it('does not linkify bare script URLs', () => {
+    const html = render('Visit javascript:alert(1) or https://example.com.')
+    assertSafe(html)
+    assert.equal(tagsOf(html).filter(tag => tag === 'a').length, 1)
+    assert.match(html, /href="https:\/\/example\.com"/)
+  })
+})
+
+describe('graph query replies', () => {
+  it('renders query results as a table', () => {
+    const [summary, table] = parseMarkdown(formatQueryResult(runGraphQuery('MATCH (d:drug) -[inhibits]-> (g:gene) RETURN d, g LIMIT 3', store))) as Extract<BlockNode, { type: 'table' }>[]
+    assert.equal(summary.type, 'paragraph')
+    assert.equal(table.type, 'table')
+    assert.deepEqual(table.header, [[{ type: 'text', text: 'd' }], [{ type: 'text', text: 'g' }]])
+    assert.equal(table.rows.length, 3)
+  })
+
+  it('keeps the caret under the error position', () => {
+    const query = 'MATCH drug -[inhibits]-> gene WHERE gene.label ='
+    let error: GraphQueryError | undefined
+    try {
+      runGraphQuery(query, store)
+    } catch (caught) {
+      error = caught as GraphQueryError
+    }
+    assert.ok(error instanceof GraphQueryError && error.position !== undefined)
+    const code = parseMarkdown(formatQueryError(error, query)).find(block => block.type === 'code')
+    assert.deepEqual(code, { type: 'code', language: '', text: `${query}\n${' '.repeat(error.position)}^` })
+  })
+
+  it('renders the help with its examples verbatim', () => {
+    const code = parseMarkdown(QUERY_HELP).find(block => block.type === 'code')
+    assert.ok(code?.type === 'code' && code.text.startsWith('MATCH drug -[inhibits]-> gene'))
+  })
+})
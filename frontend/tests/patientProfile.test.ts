@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { matchTherapies, parsePatientProfile } from '../src/services/patientProfile'
+import { linker, store } from './fixtures'
+
+const match = (text: string) => matchTherapies(parsePatientProfile(text, linker), store)
+const scores = (text: string) => Object.fromEntries(match(text).matches.map(therapy => [therapy.drug.label, therapy.score]))
+
+describe('parsePatientProfile', () => {
+  it('reads the disease, mutations and measured expression', () => {
+    const profile = parsePatientProfile('NSCLC, EGFR L858R, TP53 R273H, PD-L1 TPS 60%', linker)
+    assert.equal(profile.disease?.id, 'disease:Lung Cancer')
+    assert.deepEqual(profile.alterations.map(alteration => [alteration.text, alteration.kind]), [
+      ['EGFR L858R', 'mutation'],
+      ['TP53 R273H', 'mutation'],
+      ['PD-L1 TPS 60%', 'expression']
+    ])
+    const pdl1 = profile.alterations[2]
+    assert.equal(pdl1.value, 60)
+    assert.equal(pdl1.unit, '%')
+    assert.equal(pdl1.negative, false)
+  })
+
+  it('splits compound mutations and marks negative findings', () => {
+    const profile = parsePatientProfile('EGFR L858R/T790M, KRAS wild-type, ER+', linker)
+    assert.deepEqual(profile.alterations.map(alteration => [alteration.text, alteration.negative]), [
+      ['EGFR L858R', false],
+      ['EGFR T790M', false],
+      ['KRAS wild-type', true]
+    ])
+    assert.deepEqual(profile.unrecognized, ['ER+'])
+  })
+})
+
+describe('matchTherapies', () => {
+  it('ranks variant-level support first, with the chain behind it', () => {
+    const result = match('NSCLC, EGFR L858R')
+    const [best] = result.matches
+    assert.equal(best.drug.label, 'Osimertinib')
+    assert.equal(best.onLabel, true)
+    assert.equal(best.support[0].level, 'variant')
+    assert.deepEqual(best.support[0].path.nodes.map(node => node.id), ['variant:EGFR L858R', 'drug:Osimertinib', 'disease:Lung Cancer'])
+  })
+
+  it('weighs PD-L1 by tumour proportion score cut-offs', () => {
+    assert.equal(scores('NSCLC, PD-L1 TPS 60%').Pembrolizumab, 6)
+    assert.equal(scores('NSCLC, PD-L1 TPS 50%').Pembrolizumab, 6)
+    assert.equal(scores('NSCLC, PD-L1 TPS 1%').Pembrolizumab, 4)
+    assert.equal(scores('NSCLC, PD-L1 TPS 0.5%').Pembrolizumab, undefined)
+    assert.equal(scores('NSCLC, PD-L1 positive').Pembrolizumab, 6)
+  })
+
+  it('applies gene-level resistance only to the alteration it describes', () => {
+    // gene:MET confers resistance to osimertinib through MET amplification
+    const amplified = match('NSCLC, EGFR L858R, MET amplification').matches.find(therapy => therapy.drug.label === 'Osimertinib')!
+    assert.equal(amplified.resistance.length, 1)
+    assert.equal(amplified.resistance[0].path.nodes[0].id, 'gene:MET')
+
+    const skipping = match('NSCLC, EGFR L858R, MET exon 14 skipping').matches.find(therapy => therapy.drug.label === 'Osimertinib')!
+    assert.deepEqual(skipping.resistance, [])
+    assert.equal(skipping.score, 6)
+  })
+
+  it('lets a resistant variant cancel support for that drug', () => {
+    const osimertinib = match('NSCLC, EGFR C797S').matches.find(therapy => therapy.drug.label === 'Osimertinib')!
+    assert.deepEqual(osimertinib.support, [])
+    assert.ok(osimertinib.score < 0)
+  })
+})
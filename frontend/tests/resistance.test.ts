@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { analyzeResistance, detectResistanceQuery, formatResistanceAnalysis } from '../src/services/resistance'
+import { linker, store } from './fixtures'
+
+const detect = (question: string) => detectResistanceQuery(question.toLowerCase(), linker.link(question))
+
+describe('detectResistanceQuery', () => {
+  it('recognises resistance questions and whether they ask what comes next', () => {
+    [
+      ['Why does osimertinib stop working?', 'mechanisms'],
+      ['How do tumours become resistant to trastuzumab?', 'mechanisms'],
+      ['Patients who progressed on osimertinib', 'mechanisms'],
+      ['What if osimertinib fails?', 'mechanisms'],
+      ['Options after failure of crizotinib', 'after'],
+      ['What to use after osimertinib failure?', 'after'],
+      ['What can I use after resistance to crizotinib?', 'after'],
+      ['Relapsed on trastuzumab, what next?', 'after']
+    ].forEach(([question, mode]) => {
+      const query = detect(question)
+      assert.ok(query, question)
+      assert.equal(query.mode, mode, question)
+    })
+  })
+
+  it('leaves efficacy, safety and trial questions alone', () => {
+    [
+      'What is the progression-free survival with osimertinib in FLAURA?',
+      'Median PFS and disease progression rates for osimertinib',
+      'Does trastuzumab cause heart failure?',
+      'Risk of heart failure with trastuzumab',
+      'How does osimertinib work?'
+    ].forEach(question => assert.equal(detect(question), null, question))
+  })
+
+  it('needs a drug', () => {
+    assert.equal(detect('Why do tumours become resistant?'), null)
+  })
+})
+
+describe('analyzeResistance', () => {
+  it('lists what defeats a drug', () => {
+    const analysis = analyzeResistance(detect('Why does osimertinib stop working?')!, store)
+    const causes = analysis.causes.map(cause => cause.node.id)
+    assert.ok(causes.includes('gene:MET'), causes.join(', '))
+    assert.ok(analysis.nodes.some(node => node.id === 'drug:Osimertinib'))
+    assert.match(formatResistanceAnalysis(analysis), /^RESISTANCE ANALYSIS:/)
+  })
+
+  it('suggests drugs acting on the causes when asked what comes next', () => {
+    const analysis = analyzeResistance(detect('What can I use after resistance to crizotinib?')!, store)
+    assert.ok(analysis.alternatives.some(alternative => alternative.drug.id === 'drug:Lorlatinib'))
+    analysis.alternatives.forEach(alternative => assert.notEqual(alternative.drug.id, 'drug:Crizotinib'))
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { knowledgeGraphService } from '../src/services/knowledgeGraphService'
+import { matchesProteinChange, parseProteinChanges, toHgvs } from '../src/services/variantParser'
+import { store } from './fixtures'
+
+const notations = (text: string) => parseProteinChanges(text).map(change => change.notation)
+
+// Variant nodes the change describes, by id
+const variantsFor = (text: string) => {
+  const [change] = parseProteinChanges(text)
+  return store.getNodesByType('variant').filter(node => matchesProteinChange(node.properties || {}, change)).map(node => node.id)
+}
+
+describe('parseProteinChanges', () => {
+  it('reads one-letter, HGVS three-letter and exon-level changes', () => {
+    assert.deepEqual(notations('KRAS G12C'), ['G12C'])
+    assert.deepEqual(notations('EGFR p.L858R'), ['L858R'])
+    assert.deepEqual(notations('EGFR p.Thr790Met and p.(Gly12Cys)'), ['T790M', 'G12C'])
+    assert.deepEqual(notations('EGFR exon 19 deletion, ex20ins, MET exon 14 skipping'), ['exon 19 deletion', 'exon 20 insertion', 'exon 14 skipping'])
+  })
+
+  it('keeps offsets and the HGVS form', () => {
+    const [change] = parseProteinChanges('EGFR p.Thr790Met')
+    assert.deepEqual([change.start, change.end, change.text, change.hgvs], [5, 16, 'p.Thr790Met', 'p.Thr790Met'])
+    assert.equal(toHgvs('G', 12, 'X'), 'p.Gly12Ter')
+  })
+
+  it('does not read gene symbols as changes', () => {
+    assert.deepEqual(notations('E2F, CDK4/6 and BRCA1 status'), [])
+  })
+})
+
+describe('matchesProteinChange', () => {
+  it('finds variant nodes however the change is written', () => {
+    assert.deepEqual(variantsFor('T790M'), ['variant:EGFR T790M'])
+    assert.deepEqual(variantsFor('p.Thr790Met'), ['variant:EGFR T790M'])
+    assert.deepEqual(variantsFor('exon 19 del'), ['variant:EGFR exon 19 deletion'])
+    assert.deepEqual(variantsFor('G719S'), [])
+  })
+})
+
+describe('variant questions', () => {
+  it('answer from the variant node when the graph has it', () => {
+    const { nodes } = knowledgeGraphService.queryKnowledgeGraph('Is EGFR p.Thr790Met sensitive to osimertinib?')
+    assert.ok(nodes.some(node => node.id === 'variant:EGFR T790M'))
+    assert.ok(nodes.some(node => node.id === 'drug:Osimertinib'))
+  })
+
+  it('fall back to the gene and say the variant is missing', () => {
+    const { nodes, context } = knowledgeGraphService.queryKnowledgeGraph('Which drugs work for EGFR G719S?')
+    assert.ok(nodes.some(node => node.id === 'gene:EGFR'))
+    assert.match(context, /EGFR G719S is not in the knowledge graph/)
+  })
+})
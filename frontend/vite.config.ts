@@ -6,7 +6,11 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
-    host: true
+    host: true,
+    // API calls go to the OncoGraph server (npm run server), which holds the LLM key
+    proxy: {
+      '/api': process.env.ONCOGRAPH_SERVER_URL || 'http://localhost:8787'
+    }
   },
   base: process.env.VERCEL ? '/' : (process.env.NODE_ENV === 'production' ? '/ONCOGRAPH/' : '/'),
   build: {